@@ -38,15 +38,19 @@ export default async function handler(
     // Solve the routing problem
     solver.solve()
 
+    const completion_report = solver.getCompletionReport()
+
     // If solver failed to find a solution
     if (solver.error) {
       return response.status(400).json({
         error: `Failed to solve routing: ${solver.error}`,
+        completion_report,
       })
     }
 
-    // Convert solver output to simplified trace format
-    const traces = convertSolverOutputToTraces(solver)
+    // Convert solver output to simplified trace format, this maps z indices
+    // to layer names (top, inner1, inner2, ..., bottom) using the layerCount
+    const traces = solver.getOutputSimplifiedPcbTraces()
 
     // Return the solution
     const output_simple_route_json = {
@@ -54,8 +58,12 @@ export default async function handler(
       traces,
     }
 
+    const length_matching_report = solver.getLengthMatchingReport()
+
     return response.status(200).json({
       output_simple_route_json,
+      completion_report,
+      ...(length_matching_report ? { length_matching_report } : {}),
     })
   } catch (error) {
     console.error("Error in autorouting solve endpoint:", error)
@@ -80,46 +88,3 @@ function validateSimpleRouteJson(input: any): boolean {
     typeof input.bounds.maxY === "number"
   )
 }
-
-function convertSolverOutputToTraces(solver: CapacityMeshSolver) {
-  const traces = []
-  const routes = solver.highDensityRouteSolver?.routes || []
-
-  for (const route of routes) {
-    const trace = {
-      type: "pcb_trace" as const,
-      pcb_trace_id: route.connectionName,
-      route: [] as Array<any>,
-    }
-
-    // Convert route points to wire and via segments
-    for (let i = 0; i < route.route.length - 1; i++) {
-      const current = route.route[i]
-      const next = route.route[i + 1]
-
-      // If z-level changes, add a via
-      if (current.z !== next.z) {
-        trace.route.push({
-          route_type: "via",
-          x: current.x,
-          y: current.y,
-          from_layer: `layer${current.z}`,
-          to_layer: `layer${next.z}`,
-        })
-      }
-
-      // Add wire segment
-      trace.route.push({
-        route_type: "wire",
-        x: next.x,
-        y: next.y,
-        width: route.traceThickness,
-        layer: `layer${next.z}`,
-      })
-    }
-
-    traces.push(trace)
-  }
-
-  return traces
-}
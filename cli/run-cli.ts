@@ -0,0 +1,244 @@
+import { readFile, writeFile } from "node:fs/promises"
+import { parseArgs } from "node:util"
+import { getSvgFromGraphicsObject } from "graphics-debug"
+import { AutoroutingPipelineSolver } from "../lib/solvers/AutoroutingPipelineSolver"
+import { BaseSolver } from "../lib/solvers/BaseSolver"
+import type {
+  CapacityMeshSolverOptions,
+  CompletionReport,
+  SimpleRouteJson,
+} from "../lib/types"
+import { convertSrjToGraphicsObject } from "../tests/fixtures/convertSrjToGraphicsObject"
+
+export const USAGE = `Usage: capacity-autorouter [input.json] [options]
+
+Routes a SimpleRouteJson file, reads stdin when no input file (or "-") is given
+
+Options:
+  -o, --output <file>             Write the routed SimpleRouteJson here instead of stdout
+  --capacity-depth <n>            Depth of the capacity mesh (default: automatic)
+  --target-min-capacity <n>       Target capacity of the smallest mesh nodes (default: 0.5)
+  --seed <n>                      Seed of the connection orderings (default: 0)
+  --time-limit <seconds>          Time budget, outputs the best partial routing when it runs out
+  --svg <file>                    Write an SVG of the result
+  --stats <file>                  Write a JSON report of phase times, iterations and failures
+  -h, --help                      Show this message
+`
+
+export interface AutorouteStats {
+  solved: boolean
+  failed: boolean
+  error: string | null
+  iterations: number
+  /** Wall-clock time of the whole run in milliseconds */
+  timeToSolve: number
+  timeSpentOnPhase: Record<string, number>
+  iterationsOfPhase: Record<string, number>
+  /** Stages that stopped early because the time budget ran out */
+  stagesThatRanOutOfTime: string[]
+  completionReport: CompletionReport
+}
+
+export interface CliIo {
+  readStdin: () => Promise<string>
+  writeStdout: (text: string) => void
+  writeStderr: (text: string) => void
+}
+
+const defaultIo: CliIo = {
+  readStdin: async () => {
+    let input = ""
+    process.stdin.setEncoding("utf-8")
+    for await (const chunk of process.stdin) input += chunk
+    return input
+  },
+  writeStdout: (text) => process.stdout.write(text),
+  writeStderr: (text) => process.stderr.write(text),
+}
+
+const parseCliArgs = (args: string[]) =>
+  parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      "capacity-depth": { type: "string" },
+      "target-min-capacity": { type: "string" },
+      seed: { type: "string" },
+      "time-limit": { type: "string" },
+      svg: { type: "string" },
+      stats: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  })
+
+const parseNumberOption = (
+  name: string,
+  value: string | undefined,
+  { integer = false }: { integer?: boolean } = {},
+) => {
+  if (value === undefined) return undefined
+  const n = Number(value)
+  if (integer && !Number.isInteger(n)) {
+    throw new Error(`--${name} must be a positive integer, got "${value}"`)
+  }
+  if (!Number.isFinite(n) || n <= 0) {
+    throw new Error(`--${name} must be a positive number, got "${value}"`)
+  }
+  return n
+}
+
+const getErrorMessage = (e: unknown) =>
+  e instanceof Error ? e.message : String(e)
+
+const parseSeedOption = (value: string | undefined) => {
+  if (value === undefined) return undefined
+  const n = Number(value)
+  if (!Number.isInteger(n) || n < 0) {
+    throw new Error(`--seed must be a non-negative integer, got "${value}"`)
+  }
+  return n
+}
+
+/** Run the pipeline, returns the wall-clock time in milliseconds */
+const solveAndMeasureTime = (solver: AutoroutingPipelineSolver) => {
+  const startTime = performance.now()
+  try {
+    solver.solve()
+  } catch {
+    // The solver records the error and marks itself as failed
+  }
+  return performance.now() - startTime
+}
+
+const getStats = (
+  solver: AutoroutingPipelineSolver,
+  timeToSolve: number,
+): AutorouteStats => {
+  const iterationsOfPhase: Record<string, number> = {}
+  for (const step of solver.pipelineDef) {
+    const stepSolver =
+      solver[step.solverName as keyof AutoroutingPipelineSolver]
+    if (stepSolver instanceof BaseSolver) {
+      iterationsOfPhase[step.solverName] = stepSolver.iterations
+    }
+  }
+  return {
+    solved: solver.solved,
+    failed: solver.failed,
+    error: solver.error,
+    iterations: solver.iterations,
+    timeToSolve,
+    timeSpentOnPhase: solver.timeSpentOnPhase,
+    iterationsOfPhase,
+    stagesThatRanOutOfTime: solver.stagesThatRanOutOfTime,
+    completionReport: solver.getCompletionReport(),
+  }
+}
+
+/**
+ * Route a SimpleRouteJson from the command line, resolves to the process exit
+ * code (0 when every connection was routed)
+ */
+export const runCli = async (
+  args: string[],
+  io: CliIo = defaultIo,
+): Promise<number> => {
+  let parsed: ReturnType<typeof parseCliArgs>
+  try {
+    parsed = parseCliArgs(args)
+  } catch (e) {
+    io.writeStderr(`${getErrorMessage(e)}\n\n${USAGE}`)
+    return 2
+  }
+  const { values, positionals } = parsed
+
+  if (values.help) {
+    io.writeStdout(USAGE)
+    return 0
+  }
+
+  let opts: CapacityMeshSolverOptions
+  try {
+    const timeLimitSeconds = parseNumberOption(
+      "time-limit",
+      values["time-limit"],
+    )
+    opts = {
+      capacityDepth: parseNumberOption(
+        "capacity-depth",
+        values["capacity-depth"],
+        { integer: true },
+      ),
+      targetMinCapacity: parseNumberOption(
+        "target-min-capacity",
+        values["target-min-capacity"],
+      ),
+      seed: parseSeedOption(values.seed),
+      timeBudgetMs:
+        timeLimitSeconds === undefined ? undefined : timeLimitSeconds * 1000,
+    }
+  } catch (e) {
+    io.writeStderr(`${getErrorMessage(e)}\n`)
+    return 2
+  }
+
+  const inputPath = positionals[0]
+  let srj: SimpleRouteJson
+  try {
+    const input =
+      inputPath === undefined || inputPath === "-"
+        ? await io.readStdin()
+        : await readFile(inputPath, "utf-8")
+    srj = JSON.parse(input)
+  } catch (e) {
+    io.writeStderr(`Could not read SimpleRouteJson: ${getErrorMessage(e)}\n`)
+    return 2
+  }
+
+  const solver = new AutoroutingPipelineSolver(srj, opts)
+  const timeToSolve = solveAndMeasureTime(solver)
+
+  if (values.stats) {
+    await writeFile(
+      values.stats,
+      JSON.stringify(getStats(solver, timeToSolve), null, 2),
+    )
+  }
+
+  if (solver.failed) {
+    if (values.svg) {
+      // Show where the pipeline got stuck
+      await writeFile(values.svg, getSvgFromGraphicsObject(solver.visualize()))
+    }
+    io.writeStderr(`Routing failed: ${solver.error}\n`)
+    return 1
+  }
+
+  const outputSrj = solver.getOutputSimpleRouteJson()
+  const outputJson = JSON.stringify(outputSrj, null, 2)
+  if (values.output) {
+    await writeFile(values.output, outputJson)
+  } else {
+    io.writeStdout(`${outputJson}\n`)
+  }
+  if (values.svg) {
+    await writeFile(
+      values.svg,
+      getSvgFromGraphicsObject(convertSrjToGraphicsObject(outputSrj)),
+    )
+  }
+
+  const {
+    completionPercentage,
+    partiallyRoutedConnectionNames,
+    failedConnectionNames,
+  } = solver.getCompletionReport()
+  if (completionPercentage < 100) {
+    io.writeStderr(
+      `Routed ${completionPercentage.toFixed(1)}% of connections, partially routed: ${partiallyRoutedConnectionNames.join(", ")}, failed: ${failedConnectionNames.join(", ")}\n`,
+    )
+    return 1
+  }
+  return 0
+}
@@ -0,0 +1,7 @@
+import { AutoroutingPipelineDebugger } from "lib/testing/AutoroutingPipelineDebugger"
+import { SimpleRouteJson } from "lib/types"
+import lShapedBoard from "examples/assets/l-shaped-board.json"
+
+export default () => (
+  <AutoroutingPipelineDebugger srj={lShapedBoard as SimpleRouteJson} />
+)
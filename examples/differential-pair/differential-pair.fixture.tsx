@@ -0,0 +1,7 @@
+import { AutoroutingPipelineDebugger } from "lib/testing/AutoroutingPipelineDebugger"
+import { SimpleRouteJson } from "lib/types"
+import differentialPair from "examples/assets/differential-pair.json"
+
+export default () => (
+  <AutoroutingPipelineDebugger srj={differentialPair as SimpleRouteJson} />
+)
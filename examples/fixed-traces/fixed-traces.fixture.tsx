@@ -0,0 +1,7 @@
+import { AutoroutingPipelineDebugger } from "lib/testing/AutoroutingPipelineDebugger"
+import { SimpleRouteJson } from "lib/types"
+import fixedTraces from "examples/assets/fixed-traces.json"
+
+export default () => (
+  <AutoroutingPipelineDebugger srj={fixedTraces as SimpleRouteJson} />
+)
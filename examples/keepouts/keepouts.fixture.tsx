@@ -0,0 +1,7 @@
+import { AutoroutingPipelineDebugger } from "lib/testing/AutoroutingPipelineDebugger"
+import { SimpleRouteJson } from "lib/types"
+import keepouts from "examples/assets/keepouts.json"
+
+export default () => (
+  <AutoroutingPipelineDebugger srj={keepouts as SimpleRouteJson} />
+)
@@ -0,0 +1,7 @@
+import { AutoroutingPipelineDebugger } from "lib/testing/AutoroutingPipelineDebugger"
+import { SimpleRouteJson } from "lib/types"
+import lengthMatching from "examples/assets/length-matching.json"
+
+export default () => (
+  <AutoroutingPipelineDebugger srj={lengthMatching as SimpleRouteJson} />
+)
@@ -0,0 +1,7 @@
+import { AutoroutingPipelineDebugger } from "lib/testing/AutoroutingPipelineDebugger"
+import { SimpleRouteJson } from "lib/types"
+import fourLayer1 from "examples/assets/fourlayer1.json"
+
+export default () => (
+  <AutoroutingPipelineDebugger srj={fourLayer1 as SimpleRouteJson} />
+)
@@ -0,0 +1,7 @@
+import { AutoroutingPipelineDebugger } from "lib/testing/AutoroutingPipelineDebugger"
+import { SimpleRouteJson } from "lib/types"
+import circleObstacles from "examples/assets/circle-obstacles.json"
+
+export default () => (
+  <AutoroutingPipelineDebugger srj={circleObstacles as SimpleRouteJson} />
+)
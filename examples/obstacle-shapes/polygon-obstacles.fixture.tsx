@@ -0,0 +1,7 @@
+import { AutoroutingPipelineDebugger } from "lib/testing/AutoroutingPipelineDebugger"
+import { SimpleRouteJson } from "lib/types"
+import polygonObstacles from "examples/assets/polygon-obstacles.json"
+
+export default () => (
+  <AutoroutingPipelineDebugger srj={polygonObstacles as SimpleRouteJson} />
+)
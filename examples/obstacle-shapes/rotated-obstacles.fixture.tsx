@@ -0,0 +1,7 @@
+import { AutoroutingPipelineDebugger } from "lib/testing/AutoroutingPipelineDebugger"
+import { SimpleRouteJson } from "lib/types"
+import rotatedObstacles from "examples/assets/rotated-obstacles.json"
+
+export default () => (
+  <AutoroutingPipelineDebugger srj={rotatedObstacles as SimpleRouteJson} />
+)
@@ -1,4 +1,8 @@
 import { Obstacle } from "lib/types"
+import {
+  doesRectOverlapObstacle,
+  getObstacleBounds,
+} from "lib/utils/obstacle-shapes"
 
 export type BucketCoordinate = `${number}x${number}`
 
@@ -11,12 +15,22 @@ export class ObstacleTree {
     // for (const obstacle of obstacles) {
     for (let i = 0; i < obstacles.length; i++) {
       const obstacle = obstacles[i]
-      const nodeMinX = obstacle.center.x - obstacle.width / 2
-      const nodeMinY = obstacle.center.y - obstacle.height / 2
-      const nodeMaxX = obstacle.center.x + obstacle.width / 2
-      const nodeMaxY = obstacle.center.y + obstacle.height / 2
+      const {
+        minX: nodeMinX,
+        minY: nodeMinY,
+        maxX: nodeMaxX,
+        maxY: nodeMaxY,
+      } = getObstacleBounds(obstacle)
       for (let x = nodeMinX; x <= nodeMaxX; x += this.CELL_SIZE) {
         for (let y = nodeMinY; y <= nodeMaxY; y += this.CELL_SIZE) {
+          // Circles, polygons and rotated rects don't cover every cell of
+          // their bounds
+          if (
+            (obstacle.type !== "rect" || obstacle.ccwRotationDegrees) &&
+            !doesRectOverlapObstacle(this.getBucketRect(x, y), obstacle)
+          ) {
+            continue
+          }
           const bucketKey = this.getBucketKey(x, y)
           const bucket = this.buckets.get(bucketKey)
           if (!bucket) {
@@ -33,6 +47,17 @@ export class ObstacleTree {
     return `${Math.floor(x / this.CELL_SIZE)}x${Math.floor(y / this.CELL_SIZE)}`
   }
 
+  getBucketRect(x: number, y: number) {
+    return {
+      center: {
+        x: (Math.floor(x / this.CELL_SIZE) + 0.5) * this.CELL_SIZE,
+        y: (Math.floor(y / this.CELL_SIZE) + 0.5) * this.CELL_SIZE,
+      },
+      width: this.CELL_SIZE,
+      height: this.CELL_SIZE,
+    }
+  }
+
   getNodesInArea(
     centerX: number,
     centerY: number,
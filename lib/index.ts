@@ -1,5 +1,11 @@
 export { CapacityMeshSolver } from "./solvers/AutoroutingPipelineSolver"
+export type { AutoroutingPipelineCheckpoint } from "./solvers/AutoroutingPipelineSolver"
 export {
   getTunedTotalCapacity1,
   calculateOptimalCapacityDepth,
 } from "./utils/getTunedTotalCapacity1"
+export { checkDesignRules } from "./utils/checkDesignRules"
+export { IncrementalRerouteSolver } from "./solvers/IncrementalRerouteSolver/IncrementalRerouteSolver"
+export { runAutoroutingInWorker } from "./worker/runAutoroutingInWorker"
+export { createAutoroutingWorkerHandler } from "./worker/createAutoroutingWorkerHandler"
+export { HighDensityWorkerPool } from "./worker/HighDensityWorkerPool"
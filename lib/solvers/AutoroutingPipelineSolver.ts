@@ -2,6 +2,10 @@ import type { GraphicsObject, Line } from "graphics-debug"
 import { combineVisualizations } from "../utils/combineVisualizations"
 import type {
   CapacityMeshNode,
+  CapacityMeshSolverOptions,
+  CompletionReport,
+  LengthMatchingReport,
+  Obstacle,
   SimpleRouteJson,
   SimplifiedPcbTrace,
   SimplifiedPcbTraces,
@@ -16,16 +20,23 @@ import { CapacityEdgeToPortSegmentSolver } from "./CapacityMeshSolver/CapacityEd
 import { getColorMap } from "./colors"
 import { CapacitySegmentToPointSolver } from "./CapacityMeshSolver/CapacitySegmentToPointSolver"
 import { HighDensitySolver } from "./HighDensitySolver/HighDensitySolver"
+import { ParallelHighDensitySolver } from "./HighDensitySolver/ParallelHighDensitySolver"
 import type { NodePortSegment } from "../types/capacity-edges-to-port-segments-types"
 import { CapacityPathingSolver2_AvoidLowCapacity } from "./CapacityPathingSolver/CapacityPathingSolver2_AvoidLowCapacity"
 import { CapacityPathingSolver3_FlexibleNegativeCapacity_AvoidLowCapacity } from "./CapacityPathingSolver/CapacityPathingSolver3_FlexibleNegativeCapacity_AvoidLowCapacity"
 import { CapacityPathingSolver4_FlexibleNegativeCapacity } from "./CapacityPathingSolver/CapacityPathingSolver4_FlexibleNegativeCapacity_AvoidLowCapacity_FixedDistanceCost"
 import { ConnectivityMap } from "circuit-json-to-connectivity-map"
 import { getConnectivityMapFromSimpleRouteJson } from "lib/utils/getConnectivityMapFromSimpleRouteJson"
+import {
+  DEFAULT_VIA_DIAMETER,
+  getDefaultTraceParams,
+  getTraceParamsMapFromSimpleRouteJson,
+} from "lib/utils/getTraceParamsMapFromSimpleRouteJson"
 import { CapacityNodeTargetMerger } from "./CapacityNodeTargetMerger/CapacityNodeTargetMerger"
 import { CapacitySegmentPointOptimizer } from "./CapacitySegmentPointOptimizer/CapacitySegmentPointOptimizer"
 import { calculateOptimalCapacityDepth } from "../utils/getTunedTotalCapacity1"
 import { NetToPointPairsSolver } from "./NetToPointPairsSolver/NetToPointPairsSolver"
+import { NetTreeSelectionSolver } from "./NetToPointPairsSolver/NetTreeSelectionSolver"
 import { convertHdRouteToSimplifiedRoute } from "lib/utils/convertHdRouteToSimplifiedRoute"
 import { mergeRouteSegments } from "lib/utils/mergeRouteSegments"
 import { mapLayerNameToZ } from "lib/utils/mapLayerNameToZ"
@@ -33,29 +44,99 @@ import { MultipleHighDensityRouteStitchSolver } from "./RouteStitchingSolver/Mul
 import { convertSrjToGraphicsObject } from "tests/fixtures/convertSrjToGraphicsObject"
 import { UnravelMultiSectionSolver } from "./UnravelSolver/UnravelMultiSectionSolver"
 import { CapacityPathingSolver5 } from "./CapacityPathingSolver/CapacityPathingSolver5"
+import { CapacityPathingMultiSectionSolver } from "./CapacityPathingSectionSolver/CapacityPathingMultiSectionSolver"
+import { CapacityPathingSolver6_NegotiatedCongestion } from "./CapacityPathingSolver/CapacityPathingSolver6_NegotiatedCongestion"
 import { StrawSolver } from "./StrawSolver/StrawSolver"
 import { SingleLayerNodeMergerSolver } from "./SingleLayerNodeMerger/SingleLayerNodeMergerSolver"
 import { CapacityNodeTargetMerger2 } from "./CapacityNodeTargetMerger/CapacityNodeTargetMerger2"
 import { SingleSimplifiedPathSolver } from "./SimplifiedPathSolver/SingleSimplifiedPathSolver"
 import { MultiSimplifiedPathSolver } from "./SimplifiedPathSolver/MultiSimplifiedPathSolver"
+import { DesignRuleCheckSolver } from "./DesignRuleCheckSolver/DesignRuleCheckSolver"
+import {
+  LengthMatchingSolver,
+  doesSrjRequireLengthMatching,
+} from "./LengthMatchingSolver/LengthMatchingSolver"
+import { getBoardOutline } from "lib/utils/getBoardOutline"
+import {
+  getConnectionsRoutedByTraces,
+  getObstaclesFromTraces,
+} from "lib/utils/fixed-traces"
+import {
+  type FailedNode,
+  RipUpAndRerouteSolver,
+} from "./RipUpAndRerouteSolver/RipUpAndRerouteSolver"
+import {
+  getCompletionReport,
+  getOriginalConnectionName,
+} from "lib/utils/getCompletionReport"
+import { getViaBudgetsByNodeId } from "lib/utils/getViaBudgetsByNodeId"
+import {
+  addTeePortPoints,
+  getTeePointsByConnectionName,
+} from "lib/utils/addTeePortPoints"
 import {
   HighDensityIntraNodeRoute,
   HighDensityRoute,
+  NodeWithPortPoints,
+  TraceParams,
 } from "lib/types/high-density-types"
+import type { CapacityMeshEdge, CapacityPath } from "lib/types"
+import type { SegmentWithAssignedPoints } from "./CapacityMeshSolver/CapacitySegmentToPointSolver"
 import { CapacityMeshEdgeSolver2_NodeTreeOptimization } from "./CapacityMeshSolver/CapacityMeshEdgeSolver2_NodeTreeOptimization"
 
-interface CapacityMeshSolverOptions {
-  capacityDepth?: number
-  targetMinCapacity?: number
+/**
+ * Share of the time budget each stage gets, relative to the stages after it.
+ * Time a stage doesn't use carries over to the later stages. Stages without a
+ * weight can't stop early and always run to completion.
+ */
+const STAGE_TIME_BUDGET_WEIGHTS: Record<string, number> = {
+  netTreeSelectionSolver: 1,
+  pathingSolver: 1,
+  unravelMultiSectionSolver: 1,
+  highDensityRouteSolver: 6,
+  ripUpAndRerouteSolver: 2,
+  multiSimplifiedPathSolver: 1,
+  lengthMatchingSolver: 0.5,
+}
+
+/**
+ * JSON-serializable snapshot of the pipeline at a stage boundary. Stage
+ * outputs are present for every stage that finished before `phase`, resuming
+ * from the checkpoint starts by running `phase`.
+ */
+export interface AutoroutingPipelineCheckpoint {
+  /** Name of the pipeline step to run next, "none" when the pipeline solved */
+  phase: string
+  srj: SimpleRouteJson
+  opts: CapacityMeshSolverOptions
+  srjWithPointPairs?: SimpleRouteJson
+  capacityNodes?: CapacityMeshNode[]
+  capacityEdges?: CapacityMeshEdge[]
+  capacityPaths?: CapacityPath[]
+  nodePortSegments?: NodePortSegment[]
+  assignedSegments?: SegmentWithAssignedPoints[]
+  nodesWithPortPoints?: NodeWithPortPoints[]
+  hdRoutes?: HighDensityIntraNodeRoute[]
+  hdRoutesByNodeId?: Record<string, HighDensityIntraNodeRoute[]>
+  failedHdNodes?: FailedNode[]
+  stitchedHdRoutes?: HighDensityRoute[]
+  simplifiedHdRoutes?: HighDensityRoute[]
+  lengthMatchedHdRoutes?: HighDensityRoute[]
 }
 
 type PipelineStep<T extends new (...args: any[]) => BaseSolver> = {
   solverName: string
   solverClass: T
+  getSolverClass?: (
+    instance: AutoroutingPipelineSolver,
+  ) => new (
+    ...args: ConstructorParameters<T>
+  ) => BaseSolver
   getConstructorParams: (
     instance: AutoroutingPipelineSolver,
   ) => ConstructorParameters<T>
   onSolved?: (instance: AutoroutingPipelineSolver) => void
+  shouldSkip?: (instance: AutoroutingPipelineSolver) => boolean
 }
 
 function definePipelineStep<
@@ -69,32 +150,46 @@ function definePipelineStep<
   getConstructorParams: (instance: AutoroutingPipelineSolver) => P,
   opts: {
     onSolved?: (instance: AutoroutingPipelineSolver) => void
+    /** Optional stages are skipped when this returns true */
+    shouldSkip?: (instance: AutoroutingPipelineSolver) => boolean
+    /** Replaces solverClass with a solver taking the same parameters */
+    getSolverClass?: (
+      instance: AutoroutingPipelineSolver,
+    ) => new (
+      ...args: ConstructorParameters<T>
+    ) => BaseSolver
   } = {},
 ): PipelineStep<T> {
   return {
     solverName,
     solverClass,
+    getSolverClass: opts.getSolverClass,
     getConstructorParams,
     onSolved: opts.onSolved,
+    shouldSkip: opts.shouldSkip,
   }
 }
 
 export class AutoroutingPipelineSolver extends BaseSolver {
   netToPointPairsSolver?: NetToPointPairsSolver
+  netTreeSelectionSolver?: NetTreeSelectionSolver
   nodeSolver?: CapacityMeshNodeSolver
   nodeTargetMerger?: CapacityNodeTargetMerger
   edgeSolver?: CapacityMeshEdgeSolver
-  pathingSolver?: CapacityPathingSolver
+  pathingSolver?: CapacityPathingSolver | CapacityPathingMultiSectionSolver
   edgeToPortSegmentSolver?: CapacityEdgeToPortSegmentSolver
   colorMap: Record<string, string>
   segmentToPointSolver?: CapacitySegmentToPointSolver
   unravelMultiSectionSolver?: UnravelMultiSectionSolver
   segmentToPointOptimizer?: CapacitySegmentPointOptimizer
   highDensityRouteSolver?: HighDensitySolver
+  ripUpAndRerouteSolver?: RipUpAndRerouteSolver
   highDensityStitchSolver?: MultipleHighDensityRouteStitchSolver
   singleLayerNodeMerger?: SingleLayerNodeMergerSolver
   strawSolver?: StrawSolver
   multiSimplifiedPathSolver?: MultiSimplifiedPathSolver
+  lengthMatchingSolver?: LengthMatchingSolver
+  designRuleCheckSolver?: DesignRuleCheckSolver
 
   startTimeOfPhase: Record<string, number>
   endTimeOfPhase: Record<string, number>
@@ -103,20 +198,45 @@ export class AutoroutingPipelineSolver extends BaseSolver {
   activeSubSolver?: BaseSolver | null = null
   connMap: ConnectivityMap
   srjWithPointPairs?: SimpleRouteJson
+  traceParamsMap: Record<string, TraceParams>
   capacityNodes: CapacityMeshNode[] | null = null
+  /** Obstacles of the srj plus the input traces, which are fixed copper */
+  obstacles: Obstacle[]
+  /** Connections the input traces already connect, they aren't routed */
+  connectionsRoutedByInputTraces: Set<string>
+
+  // Outputs of the pipeline stages, each stage reads the outputs of previous
+  // stages from here so the pipeline can resume from a checkpoint
+  capacityEdges?: CapacityMeshEdge[]
+  capacityPaths?: CapacityPath[]
+  nodePortSegments?: NodePortSegment[]
+  assignedSegments?: SegmentWithAssignedPoints[]
+  nodesWithPortPoints?: NodeWithPortPoints[]
+  hdRoutes?: HighDensityIntraNodeRoute[]
+  hdRoutesByNodeId?: Map<string, HighDensityIntraNodeRoute[]>
+  failedHdNodes?: FailedNode[]
+  stitchedHdRoutes?: HighDensityRoute[]
+  simplifiedHdRoutes?: HighDensityRoute[]
+  lengthMatchedHdRoutes?: HighDensityRoute[]
 
   pipelineDef = [
     definePipelineStep(
       "netToPointPairsSolver",
       NetToPointPairsSolver,
-      (cms) => [cms.srj, cms.colorMap],
+      (cms) => [
+        {
+          ...cms.srj,
+          connections: cms.srj.connections.filter(
+            (c) => !cms.connectionsRoutedByInputTraces.has(c.name),
+          ),
+        },
+        cms.colorMap,
+        { netTopology: cms.opts.netTopology },
+      ],
       {
         onSolved: (cms) => {
-          cms.srjWithPointPairs =
-            cms.netToPointPairsSolver?.getNewSimpleRouteJson()
-          cms.colorMap = getColorMap(cms.srjWithPointPairs!, this.connMap)
-          cms.connMap = getConnectivityMapFromSimpleRouteJson(
-            cms.srjWithPointPairs!,
+          cms.setSrjWithPointPairs(
+            cms.netToPointPairsSolver!.getNewSimpleRouteJson(),
           )
         },
       },
@@ -124,10 +244,7 @@ export class AutoroutingPipelineSolver extends BaseSolver {
     definePipelineStep(
       "nodeSolver",
       CapacityMeshNodeSolver2_NodeUnderObstacle,
-      (cms) => [
-        cms.netToPointPairsSolver?.getNewSimpleRouteJson() || cms.srj,
-        cms.opts,
-      ],
+      (cms) => [cms.srjWithPointPairs!, cms.opts],
       {
         onSolved: (cms) => {
           cms.capacityNodes = cms.nodeSolver?.finishedNodes!
@@ -149,7 +266,7 @@ export class AutoroutingPipelineSolver extends BaseSolver {
     definePipelineStep(
       "singleLayerNodeMerger",
       SingleLayerNodeMergerSolver,
-      (cms) => [cms.nodeSolver?.finishedNodes!],
+      (cms) => [cms.capacityNodes!],
       {
         onSolved: (cms) => {
           cms.capacityNodes = cms.singleLayerNodeMerger?.newNodes!
@@ -159,7 +276,7 @@ export class AutoroutingPipelineSolver extends BaseSolver {
     definePipelineStep(
       "strawSolver",
       StrawSolver,
-      (cms) => [{ nodes: cms.singleLayerNodeMerger?.newNodes! }],
+      (cms) => [{ nodes: cms.capacityNodes! }],
       {
         onSolved: (cms) => {
           cms.capacityNodes = cms.strawSolver?.getResultNodes()!
@@ -170,47 +287,101 @@ export class AutoroutingPipelineSolver extends BaseSolver {
       "edgeSolver",
       CapacityMeshEdgeSolver2_NodeTreeOptimization,
       (cms) => [cms.capacityNodes!],
+      {
+        onSolved: (cms) => {
+          cms.capacityEdges = cms.edgeSolver!.edges
+        },
+      },
     ),
-    definePipelineStep("pathingSolver", CapacityPathingSolver5, (cms) => [
+    definePipelineStep(
+      "netTreeSelectionSolver",
+      NetTreeSelectionSolver,
+      (cms) => [
+        {
+          simpleRouteJson: cms.srjWithPointPairs!,
+          // Not available when resuming from a checkpoint
+          alternativeSimpleRouteJsons:
+            cms.netToPointPairsSolver?.getAlternativeSimpleRouteJsons() ?? [],
+          nodes: cms.capacityNodes!,
+          edges: cms.capacityEdges!,
+          colorMap: cms.colorMap,
+          hyperParameters: {
+            MAX_CAPACITY_FACTOR: 1,
+            SHUFFLE_SEED: cms.opts.seed,
+          },
+        },
+      ],
       {
-        simpleRouteJson: cms.srjWithPointPairs!,
-        nodes: cms.capacityNodes!,
-        edges: cms.edgeSolver?.edges || [],
-        colorMap: cms.colorMap,
-        hyperParameters: {
-          MAX_CAPACITY_FACTOR: 1,
+        shouldSkip: (cms) => !cms.opts.evaluateAlternativeNetTrees,
+        onSolved: (cms) => {
+          cms.setSrjWithPointPairs(
+            cms.netTreeSelectionSolver!.getSelectedSimpleRouteJson(),
+          )
         },
       },
-    ]),
+    ),
+    definePipelineStep(
+      "pathingSolver",
+      CapacityPathingSolver5,
+      (cms) => [
+        {
+          simpleRouteJson: cms.srjWithPointPairs!,
+          nodes: cms.capacityNodes!,
+          edges: cms.capacityEdges!,
+          colorMap: cms.colorMap,
+          hyperParameters: {
+            MAX_CAPACITY_FACTOR: 1,
+            SHUFFLE_SEED: cms.opts.seed,
+          },
+          teeJunctions: cms.opts.netTopology === "steinerTree",
+        },
+      ],
+      {
+        getSolverClass: (cms) =>
+          ({
+            default: CapacityPathingSolver5,
+            multiSection: CapacityPathingMultiSectionSolver,
+            negotiatedCongestion: CapacityPathingSolver6_NegotiatedCongestion,
+          })[cms.opts.pathingStrategy ?? "default"],
+        onSolved: (cms) => {
+          cms.capacityPaths = cms.pathingSolver!.getCapacityPaths()
+        },
+      },
+    ),
     definePipelineStep(
       "edgeToPortSegmentSolver",
       CapacityEdgeToPortSegmentSolver,
       (cms) => [
         {
           nodes: cms.capacityNodes!,
-          edges: cms.edgeSolver?.edges || [],
-          capacityPaths: cms.pathingSolver?.getCapacityPaths() || [],
+          edges: cms.capacityEdges!,
+          capacityPaths: cms.capacityPaths!,
           colorMap: cms.colorMap,
         },
       ],
+      {
+        onSolved: (cms) => {
+          cms.nodePortSegments = Array.from(
+            cms.edgeToPortSegmentSolver!.nodePortSegments.values(),
+          ).flat()
+        },
+      },
     ),
     definePipelineStep(
       "segmentToPointSolver",
       CapacitySegmentToPointSolver,
-      (cms) => {
-        const allSegments: NodePortSegment[] = []
-        if (cms.edgeToPortSegmentSolver?.nodePortSegments) {
-          cms.edgeToPortSegmentSolver.nodePortSegments.forEach((segs) => {
-            allSegments.push(...segs)
-          })
-        }
-        return [
-          {
-            segments: allSegments,
-            colorMap: cms.colorMap,
-            nodes: cms.capacityNodes!,
-          },
-        ]
+      (cms) => [
+        {
+          segments: cms.nodePortSegments!,
+          colorMap: cms.colorMap,
+          nodes: cms.capacityNodes!,
+          traceParamsMap: cms.traceParamsMap,
+        },
+      ],
+      {
+        onSolved: (cms) => {
+          cms.assignedSegments = cms.segmentToPointSolver!.solvedSegments
+        },
       },
     ),
     // definePipelineStep(
@@ -229,44 +400,161 @@ export class AutoroutingPipelineSolver extends BaseSolver {
       UnravelMultiSectionSolver,
       (cms) => [
         {
-          assignedSegments: cms.segmentToPointSolver?.solvedSegments || [],
+          assignedSegments: cms.assignedSegments!,
           colorMap: cms.colorMap,
           nodes: cms.capacityNodes!,
+          traceParamsMap: cms.traceParamsMap,
+          defaultTraceParams: getDefaultTraceParams(cms.srj),
         },
       ],
+      {
+        onSolved: (cms) => {
+          cms.nodesWithPortPoints = addTeePortPoints(
+            cms.unravelMultiSectionSolver!.getNodesWithPortPoints(),
+            cms.capacityPaths!,
+          )
+        },
+      },
     ),
-    definePipelineStep("highDensityRouteSolver", HighDensitySolver, (cms) => [
+    definePipelineStep(
+      "highDensityRouteSolver",
+      ParallelHighDensitySolver,
+      (cms) => [
+        {
+          // The solver pops nodes off of this array
+          nodePortPoints: cms.nodesWithPortPoints!.slice(),
+          colorMap: cms.colorMap,
+          connMap: cms.connMap,
+          layerCount: cms.srj.layerCount,
+          traceParamsMap: cms.traceParamsMap,
+          obstacles: cms.obstacles,
+          keepouts: cms.srj.keepouts,
+          seed: cms.opts.seed,
+          viaBudgetsByNodeId: cms.getViaBudgetsByNodeId(),
+          workerPool: cms.opts.highDensityWorkerPool,
+        },
+      ],
       {
-        nodePortPoints:
-          cms.unravelMultiSectionSolver?.getNodesWithPortPoints() ??
-          cms.segmentToPointOptimizer?.getNodesWithPortPoints() ??
-          [],
-        colorMap: cms.colorMap,
-        connMap: cms.connMap,
+        onSolved: (cms) => {
+          const { routes, routesByNodeId, failedSolvers } =
+            cms.highDensityRouteSolver!
+          cms.hdRoutes = routes
+          cms.hdRoutesByNodeId = routesByNodeId
+          cms.failedHdNodes = failedSolvers.map((s) => ({
+            nodeWithPortPoints: s.nodeWithPortPoints,
+            error: s.error,
+          }))
+        },
       },
-    ]),
+    ),
+    definePipelineStep(
+      "ripUpAndRerouteSolver",
+      RipUpAndRerouteSolver,
+      (cms) => [
+        {
+          nodesWithPortPoints: cms.nodesWithPortPoints!,
+          capacityNodes: cms.capacityNodes ?? undefined,
+          routesByNodeId: cms.hdRoutesByNodeId!,
+          failedNodes: cms.failedHdNodes!,
+          colorMap: cms.colorMap,
+          connMap: cms.connMap,
+          layerCount: cms.srj.layerCount,
+          traceParamsMap: cms.traceParamsMap,
+          obstacles: cms.obstacles,
+          keepouts: cms.srj.keepouts,
+          seed: cms.opts.seed,
+          viaBudgetsByNodeId: cms.getViaBudgetsByNodeId(),
+        },
+      ],
+      {
+        shouldSkip: (cms) => cms.failedHdNodes!.length === 0,
+        onSolved: (cms) => {
+          cms.hdRoutes = cms.ripUpAndRerouteSolver!.routes
+          cms.hdRoutesByNodeId = cms.ripUpAndRerouteSolver!.routesByNodeId
+          cms.failedHdNodes = cms.ripUpAndRerouteSolver!.failedNodes
+        },
+      },
+    ),
     definePipelineStep(
       "highDensityStitchSolver",
       MultipleHighDensityRouteStitchSolver,
       (cms) => [
         {
           connections: cms.srjWithPointPairs!.connections,
-          hdRoutes: cms.highDensityRouteSolver!.routes,
+          hdRoutes: cms.hdRoutes!,
           layerCount: cms.srj.layerCount,
+          traceParamsMap: cms.traceParamsMap,
+          teeJunctions: cms.opts.netTopology === "steinerTree",
+          teePointsByConnectionName: getTeePointsByConnectionName(
+            cms.nodesWithPortPoints!,
+          ),
         },
       ],
+      {
+        onSolved: (cms) => {
+          cms.stitchedHdRoutes = cms.highDensityStitchSolver!.mergedHdRoutes
+        },
+      },
     ),
     definePipelineStep(
       "multiSimplifiedPathSolver",
       MultiSimplifiedPathSolver,
       (cms) => [
         {
-          unsimplifiedHdRoutes: cms.highDensityStitchSolver!.mergedHdRoutes,
-          obstacles: cms.srj.obstacles,
+          unsimplifiedHdRoutes: cms.stitchedHdRoutes!,
+          obstacles: cms.obstacles,
+          keepouts: cms.srj.keepouts,
+          connMap: cms.connMap,
+          colorMap: cms.colorMap,
+          outline: getBoardOutline(cms.srj),
+          edgeClearance: cms.srj.edgeClearance,
+        },
+      ],
+      {
+        onSolved: (cms) => {
+          cms.simplifiedHdRoutes =
+            cms.multiSimplifiedPathSolver!.simplifiedHdRoutes
+        },
+      },
+    ),
+    definePipelineStep(
+      "lengthMatchingSolver",
+      LengthMatchingSolver,
+      (cms) => [
+        {
+          hdRoutes: cms.simplifiedHdRoutes!,
+          connections: cms.srj.connections.filter(
+            (c) => !cms.connectionsRoutedByInputTraces.has(c.name),
+          ),
+          obstacles: cms.obstacles,
+          keepouts: cms.srj.keepouts,
+          bounds: cms.srj.bounds,
+          outline: getBoardOutline(cms.srj),
+          edgeClearance: cms.srj.edgeClearance,
+          tolerance: cms.srj.lengthMatchTolerance,
           connMap: cms.connMap,
           colorMap: cms.colorMap,
         },
       ],
+      {
+        shouldSkip: (cms) => !doesSrjRequireLengthMatching(cms.srj),
+        onSolved: (cms) => {
+          cms.lengthMatchedHdRoutes = cms.lengthMatchingSolver!.tunedHdRoutes
+        },
+      },
+    ),
+    definePipelineStep(
+      "designRuleCheckSolver",
+      DesignRuleCheckSolver,
+      (cms) => [
+        {
+          srj: cms.srj,
+          traces: cms.getOutputSimplifiedPcbTraces(),
+        },
+      ],
+      {
+        shouldSkip: (cms) => !cms.opts.checkDesignRules,
+      },
     ),
   ]
 
@@ -294,13 +582,132 @@ export class AutoroutingPipelineSolver extends BaseSolver {
 
     this.connMap = getConnectivityMapFromSimpleRouteJson(srj)
     this.colorMap = getColorMap(srj, this.connMap)
+    this.traceParamsMap = getTraceParamsMapFromSimpleRouteJson(srj)
+    this.obstacles = [
+      ...srj.obstacles,
+      ...getObstaclesFromTraces(srj.traces ?? [], srj.layerCount),
+    ]
+    this.connectionsRoutedByInputTraces = getConnectionsRoutedByTraces(srj)
     this.startTimeOfPhase = {}
     this.endTimeOfPhase = {}
     this.timeSpentOnPhase = {}
   }
 
+  setSrjWithPointPairs(srjWithPointPairs: SimpleRouteJson) {
+    this.srjWithPointPairs = srjWithPointPairs
+    this.connMap = getConnectivityMapFromSimpleRouteJson(srjWithPointPairs)
+    this.colorMap = getColorMap(srjWithPointPairs, this.connMap)
+    this.traceParamsMap =
+      getTraceParamsMapFromSimpleRouteJson(srjWithPointPairs)
+  }
+
+  /**
+   * Snapshot the outputs of the finished stages. A stage that is in progress
+   * isn't included, resuming from the checkpoint restarts it.
+   */
+  getCheckpoint(): AutoroutingPipelineCheckpoint {
+    // The worker pool can't be serialized
+    const { highDensityWorkerPool, ...opts } = this.opts
+    return {
+      phase: this.getCurrentPhase(),
+      srj: this.srj,
+      opts,
+      srjWithPointPairs: this.srjWithPointPairs,
+      capacityNodes: this.capacityNodes?.map(({ _parent, ...node }) => node),
+      capacityEdges: this.capacityEdges,
+      capacityPaths: this.capacityPaths,
+      nodePortSegments: this.nodePortSegments,
+      assignedSegments: this.assignedSegments,
+      nodesWithPortPoints: this.nodesWithPortPoints,
+      hdRoutes: this.hdRoutes,
+      hdRoutesByNodeId: this.hdRoutesByNodeId
+        ? Object.fromEntries(this.hdRoutesByNodeId)
+        : undefined,
+      failedHdNodes: this.failedHdNodes,
+      stitchedHdRoutes: this.stitchedHdRoutes,
+      simplifiedHdRoutes: this.simplifiedHdRoutes,
+      lengthMatchedHdRoutes: this.lengthMatchedHdRoutes,
+    }
+  }
+
+  /**
+   * Create a pipeline that resumes from a checkpoint, e.g. to reproduce a bug
+   * in a late stage without running the stages before it
+   */
+  static fromCheckpoint(
+    checkpoint: AutoroutingPipelineCheckpoint,
+  ): AutoroutingPipelineSolver {
+    const solver = new AutoroutingPipelineSolver(checkpoint.srj, {
+      ...checkpoint.opts,
+    })
+    const phaseIndex =
+      checkpoint.phase === "none"
+        ? solver.pipelineDef.length
+        : solver.pipelineDef.findIndex(
+            (step) => step.solverName === checkpoint.phase,
+          )
+    if (phaseIndex === -1) {
+      throw new Error(`Unknown pipeline phase "${checkpoint.phase}"`)
+    }
+    solver.currentPipelineStepIndex = phaseIndex
+
+    if (checkpoint.srjWithPointPairs) {
+      solver.setSrjWithPointPairs(checkpoint.srjWithPointPairs)
+    }
+    solver.capacityNodes = checkpoint.capacityNodes ?? null
+    solver.capacityEdges = checkpoint.capacityEdges
+    solver.capacityPaths = checkpoint.capacityPaths
+    solver.nodePortSegments = checkpoint.nodePortSegments
+    solver.assignedSegments = checkpoint.assignedSegments
+    solver.nodesWithPortPoints = checkpoint.nodesWithPortPoints
+    solver.hdRoutes = checkpoint.hdRoutes
+    solver.hdRoutesByNodeId = checkpoint.hdRoutesByNodeId
+      ? new Map(Object.entries(checkpoint.hdRoutesByNodeId))
+      : undefined
+    solver.failedHdNodes = checkpoint.failedHdNodes
+    solver.stitchedHdRoutes = checkpoint.stitchedHdRoutes
+    solver.simplifiedHdRoutes = checkpoint.simplifiedHdRoutes
+    solver.lengthMatchedHdRoutes = checkpoint.lengthMatchedHdRoutes
+    return solver
+  }
+
+  /** performance.now() time at which the time budget runs out */
+  timeBudgetDeadline?: number
+  /** Stages that stopped early with a partial result */
+  stagesThatRanOutOfTime: string[] = []
+
+  /** Deadline of the stage, undefined if the stage runs to completion */
+  getStageDeadline(stageIndex: number): number | undefined {
+    const { solverName } = this.pipelineDef[stageIndex]
+    if (this.timeBudgetDeadline === undefined) return undefined
+    if (!STAGE_TIME_BUDGET_WEIGHTS[solverName]) return undefined
+    const remainingWeight = this.pipelineDef
+      .slice(stageIndex)
+      .reduce(
+        (sum, step) => sum + (STAGE_TIME_BUDGET_WEIGHTS[step.solverName] ?? 0),
+        0,
+      )
+    const now = performance.now()
+    const remainingTime = Math.max(0, this.timeBudgetDeadline - now)
+    return (
+      now +
+      (remainingTime * STAGE_TIME_BUDGET_WEIGHTS[solverName]) / remainingWeight
+    )
+  }
+
   currentPipelineStepIndex = 0
   _step() {
+    if (
+      this.opts.timeBudgetMs !== undefined &&
+      this.timeBudgetDeadline === undefined
+    ) {
+      this.timeBudgetDeadline = performance.now() + this.opts.timeBudgetMs
+    }
+    this.progress = Math.min(
+      1,
+      (this.currentPipelineStepIndex + (this.activeSubSolver?.progress ?? 0)) /
+        this.pipelineDef.length,
+    )
     const pipelineStepDef = this.pipelineDef[this.currentPipelineStepIndex]
     if (!pipelineStepDef) {
       this.solved = true
@@ -314,6 +721,9 @@ export class AutoroutingPipelineSolver extends BaseSolver {
         this.timeSpentOnPhase[pipelineStepDef.solverName] =
           this.endTimeOfPhase[pipelineStepDef.solverName] -
           this.startTimeOfPhase[pipelineStepDef.solverName]
+        if (this.activeSubSolver.ranOutOfTime) {
+          this.stagesThatRanOutOfTime.push(pipelineStepDef.solverName)
+        }
         pipelineStepDef.onSolved?.(this)
         this.activeSubSolver = null
         this.currentPipelineStepIndex++
@@ -325,9 +735,19 @@ export class AutoroutingPipelineSolver extends BaseSolver {
       return
     }
 
+    if (pipelineStepDef.shouldSkip?.(this)) {
+      this.currentPipelineStepIndex++
+      return
+    }
+
     const constructorParams = pipelineStepDef.getConstructorParams(this)
+    const SolverClass =
+      pipelineStepDef.getSolverClass?.(this) ?? pipelineStepDef.solverClass
     // @ts-ignore
-    this.activeSubSolver = new pipelineStepDef.solverClass(...constructorParams)
+    this.activeSubSolver = new SolverClass(...constructorParams)
+    this.activeSubSolver!.deadline = this.getStageDeadline(
+      this.currentPipelineStepIndex,
+    )
     ;(this as any)[pipelineStepDef.solverName] = this.activeSubSolver
     this.timeSpentOnPhase[pipelineStepDef.solverName] = 0
     this.startTimeOfPhase[pipelineStepDef.solverName] = performance.now()
@@ -339,6 +759,16 @@ export class AutoroutingPipelineSolver extends BaseSolver {
     }
   }
 
+  /** See getViaBudgetsByNodeId */
+  getViaBudgetsByNodeId() {
+    return getViaBudgetsByNodeId({
+      nodesWithPortPoints: this.nodesWithPortPoints!,
+      connections: this.srjWithPointPairs!.connections,
+      traceParamsMap: this.traceParamsMap,
+      layerCount: this.srj.layerCount,
+    })
+  }
+
   getCurrentPhase(): string {
     return this.pipelineDef[this.currentPipelineStepIndex]?.solverName ?? "none"
   }
@@ -359,8 +789,11 @@ export class AutoroutingPipelineSolver extends BaseSolver {
       this.unravelMultiSectionSolver?.visualize() ??
       this.segmentToPointOptimizer?.visualize()
     const highDensityViz = this.highDensityRouteSolver?.visualize()
+    const ripUpAndRerouteViz = this.ripUpAndRerouteSolver?.visualize()
     const highDensityStitchViz = this.highDensityStitchSolver?.visualize()
     const simplifiedPathSolverViz = this.multiSimplifiedPathSolver?.visualize()
+    const lengthMatchingViz = this.lengthMatchingSolver?.visualize()
+    const designRuleCheckViz = this.designRuleCheckSolver?.visualize()
     const problemViz = {
       points: [
         ...this.srj.connections.flatMap((c) =>
@@ -414,14 +847,25 @@ export class AutoroutingPipelineSolver extends BaseSolver {
       segmentToPointViz,
       segmentOptimizationViz,
       highDensityViz ? combineVisualizations(problemViz, highDensityViz) : null,
+      ripUpAndRerouteViz
+        ? combineVisualizations(problemViz, ripUpAndRerouteViz)
+        : null,
       highDensityStitchViz,
       simplifiedPathSolverViz,
+      lengthMatchingViz,
       this.solved
         ? combineVisualizations(
             problemViz,
             convertSrjToGraphicsObject(this.getOutputSimpleRouteJson()),
           )
         : null,
+      designRuleCheckViz && this.solved
+        ? combineVisualizations(
+            problemViz,
+            convertSrjToGraphicsObject(this.getOutputSimpleRouteJson()),
+            designRuleCheckViz,
+          )
+        : null,
     ].filter(Boolean) as GraphicsObject[]
     // return visualizations[visualizations.length - 1]
     return combineVisualizations(...visualizations)
@@ -477,20 +921,52 @@ export class AutoroutingPipelineSolver extends BaseSolver {
   }
 
   /**
-   * Get original connection name from connection name with MST suffix
-   * @param mstConnectionName The MST-suffixed connection name (e.g. "connection1_mst0")
-   * @returns The original connection name (e.g. "connection1")
+   * Report which connections were routed, partially routed or failed, and
+   * which capacity nodes the high density solver couldn't solve. Can be called
+   * after the pipeline solves or fails.
+   */
+  getCompletionReport(): CompletionReport {
+    return getCompletionReport({
+      pointPairConnections:
+        this.srjWithPointPairs?.connections ?? this.srj.connections,
+      unpathedConnectionNames: this.capacityPaths
+        ? this.srjWithPointPairs!.connections.filter(
+            (c) =>
+              !this.capacityPaths!.some((p) => p.connectionName === c.name),
+          ).map((c) => c.name)
+        : (this.pathingSolver?.connectionsWithNodes ?? [])
+            .filter((c) => !c.path)
+            .map((c) => c.connection.name),
+      hdRoutes:
+        this.ripUpAndRerouteSolver?.routes ??
+        this.hdRoutes ??
+        this.highDensityRouteSolver?.routes ??
+        [],
+      failedNodes:
+        this.ripUpAndRerouteSolver?.failedNodes ??
+        this.failedHdNodes ??
+        this.highDensityRouteSolver?.failedSolvers ??
+        [],
+      highDensityRoutingComplete: Boolean(this.hdRoutes),
+      connectionNamesRoutedByInputTraces: Array.from(
+        this.connectionsRoutedByInputTraces,
+      ),
+    })
+  }
+
+  /**
+   * Target and achieved lengths of the connections with a targetLength or
+   * lengthMatchGroup, null when no connection asked for length matching
    */
-  private getOriginalConnectionName(mstConnectionName: string): string {
-    // MST connections are named like "connection_mst0", so extract the original name
-    const match = mstConnectionName.match(/^(.+?)_mst\d+$/)
-    return match ? match[1] : mstConnectionName
+  getLengthMatchingReport(): LengthMatchingReport | null {
+    return this.lengthMatchingSolver?.getReport() ?? null
   }
 
   _getOutputHdRoutes(): HighDensityRoute[] {
     return (
-      this.multiSimplifiedPathSolver?.simplifiedHdRoutes ??
-      this.highDensityStitchSolver!.mergedHdRoutes
+      this.lengthMatchedHdRoutes ??
+      this.simplifiedHdRoutes ??
+      this.stitchedHdRoutes!
     )
   }
 
@@ -498,14 +974,17 @@ export class AutoroutingPipelineSolver extends BaseSolver {
    * Returns the SimpleRouteJson with routes converted to SimplifiedPcbTraces
    */
   getOutputSimplifiedPcbTraces(): SimplifiedPcbTraces {
-    if (!this.solved || !this.highDensityRouteSolver) {
+    // Stages after the simplifier (e.g. the design rule check) need the output
+    // before the pipeline is solved
+    if (!this.simplifiedHdRoutes) {
       throw new Error("Cannot get output before solving is complete")
     }
 
-    const traces: SimplifiedPcbTraces = []
+    // Input traces are fixed and part of the output
+    const traces: SimplifiedPcbTraces = [...(this.srj.traces ?? [])]
     const allHdRoutes = this._getOutputHdRoutes()
 
-    for (const connection of this.netToPointPairsSolver?.newConnections ?? []) {
+    for (const connection of this.srjWithPointPairs?.connections ?? []) {
       const netConnection = this.srj.connections.find(
         (c) => c.name === connection.netConnectionName,
       )
@@ -520,10 +999,25 @@ export class AutoroutingPipelineSolver extends BaseSolver {
         const simplifiedPcbTrace: SimplifiedPcbTrace = {
           type: "pcb_trace",
           pcb_trace_id: `${connection.name}_${i}`,
-          connection_name: this.getOriginalConnectionName(connection.name),
+          connection_name: getOriginalConnectionName(connection.name),
           route: convertHdRouteToSimplifiedRoute(hdRoute, this.srj.layerCount),
         }
 
+        // Only annotate vias when the connection (or its net class) asked for
+        // a non-default size
+        const traceParams = this.traceParamsMap[connection.name]
+        if (
+          traceParams &&
+          (traceParams.viaDiameter !== DEFAULT_VIA_DIAMETER ||
+            traceParams.viaHoleDiameter !== undefined)
+        ) {
+          for (const routePoint of simplifiedPcbTrace.route) {
+            if (routePoint.route_type !== "via") continue
+            routePoint.via_diameter = hdRoute.viaDiameter
+            routePoint.via_hole_diameter = traceParams.viaHoleDiameter
+          }
+        }
+
         traces.push(simplifiedPcbTrace)
       }
     }
@@ -10,6 +10,10 @@ export class BaseSolver {
   activeSubSolver?: BaseSolver | null
   failedSubSolvers?: BaseSolver[]
   timeToSolve?: number
+  /** performance.now() time by which the solver must finish */
+  deadline?: number
+  /** True when the solver stopped because it reached its deadline */
+  ranOutOfTime = false
 
   /** DO NOT OVERRIDE! Override _step() instead */
   step() {
@@ -29,6 +33,24 @@ export class BaseSolver {
       console.error(this.error)
       this.failed = true
     }
+    if (
+      !this.solved &&
+      !this.failed &&
+      this.deadline !== undefined &&
+      performance.now() > this.deadline
+    ) {
+      this.ranOutOfTime = true
+      this.handleDeadline()
+    }
+  }
+
+  /**
+   * Called when the solver passes its deadline. Fails by default, solvers
+   * that have a usable partial result override this to mark themselves solved
+   */
+  handleDeadline() {
+    this.error = `${this.constructor.name} ran out of time`
+    this.failed = true
   }
 
   _step() {}
@@ -36,12 +58,41 @@ export class BaseSolver {
   solve() {
     const startTime = Date.now()
     while (!this.solved && !this.failed) {
+      // Pending work can't settle while solve() blocks the thread
+      if (this.getPendingWork()) {
+        this.error = `${this.constructor.name} is waiting for workers, solve it with solveAsync()`
+        this.failed = true
+        throw new Error(this.error)
+      }
       this.step()
     }
     const endTime = Date.now()
     this.timeToSolve = endTime - startTime
   }
 
+  /**
+   * Work the solver is waiting for (e.g. results from workers), stepping the
+   * solver doesn't make progress until it settles
+   */
+  getPendingWork(): Promise<unknown> | null {
+    return this.activeSubSolver?.getPendingWork() ?? null
+  }
+
+  /** Like solve(), but waits for pending work instead of busy-stepping */
+  async solveAsync() {
+    const startTime = Date.now()
+    while (!this.solved && !this.failed) {
+      const pendingWork = this.getPendingWork()
+      if (pendingWork) {
+        await pendingWork
+      } else {
+        this.step()
+      }
+    }
+    const endTime = Date.now()
+    this.timeToSolve = endTime - startTime
+  }
+
   visualize(): GraphicsObject {
     return {
       lines: [],
@@ -3,4 +3,7 @@ export interface CapacityHyperParameters {
   TRACE_WIDTH: number
 
   MAX_CAPACITY_FACTOR: number
+
+  /** Jitters the order connections are routed in, 0 keeps shortest first */
+  SHUFFLE_SEED: number
 }
@@ -13,6 +13,17 @@ import { doRectsOverlap } from "lib/utils/doRectsOverlap"
 import { mapLayerNameToZ } from "lib/utils/mapLayerNameToZ"
 import { getTunedTotalCapacity1 } from "lib/utils/getTunedTotalCapacity1"
 import { ObstacleTree } from "lib/data-structures/ObstacleTree"
+import {
+  doesRectOverlapObstacle,
+  doesRectOverlapPolygon,
+  getCircleObstacleRadius,
+  getObstacleBounds,
+  getObstaclePolygon,
+  isRectInsideObstacle,
+  isRectInsidePolygon,
+} from "lib/utils/obstacle-shapes"
+import { getRectCorners } from "lib/utils/getRectCorners"
+import { getObstaclesFromTraces } from "lib/utils/fixed-traces"
 import { TargetTree } from "lib/data-structures/TargetTree"
 
 interface CapacityMeshNodeSolverOptions {
@@ -39,6 +50,9 @@ export class CapacityMeshNodeSolver extends BaseSolver {
   nodeToXYOverlappingObstaclesMap: Map<CapacityMeshNodeId, Obstacle[]>
   layerCount: number
 
+  /** Every z index on the board, e.g. [0, 1, 2, 3] for a 4 layer board */
+  allZ: number[]
+
   // targetObstacleMap: Record<string, { obstacle: Obstacle, node: CapacityMeshNode }>
 
   MAX_DEPTH = 4
@@ -47,6 +61,11 @@ export class CapacityMeshNodeSolver extends BaseSolver {
   targetTree: TargetTree
   obstacleTree: ObstacleTree
 
+  /** Keepouts that forbid traces are treated as obstacles on their layers */
+  traceKeepoutObstacles: Obstacle[]
+  /** Input traces are fixed copper, they're obstacles for other nets */
+  fixedTraceObstacles: Obstacle[]
+
   constructor(
     public srj: SimpleRouteJson,
     public opts: CapacityMeshNodeSolverOptions = {},
@@ -55,6 +74,7 @@ export class CapacityMeshNodeSolver extends BaseSolver {
     this.MAX_DEPTH = opts?.capacityDepth ?? this.MAX_DEPTH
     this.MAX_ITERATIONS = 100_000
     this.layerCount = srj.layerCount ?? 2
+    this.allZ = Array.from({ length: this.layerCount }, (_, z) => z)
 
     for (const obstacle of srj.obstacles) {
       if (!obstacle.zLayers) {
@@ -65,6 +85,18 @@ export class CapacityMeshNodeSolver extends BaseSolver {
         obstacle.zLayers = zLayers
       }
     }
+    for (const keepout of srj.keepouts ?? []) {
+      keepout.zLayers ??= keepout.layers.map((layer) =>
+        mapLayerNameToZ(layer, srj.layerCount),
+      )
+    }
+    this.traceKeepoutObstacles = (srj.keepouts ?? [])
+      .filter((k) => k.noTraces || k.noCopper)
+      .map((k) => ({ ...k, connectedTo: [] }))
+    this.fixedTraceObstacles = getObstaclesFromTraces(
+      srj.traces ?? [],
+      this.layerCount,
+    )
 
     const boundsCenter = {
       x: (srj.bounds.minX + srj.bounds.maxX) / 2,
@@ -82,7 +114,7 @@ export class CapacityMeshNodeSolver extends BaseSolver {
         width: maxWidthHeight,
         height: maxWidthHeight,
         layer: "top",
-        availableZ: [0, 1],
+        availableZ: this.allZ,
         _depth: 0,
         _containsTarget: true,
         _containsObstacle: true,
@@ -100,11 +132,10 @@ export class CapacityMeshNodeSolver extends BaseSolver {
     const targets: Target[] = []
     for (const conn of this.srj.connections) {
       for (const ptc of conn.pointsToConnect) {
+        const targetZ = mapLayerNameToZ(ptc.layer, this.layerCount)
         const obstacles = this.obstacleTree
           .getNodesInArea(ptc.x, ptc.y, 0.01, 0.01)
-          .filter((o) =>
-            o.zLayers!.some((z) => (ptc.layer === "top" ? z === 0 : z === 1)),
-          )
+          .filter((o) => o.zLayers!.includes(targetZ))
 
         let bounds: {
           minX: number
@@ -118,17 +149,18 @@ export class CapacityMeshNodeSolver extends BaseSolver {
           maxY: ptc.y + 0.005,
         }
         if (obstacles.length > 0) {
+          const obstacleBounds = obstacles.map(getObstacleBounds)
           bounds = {
-            minX: Math.min(...obstacles.map((o) => o.center.x - o.width / 2)),
-            minY: Math.min(...obstacles.map((o) => o.center.y - o.height / 2)),
-            maxX: Math.max(...obstacles.map((o) => o.center.x + o.width / 2)),
-            maxY: Math.max(...obstacles.map((o) => o.center.y + o.height / 2)),
+            minX: Math.min(...obstacleBounds.map((b) => b.minX)),
+            minY: Math.min(...obstacleBounds.map((b) => b.minY)),
+            maxX: Math.max(...obstacleBounds.map((b) => b.maxX)),
+            maxY: Math.max(...obstacleBounds.map((b) => b.maxY)),
           }
         }
         const target = {
           ...ptc,
           connectionName: conn.name,
-          availableZ: ptc.layer === "top" ? [0] : [1],
+          availableZ: [targetZ],
           bounds,
         }
         targets.push(target)
@@ -180,51 +212,15 @@ export class CapacityMeshNodeSolver extends BaseSolver {
     }
     const overlappingObstacles: Obstacle[] = []
 
-    // Compute node bounds
-    const nodeLeft = node.center.x - node.width / 2
-    const nodeRight = node.center.x + node.width / 2
-    const nodeTop = node.center.y - node.height / 2
-    const nodeBottom = node.center.y + node.height / 2
-
     const obstacles = node._parent
       ? this.getXYOverlappingObstacles(node._parent)
-      : this.srj.obstacles
+      : [
+          ...this.srj.obstacles,
+          ...this.traceKeepoutObstacles,
+          ...this.fixedTraceObstacles,
+        ]
     for (const obstacle of obstacles) {
-      const obsLeft = obstacle.center.x - obstacle.width / 2
-      const obsRight = obstacle.center.x + obstacle.width / 2
-      const obsTop = obstacle.center.y - obstacle.height / 2
-      const obsBottom = obstacle.center.y + obstacle.height / 2
-
-      // Check for intersection.
-      if (
-        nodeRight >= obsLeft &&
-        nodeLeft <= obsRight &&
-        nodeBottom >= obsTop &&
-        nodeTop <= obsBottom
-      ) {
-        overlappingObstacles.push(obstacle)
-        continue
-      }
-
-      // Check if the node is completely within the obstacle
-      if (
-        nodeLeft >= obsLeft &&
-        nodeRight <= obsRight &&
-        nodeTop >= obsTop &&
-        nodeBottom <= obsBottom
-      ) {
-        // Node is completely inside the obstacle
-        overlappingObstacles.push(obstacle)
-        continue
-      }
-
-      // Check if obstacle is completely within node
-      if (
-        obsLeft >= nodeLeft &&
-        obsRight <= nodeRight &&
-        obsTop >= nodeTop &&
-        obsBottom <= nodeBottom
-      ) {
+      if (doesRectOverlapObstacle(node, obstacle)) {
         overlappingObstacles.push(obstacle)
       }
     }
@@ -253,7 +249,8 @@ export class CapacityMeshNodeSolver extends BaseSolver {
 
   /**
    * Checks if the given mesh node overlaps with any obstacle.
-   * We treat both obstacles and nodes as axis‐aligned rectangles.
+   * Nodes are axis‐aligned rectangles, obstacles can be rects, circles or
+   * polygons.
    */
   doesNodeOverlapObstacle(node: CapacityMeshNode): boolean {
     const overlappingObstacles = this.getXYZOverlappingObstacles(node)
@@ -277,7 +274,22 @@ export class CapacityMeshNodeSolver extends BaseSolver {
     ) {
       return true
     }
-    return false
+    return this.isNodePartiallyOutsideOutline(node)
+  }
+
+  /** Nodes outside the board outline are discarded */
+  isNodeCompletelyOutsideOutline(node: CapacityMeshNode): boolean {
+    if (!this.srj.outline) return false
+    return !doesRectOverlapPolygon(node, this.srj.outline)
+  }
+
+  /**
+   * Nodes crossing the board outline are treated like nodes containing an
+   * obstacle so they're subdivided
+   */
+  isNodePartiallyOutsideOutline(node: CapacityMeshNode): boolean {
+    if (!this.srj.outline) return false
+    return !isRectInsidePolygon(node, this.srj.outline)
   }
 
   /**
@@ -286,25 +298,8 @@ export class CapacityMeshNodeSolver extends BaseSolver {
   isNodeCompletelyInsideObstacle(node: CapacityMeshNode): boolean {
     const overlappingObstacles = this.getXYZOverlappingObstacles(node)
 
-    // Compute node bounds
-    const nodeLeft = node.center.x - node.width / 2
-    const nodeRight = node.center.x + node.width / 2
-    const nodeTop = node.center.y - node.height / 2
-    const nodeBottom = node.center.y + node.height / 2
-
     for (const obstacle of overlappingObstacles) {
-      const obsLeft = obstacle.center.x - obstacle.width / 2
-      const obsRight = obstacle.center.x + obstacle.width / 2
-      const obsTop = obstacle.center.y - obstacle.height / 2
-      const obsBottom = obstacle.center.y + obstacle.height / 2
-
-      // Check if the node's bounds are completely inside the obstacle's bounds.
-      if (
-        nodeLeft >= obsLeft &&
-        nodeRight <= obsRight &&
-        nodeTop >= obsTop &&
-        nodeBottom <= obsBottom
-      ) {
+      if (isRectInsideObstacle(node, obstacle)) {
         return true
       }
     }
@@ -353,7 +348,7 @@ export class CapacityMeshNodeSolver extends BaseSolver {
         width: childNodeSize.width,
         height: childNodeSize.height,
         layer: parent.layer,
-        availableZ: [0, 1],
+        availableZ: this.allZ,
         _depth: (parent._depth ?? 0) + 1,
         _parent: parent,
       }
@@ -373,6 +368,7 @@ export class CapacityMeshNodeSolver extends BaseSolver {
       }
       if (childNode._completelyInsideObstacle && !childNode._containsTarget)
         continue
+      if (this.isNodeCompletelyOutsideOutline(childNode)) continue
       childNodes.push(childNode)
     }
 
@@ -435,16 +431,80 @@ export class CapacityMeshNodeSolver extends BaseSolver {
 
     // Draw obstacles
     for (const obstacle of this.srj.obstacles) {
-      graphics.rects!.push({
-        center: obstacle.center,
-        width: obstacle.width,
-        height: obstacle.height,
-        fill:
-          obstacle.zLayers?.length === 1 && obstacle.zLayers?.includes(1)
-            ? "rgba(0,0,255,0.3)"
-            : "rgba(255,0,0,0.3)",
-        stroke: "red",
-        label: ["obstacle", `z: ${obstacle.zLayers!.join(",")}`].join("\n"),
+      const fill =
+        obstacle.zLayers?.length === 1 && obstacle.zLayers?.includes(1)
+          ? "rgba(0,0,255,0.3)"
+          : "rgba(255,0,0,0.3)"
+      const label = ["obstacle", `z: ${obstacle.zLayers!.join(",")}`].join("\n")
+      if (obstacle.type === "circle") {
+        graphics.circles!.push({
+          center: obstacle.center,
+          radius: getCircleObstacleRadius(obstacle),
+          fill,
+          stroke: "red",
+          label,
+        })
+      } else if (getObstaclePolygon(obstacle)) {
+        const polygon = getObstaclePolygon(obstacle)!
+        graphics.lines!.push({
+          points: [...polygon, polygon[0]],
+          strokeColor: fill,
+          label,
+        })
+      } else {
+        graphics.rects!.push({
+          center: obstacle.center,
+          width: obstacle.width,
+          height: obstacle.height,
+          fill,
+          stroke: "red",
+          label,
+        })
+      }
+    }
+
+    for (const keepout of this.srj.keepouts ?? []) {
+      const label = [
+        "keepout",
+        `z: ${keepout.zLayers!.join(",")}`,
+        keepout.noCopper ? "no copper" : "",
+        keepout.noTraces ? "no traces" : "",
+        keepout.noVias ? "no vias" : "",
+      ]
+        .filter(Boolean)
+        .join("\n")
+      if (keepout.type === "circle") {
+        graphics.circles!.push({
+          center: keepout.center,
+          radius: getCircleObstacleRadius(keepout),
+          stroke: "orange",
+          label,
+        })
+      } else {
+        const polygon = getObstaclePolygon(keepout) ?? getRectCorners(keepout)
+        graphics.lines!.push({
+          points: [...polygon, polygon[0]],
+          strokeColor: "orange",
+          strokeDash: "4 2",
+          label,
+        })
+      }
+    }
+
+    for (const trace of this.srj.traces ?? []) {
+      const wirePoints = trace.route.filter((p) => p.route_type === "wire")
+      graphics.lines!.push({
+        points: wirePoints,
+        strokeColor: "rgba(128,0,128,0.5)",
+        label: `fixed trace\n${trace.connection_name}`,
+      })
+    }
+
+    if (this.srj.outline) {
+      graphics.lines!.push({
+        points: [...this.srj.outline, this.srj.outline[0]],
+        strokeColor: "rgba(0,0,0,0.5)",
+        label: "board outline",
       })
     }
 
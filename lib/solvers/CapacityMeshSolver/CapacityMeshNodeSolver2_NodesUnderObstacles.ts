@@ -40,7 +40,8 @@ export class CapacityMeshNodeSolver2_NodeUnderObstacle extends CapacityMeshNodeS
       node.center.x + node.width / 2 < this.srj.bounds.minX ||
       node.center.x - node.width / 2 > this.srj.bounds.maxX ||
       node.center.y + node.height / 2 < this.srj.bounds.minY ||
-      node.center.y - node.height / 2 > this.srj.bounds.maxY
+      node.center.y - node.height / 2 > this.srj.bounds.maxY ||
+      this.isNodeCompletelyOutsideOutline(node)
     )
   }
 
@@ -49,9 +50,11 @@ export class CapacityMeshNodeSolver2_NodeUnderObstacle extends CapacityMeshNodeS
       node.center.x - node.width / 2 < this.srj.bounds.minX ||
       node.center.x + node.width / 2 > this.srj.bounds.maxX ||
       node.center.y - node.height / 2 < this.srj.bounds.minY ||
-      node.center.y + node.height / 2 > this.srj.bounds.maxY
+      node.center.y + node.height / 2 > this.srj.bounds.maxY ||
+      this.isNodePartiallyOutsideOutline(node)
     )
   }
+
   createChildNodeAtPosition(
     parent: CapacityMeshNode,
     opts: {
@@ -101,10 +104,9 @@ export class CapacityMeshNodeSolver2_NodeUnderObstacle extends CapacityMeshNodeS
 
     const childNodes: CapacityMeshNode[] = []
 
-    // TODO when we have more than 2 layers, we need to handle other
-    // variations, you always want to prioritize having larger contiguous
-    // z-blocks
-    const otherZBlocks = [[0], [1]]
+    // TODO you always want to prioritize having larger contiguous z-blocks,
+    // for now every layer becomes its own block
+    const otherZBlocks = node.availableZ.map((z) => [z])
 
     for (const zBlock of otherZBlocks) {
       const childNode = this.createChildNodeAtPosition(node, {
@@ -1,8 +1,12 @@
 import { BaseSolver } from "../BaseSolver"
 import type { NodePortSegment } from "../../types/capacity-edges-to-port-segments-types"
 import type { GraphicsObject, Line } from "graphics-debug"
-import type { NodeWithPortPoints } from "../../types/high-density-types"
+import type {
+  NodeWithPortPoints,
+  TraceParams,
+} from "../../types/high-density-types"
 import type { CapacityMeshNode, CapacityMeshNodeId } from "lib/types"
+import { groupDifferentialPairs } from "lib/utils/differential-pairs"
 
 export interface SegmentWithAssignedPoints extends NodePortSegment {
   assignedPoints?: {
@@ -23,7 +27,8 @@ export interface SegmentWithAssignedPoints extends NodePortSegment {
  *
  * If an iteration produces no new assignments, the solver picks the segment with
  * the fewest connections and assigns points evenly spaced along the segment,
- * ordering them alphabetically.
+ * ordering them alphabetically. The two halves of a differential pair are
+ * always assigned adjacent points.
  */
 export class CapacitySegmentToPointSolver extends BaseSolver {
   unsolvedSegments: SegmentWithAssignedPoints[]
@@ -35,6 +40,7 @@ export class CapacitySegmentToPointSolver extends BaseSolver {
   })[]
   nodeMap: Record<string, CapacityMeshNode>
   colorMap: Record<string, string>
+  traceParamsMap?: Record<string, TraceParams>
 
   // We use an extra property on segments to remember assigned points.
   // Each segment will get an added property "assignedPoints" which is an array of:
@@ -44,9 +50,15 @@ export class CapacitySegmentToPointSolver extends BaseSolver {
     segments,
     colorMap,
     nodes,
+    traceParamsMap,
   }: {
     segments: NodePortSegment[]
     colorMap?: Record<string, string>
+    /**
+     * Used to keep differential pairs next to each other and connections
+     * without vias on their layer
+     */
+    traceParamsMap?: Record<string, TraceParams>
     /**
      * This isn't used by the algorithm, but allows associating metadata
      * for the result datatype (the center, width, height of the node)
@@ -58,6 +70,7 @@ export class CapacitySegmentToPointSolver extends BaseSolver {
     this.unsolvedSegments = segments
     this.solvedSegments = []
     this.colorMap = colorMap ?? {}
+    this.traceParamsMap = traceParamsMap
     this.nodeMap = Object.fromEntries(
       nodes.map((node) => [node.capacityMeshNodeId, node]),
     )
@@ -82,7 +95,7 @@ export class CapacitySegmentToPointSolver extends BaseSolver {
         const center = {
           x: (seg.start.x + seg.end.x) / 2,
           y: (seg.start.y + seg.end.y) / 2,
-          z: seg.availableZ[0],
+          z: this.getPointZ(seg, seg.connectionNames[0]),
         }
         ;(seg as any).assignedPoints = [
           { connectionName: seg.connectionNames[0], point: center },
@@ -105,7 +118,11 @@ export class CapacitySegmentToPointSolver extends BaseSolver {
       }
       // Fallback: assign points evenly spaced along the segment,
       // after sorting connection names alphabetically.
-      const sortedConnections = [...candidate.connectionNames].sort()
+      const sortedConnections = groupDifferentialPairs(
+        [...candidate.connectionNames].sort(),
+        (name) => name,
+        this.traceParamsMap,
+      )
       const dx = candidate.end.x - candidate.start.x
       const dy = candidate.end.y - candidate.start.y
       const n = sortedConnections.length
@@ -119,10 +136,11 @@ export class CapacitySegmentToPointSolver extends BaseSolver {
           z: candidate.availableZ[0],
         })
       }
+      this.movePairPointsToPitch(sortedConnections, points, candidate)
       ;(candidate as any).assignedPoints = sortedConnections.map(
         (conn, idx) => ({
           connectionName: conn,
-          point: points[idx],
+          point: { ...points[idx], z: this.getPointZ(candidate, conn) },
         }),
       )
       // Move candidate from unsolvedSegments to solvedSegments.
@@ -137,6 +155,57 @@ export class CapacitySegmentToPointSolver extends BaseSolver {
     }
   }
 
+  /**
+   * Connections without vias start on their required layer, the others on
+   * the segment's first layer
+   */
+  getPointZ(segment: NodePortSegment, connectionName: string) {
+    const requiredZ = this.traceParamsMap?.[connectionName]?.requiredZ
+    return requiredZ !== undefined && segment.availableZ.includes(requiredZ)
+      ? requiredZ
+      : segment.availableZ[0]
+  }
+
+  /**
+   * Move the adjacent points of a differential pair together so they're
+   * spaced by the pair's gap plus trace width, centered on their slots
+   */
+  movePairPointsToPitch(
+    connectionNames: string[],
+    points: { x: number; y: number; z: number }[],
+    segment: NodePortSegment,
+  ) {
+    const segmentLength = Math.hypot(
+      segment.end.x - segment.start.x,
+      segment.end.y - segment.start.y,
+    )
+    if (segmentLength === 0) return
+    const dir = {
+      x: (segment.end.x - segment.start.x) / segmentLength,
+      y: (segment.end.y - segment.start.y) / segmentLength,
+    }
+    for (let i = 0; i < connectionNames.length - 1; i++) {
+      const traceParams = this.traceParamsMap?.[connectionNames[i]]
+      const pair = traceParams?.differentialPair
+      if (pair?.partnerConnectionName !== connectionNames[i + 1]) continue
+      const pitch = pair.gap + traceParams!.traceThickness
+      const [A, B] = [points[i], points[i + 1]]
+      if (Math.hypot(B.x - A.x, B.y - A.y) <= pitch) continue
+      const mid = { x: (A.x + B.x) / 2, y: (A.y + B.y) / 2 }
+      points[i] = {
+        x: mid.x - (dir.x * pitch) / 2,
+        y: mid.y - (dir.y * pitch) / 2,
+        z: A.z,
+      }
+      points[i + 1] = {
+        x: mid.x + (dir.x * pitch) / 2,
+        y: mid.y + (dir.y * pitch) / 2,
+        z: B.z,
+      }
+      i++
+    }
+  }
+
   /**
    * Return the assigned points for each segment.
    */
@@ -5,6 +5,7 @@ import { GraphicsObject } from "graphics-debug"
 import { ConnectivityMap } from "circuit-json-to-connectivity-map"
 import { doRectsOverlap } from "lib/utils/doRectsOverlap"
 import { isPointInRect } from "lib/utils/isPointInRect"
+import { getObstacleBounds } from "lib/utils/obstacle-shapes"
 import { createRectFromCapacityNode } from "lib/utils/createRectFromCapacityNode"
 import { areNodesBordering } from "lib/utils/areNodesBordering"
 import { SimpleRouteConnection } from "@tscircuit/core"
@@ -353,22 +354,11 @@ export class CapacityNodeTargetMerger2 extends BaseSolver {
     }
 
     for (const obstacle of relevantObstacles) {
-      bounds.minX = Math.min(
-        bounds.minX,
-        obstacle.center.x - obstacle.width / 2,
-      )
-      bounds.minY = Math.min(
-        bounds.minY,
-        obstacle.center.y - obstacle.height / 2,
-      )
-      bounds.maxX = Math.max(
-        bounds.maxX,
-        obstacle.center.x + obstacle.width / 2,
-      )
-      bounds.maxY = Math.max(
-        bounds.maxY,
-        obstacle.center.y + obstacle.height / 2,
-      )
+      const obstacleBounds = getObstacleBounds(obstacle)
+      bounds.minX = Math.min(bounds.minX, obstacleBounds.minX)
+      bounds.minY = Math.min(bounds.minY, obstacleBounds.minY)
+      bounds.maxX = Math.max(bounds.maxX, obstacleBounds.maxX)
+      bounds.maxY = Math.max(bounds.maxY, obstacleBounds.maxY)
     }
 
     // Apply new bounds to node
@@ -5,10 +5,13 @@ import {
   CapacityPath,
   SimpleRouteJson,
 } from "lib/types"
+import { GraphicsObject } from "graphics-debug"
 import { BaseSolver } from "../BaseSolver"
 import { CapacityPathingSolver } from "../CapacityPathingSolver/CapacityPathingSolver"
 import { CapacityPathingGreedySolver } from "./CapacityPathingGreedySolver"
 import { HyperCapacityPathingSingleSectionSolver } from "./HyperCapacityPathingSingleSectionSolver"
+import type { SectionPathRun } from "./CapacityPathingSingleSectionSolver"
+import { combineVisualizations } from "lib/utils/combineVisualizations"
 
 /**
  * This solver solves for capacity paths by first solving with negative
@@ -22,14 +25,28 @@ export class CapacityPathingMultiSectionSolver extends BaseSolver {
   colorMap: Record<string, string>
 
   initialSolver: CapacityPathingGreedySolver
-  sectionSolver?: HyperCapacityPathingSingleSectionSolver
+  sectionSolver?: HyperCapacityPathingSingleSectionSolver | null
 
   stage: "initialization" | "section-optimization" = "initialization"
 
   nodeMap: Map<CapacityMeshNodeId, CapacityMeshNode> = new Map()
 
+  /** Nodes within this many edges of the overloaded node form its section */
+  SECTION_HOPS = 2
+  MAX_ATTEMPTS_PER_NODE = 2
+
+  attemptsToFixNode: Map<CapacityMeshNodeId, number> = new Map()
+  /** Runs of the capacity paths inside the active section */
+  activeSection: {
+    nodeIds: Set<CapacityMeshNodeId>
+    runs: Array<
+      SectionPathRun & { connectionIndex: number; startIndex: number }
+    >
+  } | null = null
+
   constructor(params: ConstructorParameters<typeof CapacityPathingSolver>[0]) {
     super()
+    this.MAX_ITERATIONS = 1e6
     this.simpleRouteJson = params.simpleRouteJson
     this.nodes = params.nodes
     this.edges = params.edges
@@ -42,13 +59,17 @@ export class CapacityPathingMultiSectionSolver extends BaseSolver {
       nodes: this.nodes,
       edges: this.edges,
       colorMap: this.colorMap,
+      hyperParameters: params.hyperParameters,
+      teeJunctions: params.teeJunctions,
     })
   }
 
   _stepInitialization() {
+    this.initialSolver.deadline = this.deadline
     this.initialSolver?.solve()
     if (this.initialSolver?.failed) {
       this.failed = true
+      this.error = this.initialSolver.error
       return
     }
     if (this.initialSolver?.solved) {
@@ -56,7 +77,206 @@ export class CapacityPathingMultiSectionSolver extends BaseSolver {
     }
   }
 
-  _stepSectionOptimization() {}
+  getNodeOverload(nodeId: CapacityMeshNodeId) {
+    const used = this.initialSolver.usedNodeCapacityMap.get(nodeId) ?? 0
+    return used - this.initialSolver.getTotalCapacity(this.nodeMap.get(nodeId)!)
+  }
+
+  /** The most overloaded node that hasn't used up its attempts */
+  getNextOverloadedNodeId() {
+    let worstNodeId: CapacityMeshNodeId | null = null
+    let worstOverload = 0
+    for (const nodeId of this.nodeMap.keys()) {
+      if (
+        (this.attemptsToFixNode.get(nodeId) ?? 0) >= this.MAX_ATTEMPTS_PER_NODE
+      ) {
+        continue
+      }
+      const overload = this.getNodeOverload(nodeId)
+      if (overload > worstOverload) {
+        worstOverload = overload
+        worstNodeId = nodeId
+      }
+    }
+    return worstNodeId
+  }
+
+  getSectionNodeIds(rootNodeId: CapacityMeshNodeId) {
+    const sectionNodeIds = new Set([rootNodeId])
+    let frontier = [rootNodeId]
+    for (let hop = 0; hop < this.SECTION_HOPS; hop++) {
+      const nextFrontier: CapacityMeshNodeId[] = []
+      for (const nodeId of frontier) {
+        for (const edge of this.initialSolver.nodeEdgeMap.get(nodeId) ?? []) {
+          for (const neighborId of edge.nodeIds) {
+            if (sectionNodeIds.has(neighborId)) continue
+            sectionNodeIds.add(neighborId)
+            nextFrontier.push(neighborId)
+          }
+        }
+      }
+      frontier = nextFrontier
+    }
+    return sectionNodeIds
+  }
+
+  /**
+   * Split every capacity path into its contiguous runs inside the section.
+   * The nodes other pairs of the net tee off in aren't part of a run, the
+   * path has to keep passing through them
+   */
+  getSectionRuns(sectionNodeIds: Set<CapacityMeshNodeId>) {
+    const teeNodeIdsByHost = new Map<string, Set<CapacityMeshNodeId>>()
+    for (const capacityPath of this.initialSolver.getCapacityPaths()) {
+      const hostName = capacityPath.teesOffConnectionName
+      if (!hostName) continue
+      teeNodeIdsByHost.set(
+        hostName,
+        new Set([
+          ...(teeNodeIdsByHost.get(hostName) ?? []),
+          capacityPath.nodeIds[0],
+        ]),
+      )
+    }
+    const runs: NonNullable<typeof this.activeSection>["runs"] = []
+    this.initialSolver.connectionsWithNodes.forEach((conn, connectionIndex) => {
+      const path = conn.path ?? []
+      const teeNodeIds = teeNodeIdsByHost.get(conn.connection.name)
+      const isInRun = (node: CapacityMeshNode) =>
+        sectionNodeIds.has(node.capacityMeshNodeId) &&
+        !teeNodeIds?.has(node.capacityMeshNodeId)
+      let i = 0
+      while (i < path.length) {
+        if (!isInRun(path[i])) {
+          i++
+          continue
+        }
+        let j = i
+        while (j + 1 < path.length && isInRun(path[j + 1])) {
+          j++
+        }
+        runs.push({
+          connectionIndex,
+          startIndex: i,
+          connectionName: conn.connection.name,
+          startNodeId: path[i].capacityMeshNodeId,
+          endNodeId: path[j].capacityMeshNodeId,
+          originalNodeIds: path
+            .slice(i, j + 1)
+            .map((node) => node.capacityMeshNodeId),
+          capacityUsage: this.initialSolver.getConnectionCapacityUsage(
+            conn.connection,
+          ),
+          requiredZ:
+            this.initialSolver.traceParamsMap[conn.connection.name]?.requiredZ,
+        })
+        i = j + 1
+      }
+    })
+    return runs
+  }
+
+  getSectionOverload(sectionNodeIds: Set<CapacityMeshNodeId>) {
+    let overload = 0
+    for (const nodeId of sectionNodeIds) {
+      overload += Math.max(0, this.getNodeOverload(nodeId))
+    }
+    return overload
+  }
+
+  _stepSectionOptimization() {
+    if (!this.sectionSolver) {
+      const rootNodeId = this.getNextOverloadedNodeId()
+      if (!rootNodeId) {
+        this.solved = true
+        return
+      }
+      this.attemptsToFixNode.set(
+        rootNodeId,
+        (this.attemptsToFixNode.get(rootNodeId) ?? 0) + 1,
+      )
+      const nodeIds = this.getSectionNodeIds(rootNodeId)
+      this.activeSection = { nodeIds, runs: this.getSectionRuns(nodeIds) }
+      this.sectionSolver = new HyperCapacityPathingSingleSectionSolver({
+        sectionNodes: Array.from(
+          nodeIds,
+          (nodeId) => this.nodeMap.get(nodeId)!,
+        ),
+        sectionEdges: this.edges.filter((edge) =>
+          edge.nodeIds.every((nodeId) => nodeIds.has(nodeId)),
+        ),
+        runs: this.activeSection.runs,
+        nodeCapacityMap: new Map(
+          Array.from(nodeIds, (nodeId) => [
+            nodeId,
+            this.initialSolver.getTotalCapacity(this.nodeMap.get(nodeId)!),
+          ]),
+        ),
+        colorMap: this.colorMap,
+        seed: this.initialSolver.hyperParameters.SHUFFLE_SEED,
+      })
+      this.activeSubSolver = this.sectionSolver
+    }
+
+    this.sectionSolver.step()
+    if (this.sectionSolver.solved) {
+      const { winningSolver } = this.sectionSolver
+      const { nodeIds } = this.activeSection!
+      if (
+        winningSolver &&
+        winningSolver.getSectionOverload() < this.getSectionOverload(nodeIds)
+      ) {
+        this.applySectionSolution(winningSolver.solvedRunNodeIds)
+      }
+      this.clearSection()
+    } else if (this.sectionSolver.failed) {
+      this.clearSection()
+    }
+  }
+
+  /** Replace the runs of the section with the re-solved runs */
+  applySectionSolution(
+    solvedRunNodeIds: Array<CapacityMeshNodeId[] | undefined>,
+  ) {
+    const { runs } = this.activeSection!
+    const runIndices = runs
+      .map((_, i) => i)
+      // Splice later runs first so the start indices stay valid
+      .sort((a, b) => runs[b].startIndex - runs[a].startIndex)
+    for (const runIndex of runIndices) {
+      const run = runs[runIndex]
+      const conn = this.initialSolver.connectionsWithNodes[run.connectionIndex]
+      const runNodeIds = solvedRunNodeIds[runIndex] ?? run.originalNodeIds
+      conn.path!.splice(
+        run.startIndex,
+        run.originalNodeIds.length,
+        ...runNodeIds.map((nodeId) => this.nodeMap.get(nodeId)!),
+      )
+      for (const nodeId of run.originalNodeIds) {
+        this.addUsedCapacity(nodeId, -run.capacityUsage)
+      }
+      for (const nodeId of runNodeIds) {
+        this.addUsedCapacity(nodeId, run.capacityUsage)
+      }
+    }
+  }
+
+  addUsedCapacity(nodeId: CapacityMeshNodeId, capacity: number) {
+    const { usedNodeCapacityMap } = this.initialSolver
+    usedNodeCapacityMap.set(nodeId, usedNodeCapacityMap.get(nodeId)! + capacity)
+  }
+
+  clearSection() {
+    this.sectionSolver = null
+    this.activeSubSolver = null
+    this.activeSection = null
+  }
+
+  /** Keep the paths as they were improved so far */
+  handleDeadline() {
+    this.clearSection()
+    this.solved = true
+  }
 
   _step() {
     if (this.stage === "initialization") {
@@ -66,7 +286,19 @@ export class CapacityPathingMultiSectionSolver extends BaseSolver {
     }
   }
 
-  visualize() {
-    return this.initialSolver.visualize()
+  get connectionsWithNodes() {
+    return this.initialSolver.connectionsWithNodes
+  }
+
+  getCapacityPaths(): CapacityPath[] {
+    return this.initialSolver.getCapacityPaths()
+  }
+
+  visualize(): GraphicsObject {
+    const graphics = this.initialSolver.visualize()
+    if (this.sectionSolver) {
+      return combineVisualizations(graphics, this.sectionSolver.visualize())
+    }
+    return graphics
   }
 }
@@ -1,15 +1,264 @@
+import type { GraphicsObject } from "graphics-debug"
+import type {
+  CapacityMeshEdge,
+  CapacityMeshNode,
+  CapacityMeshNodeId,
+} from "lib/types"
+import { distance } from "@tscircuit/math-utils"
 import { BaseSolver } from "../BaseSolver"
+import { getNodeEdgeMap } from "../CapacityMeshSolver/getNodeEdgeMap"
+import { seededRandom } from "lib/utils/cloneAndShuffleArray"
+import { createRectFromCapacityNode } from "lib/utils/createRectFromCapacityNode"
 
+/**
+ * The part of a capacity path inside a section. The start and end node are
+ * where the path crosses the section boundary (or its terminals), they stay
+ * fixed when the section is re-solved.
+ */
+export interface SectionPathRun {
+  connectionName: string
+  startNodeId: CapacityMeshNodeId
+  endNodeId: CapacityMeshNodeId
+  originalNodeIds: CapacityMeshNodeId[]
+  capacityUsage: number
+  /** Layer every node of the run must have, see TraceParams.requiredZ */
+  requiredZ?: number
+}
+
+type SectionCandidate = {
+  prevCandidate: SectionCandidate | null
+  node: CapacityMeshNode
+  g: number
+  f: number
+}
+
+/**
+ * Re-plans the path runs inside a section one at a time with A*, paying a
+ * penalty for entering nodes without enough capacity left
+ */
 export class CapacityPathingSingleSectionSolver extends BaseSolver {
+  sectionNodes: CapacityMeshNode[]
+  sectionNodeMap: Map<CapacityMeshNodeId, CapacityMeshNode>
+  sectionEdgeMap: Map<CapacityMeshNodeId, CapacityMeshEdge[]>
+  runs: SectionPathRun[]
+  /** Run indices in the order they're solved */
+  runOrder: number[]
+  nodeCapacityMap: Map<CapacityMeshNodeId, number>
+  colorMap: Record<string, string>
+
+  usedNodeCapacityMap: Map<CapacityMeshNodeId, number>
+  solvedRunNodeIds: Array<CapacityMeshNodeId[] | undefined>
+
+  GREEDY_MULTIPLIER = 1.5
+  OVERLOAD_PENALTY_FACTOR: number
+
+  currentRunOrderIndex = 0
+  candidates: SectionCandidate[] | null = null
+  visitedNodeIds: Set<CapacityMeshNodeId> | null = null
+  blockedNodeIds: Set<CapacityMeshNodeId> | null = null
+
   constructor(params: {
-    // TODO, should take a subset of edges/nodes (or ids)
-    // Also needs the "immutable" nodes that indicate the start/end of the
-    // section
+    sectionNodes: CapacityMeshNode[]
+    /** Edges between two nodes of the section */
+    sectionEdges: CapacityMeshEdge[]
+    runs: SectionPathRun[]
+    /** Total capacity of each section node */
+    nodeCapacityMap: Map<CapacityMeshNodeId, number>
+    colorMap?: Record<string, string>
+    hyperParameters?: {
+      SHUFFLE_SEED?: number
+      OVERLOAD_PENALTY_FACTOR?: number
+    }
   }) {
     super()
+    this.MAX_ITERATIONS = 100_000
+    this.sectionNodes = params.sectionNodes
+    this.sectionNodeMap = new Map(
+      params.sectionNodes.map((node) => [node.capacityMeshNodeId, node]),
+    )
+    this.sectionEdgeMap = getNodeEdgeMap(params.sectionEdges)
+    this.runs = params.runs
+    this.nodeCapacityMap = params.nodeCapacityMap
+    this.colorMap = params.colorMap ?? {}
+    this.OVERLOAD_PENALTY_FACTOR =
+      params.hyperParameters?.OVERLOAD_PENALTY_FACTOR ?? 1
+    this.usedNodeCapacityMap = new Map(
+      params.sectionNodes.map((node) => [node.capacityMeshNodeId, 0]),
+    )
+    this.solvedRunNodeIds = []
+    this.runOrder = this.getRunOrder(params.hyperParameters?.SHUFFLE_SEED)
+  }
+
+  /** Short runs first, a seed randomly scales each run's length by up to 2x */
+  getRunOrder(shuffleSeed?: number) {
+    const random = shuffleSeed ? seededRandom(shuffleSeed) : () => 0
+    const sortKeys = this.runs.map(
+      (run) =>
+        distance(
+          this.sectionNodeMap.get(run.startNodeId)!.center,
+          this.sectionNodeMap.get(run.endNodeId)!.center,
+        ) *
+        (1 + random()),
+    )
+    return this.runs.map((_, i) => i).sort((a, b) => sortKeys[a] - sortKeys[b])
+  }
+
+  getNodeCost(node: CapacityMeshNode, capacityUsage: number) {
+    const remainingCapacity =
+      this.nodeCapacityMap.get(node.capacityMeshNodeId)! -
+      this.usedNodeCapacityMap.get(node.capacityMeshNodeId)!
+    const overload = Math.min(
+      capacityUsage,
+      Math.max(0, capacityUsage - remainingCapacity),
+    )
+    return (
+      0.05 +
+      overload * (node.width + node.height) * this.OVERLOAD_PENALTY_FACTOR
+    )
+  }
+
+  /** Sum of the capacity used beyond each node's total capacity */
+  getSectionOverload() {
+    let overload = 0
+    for (const [nodeId, used] of this.usedNodeCapacityMap) {
+      overload += Math.max(0, used - this.nodeCapacityMap.get(nodeId)!)
+    }
+    return overload
+  }
+
+  addRunPath(runIndex: number, nodeIds: CapacityMeshNodeId[]) {
+    this.solvedRunNodeIds[runIndex] = nodeIds
+    for (const nodeId of nodeIds) {
+      this.usedNodeCapacityMap.set(
+        nodeId,
+        this.usedNodeCapacityMap.get(nodeId)! +
+          this.runs[runIndex].capacityUsage,
+      )
+    }
+  }
+
+  /** Nodes of the connection's other runs, a path can't visit a node twice */
+  getBlockedNodeIds(runIndex: number) {
+    const { connectionName } = this.runs[runIndex]
+    const blockedNodeIds = new Set<CapacityMeshNodeId>()
+    this.runs.forEach((run, i) => {
+      if (i === runIndex || run.connectionName !== connectionName) return
+      for (const nodeId of this.solvedRunNodeIds[i] ?? run.originalNodeIds) {
+        blockedNodeIds.add(nodeId)
+      }
+    })
+    return blockedNodeIds
   }
 
   _step() {
-    // TODO
+    const runIndex = this.runOrder[this.currentRunOrderIndex]
+    if (runIndex === undefined) {
+      this.solved = true
+      return
+    }
+    const run = this.runs[runIndex]
+    const start = this.sectionNodeMap.get(run.startNodeId)!
+    const end = this.sectionNodeMap.get(run.endNodeId)!
+
+    if (!this.candidates) {
+      this.candidates = [
+        {
+          prevCandidate: null,
+          node: start,
+          g: 0,
+          f: 0,
+        },
+      ]
+      this.visitedNodeIds = new Set()
+      this.blockedNodeIds = this.getBlockedNodeIds(runIndex)
+    }
+
+    this.candidates.sort((a, b) => a.f - b.f)
+    const currentCandidate = this.candidates.shift()
+    if (!currentCandidate) {
+      // Blocked by the connection's other runs, keep the original path
+      this.finishRun(runIndex, run.originalNodeIds)
+      return
+    }
+    if (currentCandidate.node === end) {
+      const nodeIds: CapacityMeshNodeId[] = []
+      for (
+        let candidate: SectionCandidate | null = currentCandidate;
+        candidate;
+        candidate = candidate.prevCandidate
+      ) {
+        nodeIds.unshift(candidate.node.capacityMeshNodeId)
+      }
+      this.finishRun(runIndex, nodeIds)
+      return
+    }
+    const nodeId = currentCandidate.node.capacityMeshNodeId
+    if (this.visitedNodeIds!.has(nodeId)) return
+    this.visitedNodeIds!.add(nodeId)
+
+    for (const edge of this.sectionEdgeMap.get(nodeId) ?? []) {
+      const neighborId =
+        edge.nodeIds[0] === nodeId ? edge.nodeIds[1] : edge.nodeIds[0]
+      const neighbor = this.sectionNodeMap.get(neighborId)!
+      if (this.visitedNodeIds!.has(neighborId)) continue
+      if (this.blockedNodeIds!.has(neighborId)) continue
+      if (neighbor._containsObstacle && neighbor !== end) continue
+      if (
+        run.requiredZ !== undefined &&
+        !neighbor.availableZ.includes(run.requiredZ)
+      ) {
+        continue
+      }
+      const g =
+        currentCandidate.g +
+        distance(currentCandidate.node.center, neighbor.center) +
+        this.getNodeCost(neighbor, run.capacityUsage)
+      const h = distance(neighbor.center, end.center)
+      this.candidates.push({
+        prevCandidate: currentCandidate,
+        node: neighbor,
+        g,
+        f: g + h * this.GREEDY_MULTIPLIER,
+      })
+    }
+  }
+
+  finishRun(runIndex: number, nodeIds: CapacityMeshNodeId[]) {
+    this.addRunPath(runIndex, nodeIds)
+    this.candidates = null
+    this.visitedNodeIds = null
+    this.blockedNodeIds = null
+    this.currentRunOrderIndex++
+    this.progress = this.currentRunOrderIndex / this.runs.length
+  }
+
+  visualize(): GraphicsObject {
+    const graphics: GraphicsObject = {
+      lines: [],
+      points: [],
+      rects: [],
+      circles: [],
+    }
+    for (const node of this.sectionNodes) {
+      const used = this.usedNodeCapacityMap.get(node.capacityMeshNodeId)!
+      const total = this.nodeCapacityMap.get(node.capacityMeshNodeId)!
+      const rect = createRectFromCapacityNode(node, { rectMargin: 0.025 })
+      graphics.rects!.push({
+        ...rect,
+        fill: used > total ? "rgba(255,0,0,0.3)" : rect.fill,
+        label: `${node.capacityMeshNodeId}\n${used.toFixed(2)}/${total.toFixed(2)}`,
+      })
+    }
+    this.runs.forEach((run, i) => {
+      const nodeIds = this.solvedRunNodeIds[i] ?? run.originalNodeIds
+      graphics.lines!.push({
+        points: nodeIds.map(
+          (nodeId) => this.sectionNodeMap.get(nodeId)!.center,
+        ),
+        strokeColor: this.colorMap[run.connectionName],
+        strokeDash: this.solvedRunNodeIds[i] ? undefined : "4 4",
+      })
+    })
+    return graphics
   }
 }
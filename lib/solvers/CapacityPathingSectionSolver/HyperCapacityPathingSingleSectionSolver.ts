@@ -1,14 +1,121 @@
-import { BaseSolver } from "../BaseSolver"
+import {
+  HyperParameterSupervisorSolver,
+  type SupervisedSolver,
+} from "../HyperParameterSupervisorSolver"
 import { CapacityPathingSingleSectionSolver } from "./CapacityPathingSingleSectionSolver"
 
-export class HyperCapacityPathingSingleSectionSolver extends BaseSolver {
-  constructor(
-    params: ConstructorParameters<typeof CapacityPathingSingleSectionSolver>[0],
-  ) {
+/**
+ * Re-solves a section with several run orderings and overload penalties and
+ * keeps the solution with the least overload. Stops early when a solution
+ * has no overload.
+ */
+export class HyperCapacityPathingSingleSectionSolver extends HyperParameterSupervisorSolver<CapacityPathingSingleSectionSolver> {
+  constructorParams: ConstructorParameters<
+    typeof CapacityPathingSingleSectionSolver
+  >[0]
+  /** Offsets the SHUFFLE_SEED of every ordering, 0 keeps the default orderings */
+  seed: number
+  winningSolver?: CapacityPathingSingleSectionSolver
+
+  constructor({
+    seed,
+    ...params
+  }: ConstructorParameters<typeof CapacityPathingSingleSectionSolver>[0] & {
+    seed?: number
+  }) {
     super()
+    this.constructorParams = params
+    this.seed = seed ?? 0
+    this.MAX_ITERATIONS = 100_000
+    this.MIN_SUBSTEPS = 10
+  }
+
+  getHyperParameterDefs() {
+    return [
+      {
+        name: "orderings6",
+        possibleValues: [0, 1, 2, 3, 4, 5].map((SHUFFLE_SEED) => ({
+          SHUFFLE_SEED,
+        })),
+      },
+      {
+        name: "overloadPenalty",
+        possibleValues: [
+          { OVERLOAD_PENALTY_FACTOR: 1 },
+          { OVERLOAD_PENALTY_FACTOR: 4 },
+        ],
+      },
+    ]
+  }
+
+  generateSolver(hyperParameters: any): CapacityPathingSingleSectionSolver {
+    return new CapacityPathingSingleSectionSolver({
+      ...this.constructorParams,
+      hyperParameters: {
+        ...hyperParameters,
+        SHUFFLE_SEED:
+          hyperParameters.SHUFFLE_SEED + (this.seed ? this.seed * 1000 : 0),
+      },
+    })
+  }
+
+  /** Unlike the default supervisor, keeps running until every solver is done */
+  getSupervisedSolverWithBestFitness(): SupervisedSolver<CapacityPathingSingleSectionSolver> | null {
+    let bestSupervisedSolver: SupervisedSolver<CapacityPathingSingleSectionSolver> | null =
+      null
+    for (const supervisedSolver of this.supervisedSolvers ?? []) {
+      const { solver } = supervisedSolver
+      if (solver.solved || solver.failed) continue
+      if (
+        !bestSupervisedSolver ||
+        supervisedSolver.f < bestSupervisedSolver.f
+      ) {
+        bestSupervisedSolver = supervisedSolver
+      }
+    }
+    return bestSupervisedSolver
   }
 
   _step() {
-    // TODO
+    if (!this.supervisedSolvers) this.initializeSolvers()
+
+    const solvedSolvers = this.supervisedSolvers!.filter(
+      (s) => s.solver.solved,
+    ).map((s) => s.solver)
+    const supervisedSolver = this.getSupervisedSolverWithBestFitness()
+    const hasPerfectSolution = solvedSolvers.some(
+      (s) => s.getSectionOverload() === 0,
+    )
+
+    if (!supervisedSolver || hasPerfectSolution) {
+      if (solvedSolvers.length === 0) {
+        this.failed = true
+        this.error = "All solvers failed"
+        return
+      }
+      this.winningSolver = solvedSolvers.reduce((best, solver) =>
+        solver.getSectionOverload() < best.getSectionOverload() ? solver : best,
+      )
+      this.solved = true
+      return
+    }
+
+    for (let i = 0; i < this.MIN_SUBSTEPS; i++) {
+      supervisedSolver.solver.step()
+    }
+    supervisedSolver.g = this.computeG(supervisedSolver.solver)
+    supervisedSolver.h = this.computeH(supervisedSolver.solver)
+    supervisedSolver.f = this.computeF(supervisedSolver.g, supervisedSolver.h)
+    this.progress =
+      this.supervisedSolvers!.reduce((sum, s) => sum + s.solver.progress, 0) /
+      this.supervisedSolvers!.length
+  }
+
+  visualize() {
+    return (
+      this.winningSolver?.visualize() ??
+      this.getSupervisedSolverWithBestFitness()?.solver.visualize() ??
+      super.visualize()
+    )
   }
 }
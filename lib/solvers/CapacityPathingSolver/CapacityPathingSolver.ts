@@ -13,6 +13,21 @@ import { CapacityHyperParameters } from "../CapacityHyperParameters"
 import { GraphicsObject } from "graphics-debug"
 import { safeTransparentize } from "../colors"
 import { createRectFromCapacityNode } from "lib/utils/createRectFromCapacityNode"
+import { getConnectionCapacityUsage } from "lib/utils/getTunedTotalCapacity1"
+import {
+  getDefaultTraceParams,
+  getTraceParamsMapFromSimpleRouteJson,
+} from "lib/utils/getTraceParamsMapFromSimpleRouteJson"
+import type { TraceParams } from "lib/types/high-density-types"
+import {
+  getDifferentialPairPartner,
+  groupDifferentialPairs,
+} from "lib/utils/differential-pairs"
+import { seededRandom } from "lib/utils/cloneAndShuffleArray"
+import {
+  getOriginalConnectionName,
+  getPointPairIndex,
+} from "lib/utils/getCompletionReport"
 
 export type Candidate = {
   prevCandidate: Candidate | null
@@ -45,6 +60,31 @@ export class CapacityPathingSolver extends BaseSolver {
 
   activeCandidateStraightLineDistance?: number
 
+  /**
+   * Nodes on the path of the active connection's differential pair partner,
+   * the active connection is pulled onto them so the pair stays coupled
+   */
+  activeCoupledPathNodeIds?: Set<CapacityMeshNodeId> | null
+  activeCoupledCapacityUsage = 0
+  /**
+   * Nodes the active connection may end in because an earlier pair of its
+   * net passes through them, see teeJunctions
+   */
+  activeTeeNodeIds?: Set<CapacityMeshNodeId> | null
+  /**
+   * Let the pairs of nets routed as trees end on a node the path of an
+   * earlier pair of the net passes through, they tee off its copper there
+   */
+  teeJunctions: boolean
+  /** Cost multiplier for distance travelled away from the coupled path */
+  COUPLED_PATH_DEVIATION_PENALTY_FACTOR = 10
+  /**
+   * Cost multiplier for distance travelled through nodes without the layer a
+   * connection that can't have vias is on. It's a cost rather than a hard
+   * constraint, single layer nodes only fit one trace and would run out
+   */
+  REQUIRED_LAYER_PENALTY_FACTOR = 1
+
   debug_lastNodeCostMap: Map<
     CapacityMeshNodeId,
     {
@@ -55,6 +95,9 @@ export class CapacityPathingSolver extends BaseSolver {
   >
 
   hyperParameters: Partial<CapacityHyperParameters>
+  traceParamsMap: Record<string, TraceParams>
+  /** Trace params of connections without a net class */
+  defaultTraceParams: TraceParams
 
   constructor({
     simpleRouteJson,
@@ -63,6 +106,7 @@ export class CapacityPathingSolver extends BaseSolver {
     colorMap,
     MAX_ITERATIONS = 1e6,
     hyperParameters = {},
+    teeJunctions = false,
   }: {
     simpleRouteJson: SimpleRouteJson
     nodes: CapacityMeshNode[]
@@ -70,18 +114,22 @@ export class CapacityPathingSolver extends BaseSolver {
     colorMap?: Record<string, string>
     MAX_ITERATIONS?: number
     hyperParameters?: Partial<CapacityHyperParameters>
+    teeJunctions?: boolean
   }) {
     super()
     this.MAX_ITERATIONS = MAX_ITERATIONS
+    this.teeJunctions = teeJunctions
     this.simpleRouteJson = simpleRouteJson
+    this.traceParamsMap = getTraceParamsMapFromSimpleRouteJson(simpleRouteJson)
+    this.defaultTraceParams = getDefaultTraceParams(simpleRouteJson)
     this.nodes = nodes
     this.edges = edges
     this.colorMap = colorMap ?? {}
+    this.hyperParameters = hyperParameters
     const { connectionsWithNodes, connectionNameToGoalNodeIds } =
       this.getConnectionsWithNodes()
     this.connectionsWithNodes = connectionsWithNodes
     this.connectionNameToGoalNodeIds = connectionNameToGoalNodeIds
-    this.hyperParameters = hyperParameters
     this.usedNodeCapacityMap = new Map(
       this.nodes.map((node) => [node.capacityMeshNodeId, 0]),
     )
@@ -147,10 +195,31 @@ export class CapacityPathingSolver extends BaseSolver {
       })
     }
 
-    connectionsWithNodes.sort(
-      (a, b) => a.straightLineDistance - b.straightLineDistance,
-    )
-    return { connectionsWithNodes, connectionNameToGoalNodeIds }
+    const { SHUFFLE_SEED } = this.hyperParameters
+    if (SHUFFLE_SEED) {
+      // Scale each distance by up to 2x so short connections still tend to be
+      // routed first
+      const random = seededRandom(SHUFFLE_SEED)
+      const sortKeys = new Map(
+        connectionsWithNodes.map((c) => [
+          c,
+          c.straightLineDistance * (1 + random()),
+        ]),
+      )
+      connectionsWithNodes.sort((a, b) => sortKeys.get(a)! - sortKeys.get(b)!)
+    } else {
+      connectionsWithNodes.sort(
+        (a, b) => a.straightLineDistance - b.straightLineDistance,
+      )
+    }
+    return {
+      connectionsWithNodes: groupDifferentialPairs(
+        connectionsWithNodes,
+        (c) => c.connection.name,
+        this.traceParamsMap,
+      ),
+      connectionNameToGoalNodeIds,
+    }
   }
 
   currentConnectionIndex = 0
@@ -204,6 +273,7 @@ export class CapacityPathingSolver extends BaseSolver {
           capacityPathId: connection.connection.name,
           connectionName: connection.connection.name,
           nodeIds: path.map((node) => node.capacityMeshNodeId),
+          teesOffConnectionName: this.getTeeHostName(connection),
         })
       }
     }
@@ -214,8 +284,16 @@ export class CapacityPathingSolver extends BaseSolver {
     node: CapacityMeshNode,
     prevNode: CapacityMeshNode,
   ) {
+    // The two halves of a differential pair run tightly side by side, so the
+    // pair only needs the capacity of a single trace
+    const coupledCapacityUsage = this.activeCoupledPathNodeIds?.has(
+      node.capacityMeshNodeId,
+    )
+      ? this.activeCoupledCapacityUsage
+      : 0
     const usedCapacity =
-      this.usedNodeCapacityMap.get(node.capacityMeshNodeId) ?? 0
+      (this.usedNodeCapacityMap.get(node.capacityMeshNodeId) ?? 0) -
+      coupledCapacityUsage
     const totalCapacity = this.getTotalCapacity(node)
 
     // Single layer nodes can't safely have multiple traces because there's no
@@ -247,23 +325,159 @@ export class CapacityPathingSolver extends BaseSolver {
     )
   }
 
+  /**
+   * The trace width, via diameter and margin a unit of node capacity is sized
+   * for, the SimpleRouteJson's defaults unless the hyperparameters set them
+   */
+  getUnitCapacityParams() {
+    return {
+      traceWidth:
+        this.hyperParameters.TRACE_WIDTH ??
+        this.defaultTraceParams.traceThickness,
+      viaDiameter:
+        this.hyperParameters.VIA_DIAMETER ??
+        this.defaultTraceParams.viaDiameter,
+      obstacleMargin: this.defaultTraceParams.clearance,
+    }
+  }
+
+  /**
+   * Capacity used by a connection in each node it passes through, connections
+   * with wide traces or large vias use more than one unit of capacity
+   */
+  getConnectionCapacityUsage(connection: SimpleRouteConnection): number {
+    const traceParams = this.traceParamsMap[connection.name]
+    const { obstacleMargin, ...defaults } = this.getUnitCapacityParams()
+    return getConnectionCapacityUsage(
+      {
+        traceWidth: traceParams?.traceThickness,
+        viaDiameter: traceParams?.viaDiameter,
+        clearance: traceParams?.clearance,
+      },
+      defaults,
+      obstacleMargin,
+    )
+  }
+
   reduceCapacityAlongPath(nextConnection: {
     path?: CapacityMeshNode[]
+    connection?: SimpleRouteConnection
   }) {
+    const capacityUsage = nextConnection.connection
+      ? this.getConnectionCapacityUsage(nextConnection.connection)
+      : 1
     for (const node of nextConnection.path ?? []) {
       this.usedNodeCapacityMap.set(
         node.capacityMeshNodeId,
-        this.usedNodeCapacityMap.get(node.capacityMeshNodeId)! + 1,
+        this.usedNodeCapacityMap.get(node.capacityMeshNodeId)! + capacityUsage,
       )
     }
   }
 
+  /** The connection's differential pair partner, if it has a path */
+  getPathedDifferentialPairPartner(connectionName: string) {
+    const partnerName = getDifferentialPairPartner(
+      this.traceParamsMap,
+      connectionName,
+    )
+    const partner = this.connectionsWithNodes.find(
+      (c) => c.connection.name === partnerName,
+    )
+    return partner?.path ? partner : null
+  }
+
+  getCoupledPathDeviationPenalty(
+    prevNode: CapacityMeshNode,
+    node: CapacityMeshNode,
+  ) {
+    if (!this.activeCoupledPathNodeIds) return 0
+    if (this.activeCoupledPathNodeIds.has(node.capacityMeshNodeId)) return 0
+    return (
+      this.getDistanceBetweenNodes(prevNode, node) *
+      this.COUPLED_PATH_DEVIATION_PENALTY_FACTOR
+    )
+  }
+
+  getRequiredLayerPenalty(
+    prevNode: CapacityMeshNode,
+    node: CapacityMeshNode,
+    connectionName: string,
+  ) {
+    const requiredZ = this.traceParamsMap[connectionName]?.requiredZ
+    if (requiredZ === undefined) return 0
+    if (node.availableZ.includes(requiredZ)) return 0
+    return (
+      this.getDistanceBetweenNodes(prevNode, node) *
+      this.REQUIRED_LAYER_PENALTY_FACTOR
+    )
+  }
+
+  /**
+   * Pathed pairs of the connection's net that come before it, the net's tree
+   * stays connected when a pair only tees off earlier pairs
+   */
+  getTeeHosts(connectionName: string) {
+    const netName = getOriginalConnectionName(connectionName)
+    const pairIndex = getPointPairIndex(connectionName)
+    return this.connectionsWithNodes.filter(
+      ({ connection, path }) =>
+        path &&
+        connection.name !== connectionName &&
+        getOriginalConnectionName(connection.name) === netName &&
+        getPointPairIndex(connection.name) < pairIndex,
+    )
+  }
+
+  /**
+   * Nodes of the tee hosts' paths the connection may end in. Nodes with
+   * obstacles or targets are left out, their port points are stitched to
+   * the targets
+   */
+  getTeeNodeIds(connectionName: string, start: CapacityMeshNode) {
+    const teeNodeIds = new Set<CapacityMeshNodeId>()
+    for (const host of this.getTeeHosts(connectionName)) {
+      for (const node of host.path!) {
+        if (node._containsObstacle || node._containsTarget) continue
+        if (node === start) continue
+        teeNodeIds.add(node.capacityMeshNodeId)
+      }
+    }
+    return teeNodeIds
+  }
+
+  getDistanceToTeeNodes(node: CapacityMeshNode) {
+    let minDistance = Infinity
+    for (const nodeId of this.activeTeeNodeIds ?? []) {
+      minDistance = Math.min(
+        minDistance,
+        this.getDistanceBetweenNodes(node, this.nodeMap.get(nodeId)!),
+      )
+    }
+    return minDistance
+  }
+
+  /** The tee host the connection's path ends on, if it ends before its end node */
+  getTeeHostName(connection: (typeof this.connectionsWithNodes)[number]) {
+    const { path, nodes } = connection
+    if (!path || path[0] === nodes[nodes.length - 1]) return undefined
+    return this.getTeeHosts(connection.connection.name).find((host) =>
+      host.path!.includes(path[0]),
+    )?.connection.name
+  }
+
   isConnectedToEndGoal(node: CapacityMeshNode, endGoal: CapacityMeshNode) {
     return this.nodeEdgeMap
       .get(node.capacityMeshNodeId)!
       .some((edge) => edge.nodeIds.includes(endGoal.capacityMeshNodeId))
   }
 
+  /** Connections without a path yet are reported as unrouted */
+  handleDeadline() {
+    this.candidates = null
+    this.visitedNodes = null
+    this.solved = true
+  }
+
   _step() {
     const nextConnection =
       this.connectionsWithNodes[this.currentConnectionIndex]
@@ -280,6 +494,18 @@ export class CapacityPathingSolver extends BaseSolver {
         start.center,
         end.center,
       )
+      const partner = this.getPathedDifferentialPairPartner(
+        nextConnection.connection.name,
+      )
+      this.activeCoupledPathNodeIds = partner
+        ? new Set(partner.path!.map((n) => n.capacityMeshNodeId))
+        : null
+      this.activeCoupledCapacityUsage = partner
+        ? this.getConnectionCapacityUsage(partner.connection)
+        : 0
+      this.activeTeeNodeIds = this.teeJunctions
+        ? this.getTeeNodeIds(nextConnection.connection.name, start)
+        : null
     }
 
     this.candidates.sort((a, b) => a.f - b.f)
@@ -295,14 +521,16 @@ export class CapacityPathingSolver extends BaseSolver {
       this.failed = true
       return
     }
-    if (this.isConnectedToEndGoal(currentCandidate.node, end)) {
-      nextConnection.path = this.getBacktrackedPath({
-        prevCandidate: currentCandidate,
-        node: end,
-        f: 0,
-        g: 0,
-        h: 0,
-      })
+    const teesOff = Boolean(
+      currentCandidate.prevCandidate &&
+        this.activeTeeNodeIds?.has(currentCandidate.node.capacityMeshNodeId),
+    )
+    if (teesOff || this.isConnectedToEndGoal(currentCandidate.node, end)) {
+      nextConnection.path = this.getBacktrackedPath(
+        teesOff
+          ? currentCandidate
+          : { prevCandidate: currentCandidate, node: end, f: 0, g: 0, h: 0 },
+      )
 
       this.reduceCapacityAlongPath(nextConnection)
 
@@ -330,8 +558,21 @@ export class CapacityPathingSolver extends BaseSolver {
       ) {
         continue
       }
-      const g = this.computeG(currentCandidate, neighborNode, end)
-      const h = this.computeH(currentCandidate, neighborNode, end)
+      const g =
+        this.computeG(currentCandidate, neighborNode, end) +
+        this.getCoupledPathDeviationPenalty(
+          currentCandidate.node,
+          neighborNode,
+        ) +
+        this.getRequiredLayerPenalty(
+          currentCandidate.node,
+          neighborNode,
+          connectionName,
+        )
+      const h = Math.min(
+        this.computeH(currentCandidate, neighborNode, end),
+        this.getDistanceToTeeNodes(neighborNode),
+      )
       const f = g + h * this.GREEDY_MULTIPLIER
 
       this.debug_lastNodeCostMap.set(neighborNode.capacityMeshNodeId, {
@@ -18,7 +18,11 @@ export class CapacityPathingSolver4_FlexibleNegativeCapacity extends CapacityPat
   }
 
   getTotalCapacity(node: CapacityMeshNode): number {
-    return getTunedTotalCapacity1(node, this.maxCapacityFactor)
+    return getTunedTotalCapacity1(
+      node,
+      this.maxCapacityFactor,
+      this.getUnitCapacityParams(),
+    )
   }
 
   /**
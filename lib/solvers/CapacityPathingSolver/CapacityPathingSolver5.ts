@@ -16,7 +16,11 @@ export class CapacityPathingSolver5 extends CapacityPathingSolver {
   }
 
   getTotalCapacity(node: CapacityMeshNode): number {
-    return getTunedTotalCapacity1(node, this.maxCapacityFactor)
+    return getTunedTotalCapacity1(
+      node,
+      this.maxCapacityFactor,
+      this.getUnitCapacityParams(),
+    )
   }
 
   /**
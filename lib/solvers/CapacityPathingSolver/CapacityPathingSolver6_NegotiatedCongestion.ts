@@ -0,0 +1,198 @@
+import type {
+  CapacityMeshNode,
+  CapacityMeshNodeId,
+  CapacityPathingIterationStats,
+} from "lib/types"
+import { CapacityPathingSolver, type Candidate } from "./CapacityPathingSolver"
+import { CapacityPathingSolver5 } from "./CapacityPathingSolver5"
+
+/**
+ * PathFinder style negotiated congestion. Every pass routes all connections
+ * while allowing nodes to go over capacity, then nodes that are over capacity
+ * become more expensive for the next pass (history cost) and every connection
+ * is ripped up and rerouted. Using a node that is currently over capacity
+ * also gets more expensive with every pass (present cost), so connections
+ * negotiate which of them takes the congested nodes.
+ *
+ * Stops when no node is over capacity or after MAX_NEGOTIATION_ITERATIONS,
+ * the paths of the pass with the least overflow are kept.
+ */
+export class CapacityPathingSolver6_NegotiatedCongestion extends CapacityPathingSolver5 {
+  MAX_NEGOTIATION_ITERATIONS = 10
+  INITIAL_PRESENT_COST_FACTOR = 0.5
+  PRESENT_COST_GROWTH = 1.5
+  HISTORY_COST_FACTOR = 1
+
+  negotiationIteration = 0
+  presentCostFactor: number
+  historyCostMap: Map<CapacityMeshNodeId, number> = new Map()
+  iterationStats: CapacityPathingIterationStats[] = []
+  bestIteration: {
+    stats: CapacityPathingIterationStats
+    paths: Array<CapacityMeshNode[] | undefined>
+  } | null = null
+
+  capacityUsageOfConnection: Map<string, number>
+
+  constructor(...args: ConstructorParameters<typeof CapacityPathingSolver>) {
+    super(...args)
+    this.MAX_ITERATIONS *= this.MAX_NEGOTIATION_ITERATIONS
+    this.presentCostFactor = this.INITIAL_PRESENT_COST_FACTOR
+    this.capacityUsageOfConnection = new Map(
+      this.connectionsWithNodes.map(({ connection }) => [
+        connection.name,
+        this.getConnectionCapacityUsage(connection),
+      ]),
+    )
+  }
+
+  /**
+   * Nodes may go over capacity, it's only made expensive. Traces can't cross
+   * inside single layer nodes so those keep the hard limit
+   */
+  doesNodeHaveCapacityForTrace(
+    node: CapacityMeshNode,
+    prevNode: CapacityMeshNode,
+  ): boolean {
+    if (node.availableZ.length === 1 && !node._containsTarget) {
+      return super.doesNodeHaveCapacityForTrace(node, prevNode)
+    }
+    return true
+  }
+
+  getNodeOverflow(nodeId: CapacityMeshNodeId, additionalUsage = 0) {
+    return Math.max(
+      0,
+      this.usedNodeCapacityMap.get(nodeId)! +
+        additionalUsage -
+        this.getTotalCapacity(this.nodeMap.get(nodeId)!),
+    )
+  }
+
+  computeG(
+    prevCandidate: Candidate,
+    node: CapacityMeshNode,
+    endGoal: CapacityMeshNode,
+  ) {
+    const { connection } =
+      this.connectionsWithNodes[this.currentConnectionIndex]
+    const overflow = this.getNodeOverflow(
+      node.capacityMeshNodeId,
+      this.capacityUsageOfConnection.get(connection.name),
+    )
+    const presentCost = 1 + this.presentCostFactor * overflow
+    const historyCost = this.historyCostMap.get(node.capacityMeshNodeId) ?? 0
+    return (
+      prevCandidate.g +
+      (this.getDistanceBetweenNodes(prevCandidate.node, node) +
+        this.getNodeCapacityPenalty(node) +
+        historyCost) *
+        presentCost
+    )
+  }
+
+  computeH(
+    prevCandidate: Candidate,
+    node: CapacityMeshNode,
+    endGoal: CapacityMeshNode,
+  ) {
+    return this.getDistanceBetweenNodes(node, endGoal)
+  }
+
+  getIterationStats(): CapacityPathingIterationStats {
+    let overflowedNodeCount = 0
+    let totalOverflow = 0
+    let maxOverflow = 0
+    for (const nodeId of this.usedNodeCapacityMap.keys()) {
+      const overflow = this.getNodeOverflow(nodeId)
+      if (overflow <= 0) continue
+      overflowedNodeCount++
+      totalOverflow += overflow
+      maxOverflow = Math.max(maxOverflow, overflow)
+    }
+    return {
+      iteration: this.negotiationIteration,
+      overflowedNodeCount,
+      totalOverflow,
+      maxOverflow,
+    }
+  }
+
+  /** Raise the history cost of overflowed nodes and rip up every path */
+  finishNegotiationIteration() {
+    const stats = this.getIterationStats()
+    this.iterationStats.push(stats)
+    if (
+      !this.bestIteration ||
+      stats.totalOverflow < this.bestIteration.stats.totalOverflow
+    ) {
+      this.bestIteration = {
+        stats,
+        paths: this.connectionsWithNodes.map((c) => c.path),
+      }
+    }
+
+    this.negotiationIteration++
+    if (
+      stats.overflowedNodeCount === 0 ||
+      this.negotiationIteration >= this.MAX_NEGOTIATION_ITERATIONS
+    ) {
+      this.restoreBestIteration()
+      this.solved = true
+      return
+    }
+
+    for (const nodeId of this.usedNodeCapacityMap.keys()) {
+      const overflow = this.getNodeOverflow(nodeId)
+      if (overflow <= 0) continue
+      const node = this.nodeMap.get(nodeId)!
+      this.historyCostMap.set(
+        nodeId,
+        (this.historyCostMap.get(nodeId) ?? 0) +
+          this.HISTORY_COST_FACTOR *
+            overflow *
+            ((node.width + node.height) / 2),
+      )
+    }
+    this.presentCostFactor *= this.PRESENT_COST_GROWTH
+
+    for (const connection of this.connectionsWithNodes) {
+      connection.path = undefined
+    }
+    for (const nodeId of this.usedNodeCapacityMap.keys()) {
+      this.usedNodeCapacityMap.set(nodeId, 0)
+    }
+    this.currentConnectionIndex = 0
+  }
+
+  restoreBestIteration() {
+    if (!this.bestIteration) return
+    for (const nodeId of this.usedNodeCapacityMap.keys()) {
+      this.usedNodeCapacityMap.set(nodeId, 0)
+    }
+    this.connectionsWithNodes.forEach((connection, i) => {
+      connection.path = this.bestIteration!.paths[i]
+      this.reduceCapacityAlongPath(connection)
+    })
+  }
+
+  /** Keeps the best finished pass, or the paths of the first pass so far */
+  handleDeadline() {
+    this.candidates = null
+    this.visitedNodes = null
+    this.restoreBestIteration()
+    this.solved = true
+  }
+
+  _step() {
+    if (this.currentConnectionIndex >= this.connectionsWithNodes.length) {
+      this.finishNegotiationIteration()
+      return
+    }
+    super._step()
+    this.progress =
+      (this.negotiationIteration +
+        this.currentConnectionIndex / this.connectionsWithNodes.length) /
+      this.MAX_NEGOTIATION_ITERATIONS
+  }
+}
@@ -358,11 +358,19 @@ export class CapacitySegmentPointOptimizer extends BaseSolver {
 
     const point = segment.assignedPoints![randomPointIndex]
 
+    const otherZ = segment.availableZ.filter((z) => z !== point.point.z)
+    let newLayer = point.point.z === 0 ? 1 : 0
+    if (otherZ.length === 1) {
+      newLayer = otherZ[0]
+    } else if (otherZ.length > 1) {
+      newLayer = otherZ[Math.floor(this.random() * otherZ.length)]
+    }
+
     return {
       op: "changeLayer",
       segmentId: randomSegmentId,
       pointIndex: randomPointIndex,
-      newLayer: point.point.z === 0 ? 1 : 0,
+      newLayer,
     } as ChangeLayerOperation
   }
 
@@ -0,0 +1,65 @@
+import type { GraphicsObject } from "graphics-debug"
+import type {
+  DesignRuleViolation,
+  SimpleRouteJson,
+  SimplifiedPcbTraces,
+} from "lib/types"
+import { checkDesignRules } from "lib/utils/checkDesignRules"
+import { BaseSolver } from "../BaseSolver"
+
+/**
+ * Runs checkDesignRules on the routed output, violations are reported but
+ * don't cause the solver to fail
+ */
+export class DesignRuleCheckSolver extends BaseSolver {
+  srj: SimpleRouteJson
+  traces: SimplifiedPcbTraces
+  defaultClearance?: number
+  violations: DesignRuleViolation[] = []
+
+  constructor(params: {
+    srj: SimpleRouteJson
+    traces: SimplifiedPcbTraces
+    defaultClearance?: number
+  }) {
+    super()
+    this.srj = params.srj
+    this.traces = params.traces
+    this.defaultClearance = params.defaultClearance
+  }
+
+  _step() {
+    this.violations = checkDesignRules(this.srj, this.traces, {
+      defaultClearance: this.defaultClearance,
+    })
+    this.solved = true
+  }
+
+  visualize(): GraphicsObject {
+    const graphics: Required<GraphicsObject> = {
+      lines: [],
+      points: [],
+      circles: [],
+      rects: [],
+      coordinateSystem: "cartesian",
+      title: `Design Rule Check (${this.violations.length} violations)`,
+    }
+
+    for (const violation of this.violations) {
+      graphics.circles.push({
+        center: violation.location,
+        radius: 0.2,
+        stroke: "red",
+        fill: "rgba(255,0,0,0.25)",
+        label: violation.message,
+      })
+      graphics.points.push({
+        ...violation.location,
+        color: "red",
+        label: [violation.type, ...violation.connectionNames].join("\n"),
+      })
+    }
+
+    return graphics
+  }
+}
@@ -1,6 +1,7 @@
 import type {
   HighDensityIntraNodeRoute,
   NodeWithPortPoints,
+  TraceParams,
 } from "../../types/high-density-types"
 import type { GraphicsObject } from "graphics-debug"
 import { BaseSolver } from "../BaseSolver"
@@ -10,35 +11,73 @@ import { HyperSingleIntraNodeSolver } from "../HyperHighDensitySolver/HyperSingl
 import { combineVisualizations } from "lib/utils/combineVisualizations"
 import { ConnectivityMap } from "circuit-json-to-connectivity-map"
 import { mergeRouteSegments } from "lib/utils/mergeRouteSegments"
+import { doesRectOverlapObstacle } from "lib/utils/obstacle-shapes"
+import { getSubSolverDeadline } from "lib/utils/getSubSolverDeadline"
+import type { CapacityMeshNodeId, Keepout, Obstacle } from "lib/types"
+import type { FailedNode } from "../RipUpAndRerouteSolver/RipUpAndRerouteSolver"
 
 export class HighDensitySolver extends BaseSolver {
   unsolvedNodePortPoints: NodeWithPortPoints[]
   routes: HighDensityIntraNodeRoute[]
+  /** Routes of each solved node, used to rip up routes when re-solving */
+  routesByNodeId: Map<string, HighDensityIntraNodeRoute[]>
   colorMap: Record<string, string>
 
-  // Defaults as specified: viaDiameter of 0.6 and traceThickness of 0.15
-  readonly defaultViaDiameter = 0.6
-  readonly defaultTraceThickness = 0.15
-
-  failedSolvers: (IntraNodeRouteSolver | HyperSingleIntraNodeSolver)[]
+  /**
+   * Solvers of the nodes that failed. Nodes that weren't started before the
+   * deadline only get a record with the error, no solver is built for them
+   */
+  failedSolvers: Array<
+    IntraNodeRouteSolver | HyperSingleIntraNodeSolver | FailedNode
+  >
   activeSubSolver: IntraNodeRouteSolver | HyperSingleIntraNodeSolver | null =
     null
   connMap?: ConnectivityMap
+  layerCount: number
+  traceParamsMap?: Record<string, TraceParams>
+  obstacles: Obstacle[]
+  keepouts: Keepout[]
+  seed: number
+  viaBudgetsByNodeId?: Map<CapacityMeshNodeId, Record<string, number>>
+
+  /** A node may use this many times its even share of the remaining time */
+  NODE_TIME_SHARE_FACTOR = 5
 
   constructor({
     nodePortPoints,
     colorMap,
     connMap,
+    layerCount,
+    traceParamsMap,
+    obstacles,
+    keepouts,
+    seed,
+    viaBudgetsByNodeId,
   }: {
     nodePortPoints: NodeWithPortPoints[]
     colorMap?: Record<string, string>
     connMap?: ConnectivityMap
+    layerCount?: number
+    traceParamsMap?: Record<string, TraceParams>
+    obstacles?: Obstacle[]
+    keepouts?: Keepout[]
+    /** Seed of the node solvers' connection orderings */
+    seed?: number
+    /** See getViaBudgetsByNodeId */
+    viaBudgetsByNodeId?: Map<CapacityMeshNodeId, Record<string, number>>
   }) {
     super()
     this.unsolvedNodePortPoints = nodePortPoints
     this.colorMap = colorMap ?? {}
     this.connMap = connMap
+    this.layerCount = layerCount ?? 2
+    this.traceParamsMap = traceParamsMap
+    this.obstacles = obstacles ?? []
+    this.keepouts = keepouts ?? []
+    this.seed = seed ?? 0
+    this.viaBudgetsByNodeId = viaBudgetsByNodeId
     this.routes = []
+    this.routesByNodeId = new Map()
     this.failedSolvers = []
     this.MAX_ITERATIONS = 1e6
   }
@@ -52,6 +91,10 @@ export class HighDensitySolver extends BaseSolver {
       this.activeSubSolver.step()
       if (this.activeSubSolver.solved) {
         this.routes.push(...this.activeSubSolver.solvedRoutes)
+        this.routesByNodeId.set(
+          this.activeSubSolver.nodeWithPortPoints.capacityMeshNodeId,
+          this.activeSubSolver.solvedRoutes,
+        )
         this.activeSubSolver = null
       } else if (this.activeSubSolver.failed) {
         this.failedSolvers.push(this.activeSubSolver)
@@ -65,11 +108,53 @@ export class HighDensitySolver extends BaseSolver {
     }
     const node = this.unsolvedNodePortPoints.pop()!
 
-    this.activeSubSolver = new HyperSingleIntraNodeSolver({
+    this.activeSubSolver = this.createNodeSolver(node)
+    this.activeSubSolver.deadline = getSubSolverDeadline(
+      this.deadline,
+      this.unsolvedNodePortPoints.length + 1,
+      this.NODE_TIME_SHARE_FACTOR,
+    )
+  }
+
+  createNodeSolver(node: NodeWithPortPoints) {
+    return new HyperSingleIntraNodeSolver(this.getNodeSolverParams(node))
+  }
+
+  getNodeSolverParams(node: NodeWithPortPoints) {
+    return {
       nodeWithPortPoints: node,
       colorMap: this.colorMap,
       connMap: this.connMap,
-    })
+      layerCount: this.layerCount,
+      traceParamsMap: this.traceParamsMap,
+      obstacles: this.obstacles.filter((o) => doesRectOverlapObstacle(node, o)),
+      keepouts: this.keepouts.filter((k) => doesRectOverlapObstacle(node, k)),
+      seed: this.seed,
+      viaBudgets:
+        this.viaBudgetsByNodeId &&
+        (this.viaBudgetsByNodeId.get(node.capacityMeshNodeId) ?? {}),
+    }
+  }
+
+  /**
+   * Flag the nodes that weren't solved in time as failed, the routes found so
+   * far are kept
+   */
+  handleDeadline() {
+    for (const node of this.unsolvedNodePortPoints) {
+      this.failedSolvers.push({
+        nodeWithPortPoints: node,
+        error: "Ran out of time",
+      })
+    }
+    if (this.activeSubSolver) {
+      this.activeSubSolver.failed = true
+      this.activeSubSolver.error = "Ran out of time"
+      this.failedSolvers.push(this.activeSubSolver)
+    }
+    this.unsolvedNodePortPoints = []
+    this.activeSubSolver = null
+    this.solved = true
   }
 
   visualize(): GraphicsObject {
@@ -2,7 +2,9 @@ import type { GraphicsObject } from "graphics-debug"
 import type {
   HighDensityIntraNodeRoute,
   NodeWithPortPoints,
+  TraceParams,
 } from "../../types/high-density-types"
+import type { Keepout, Obstacle } from "../../types"
 import { BaseSolver } from "../BaseSolver"
 import { SingleHighDensityRouteSolver } from "./SingleHighDensityRouteSolver"
 import { safeTransparentize } from "../colors"
@@ -12,6 +14,11 @@ import { cloneAndShuffleArray } from "lib/utils/cloneAndShuffleArray"
 import { ConnectivityMap } from "circuit-json-to-connectivity-map"
 import { getBoundsFromNodeWithPortPoints } from "lib/utils/getBoundsFromNodeWithPortPoints"
 import { getMinDistBetweenEnteringPoints } from "lib/utils/getMinDistBetweenEnteringPoints"
+import { getRequiredViaCount } from "lib/utils/getViaBudgetsByNodeId"
+import {
+  getDifferentialPairPartner,
+  groupDifferentialPairs,
+} from "lib/utils/differential-pairs"
 
 export class IntraNodeRouteSolver extends BaseSolver {
   nodeWithPortPoints: NodeWithPortPoints
@@ -29,6 +36,11 @@ export class IntraNodeRouteSolver extends BaseSolver {
 
   activeSubSolver: SingleHighDensityRouteSolver | null = null
   connMap?: ConnectivityMap
+  layerCount: number
+  traceParamsMap: Record<string, TraceParams>
+  obstacles: Obstacle[]
+  keepouts: Keepout[]
+  viaBudgets?: Record<string, number>
 
   // Legacy compat
   get failedSolvers() {
@@ -45,6 +57,19 @@ export class IntraNodeRouteSolver extends BaseSolver {
     colorMap?: Record<string, string>
     hyperParameters?: Partial<HighDensityHyperParameters>
     connMap?: ConnectivityMap
+    layerCount?: number
+    traceParamsMap?: Record<string, TraceParams>
+    /** Obstacles overlapping the node */
+    obstacles?: Obstacle[]
+    /** Keepouts overlapping the node */
+    keepouts?: Keepout[]
+    /**
+     * Vias each via limited connection may use inside the node, see
+     * getViaBudgetsByNodeId. A connection that isn't in it may only use the
+     * vias its port points need. Without budgets connections may use their
+     * maxVias
+     */
+    viaBudgets?: Record<string, number>
   }) {
     const { nodeWithPortPoints, colorMap } = params
     super()
@@ -54,6 +79,11 @@ export class IntraNodeRouteSolver extends BaseSolver {
     this.hyperParameters = params.hyperParameters ?? {}
     this.failedSubSolvers = []
     this.connMap = params.connMap
+    this.layerCount = params.layerCount ?? 2
+    this.traceParamsMap = params.traceParamsMap ?? {}
+    this.obstacles = params.obstacles ?? []
+    this.keepouts = params.keepouts ?? []
+    this.viaBudgets = params.viaBudgets
     const unsolvedConnectionsMap: Map<
       string,
       { x: number; y: number; z: number }[]
@@ -90,6 +120,14 @@ export class IntraNodeRouteSolver extends BaseSolver {
       )
     }
 
+    // Route the halves of a differential pair one after the other so the
+    // second half can follow the first
+    this.unsolvedConnections = groupDifferentialPairs(
+      this.unsolvedConnections,
+      (c) => c.connectionName,
+      this.traceParamsMap,
+    )
+
     this.totalConnections = this.unsolvedConnections.length
     this.MAX_ITERATIONS = 1_000 * this.totalConnections ** 1.5
 
@@ -171,25 +209,49 @@ export class IntraNodeRouteSolver extends BaseSolver {
       }
     }
     const { connectionName, points } = unsolvedConnection
+    const partnerName = getDifferentialPairPartner(
+      this.traceParamsMap,
+      connectionName,
+    )
+    const A = points[0]
+    const B = points[points.length - 1]
     this.activeSubSolver =
       new SingleHighDensityRouteSolver6_VertHorzLayer_FutureCost({
         connectionName,
         minDistBetweenEnteringPoints: this.minDistBetweenEnteringPoints,
         bounds: getBoundsFromNodeWithPortPoints(this.nodeWithPortPoints),
-        A: { x: points[0].x, y: points[0].y, z: points[0].z },
-        B: {
-          x: points[points.length - 1].x,
-          y: points[points.length - 1].y,
-          z: points[points.length - 1].z,
-        },
+        A: { x: A.x, y: A.y, z: A.z },
+        B: { x: B.x, y: B.y, z: B.z },
         obstacleRoutes: this.solvedRoutes,
-        futureConnections: this.unsolvedConnections,
-        layerCount: 2,
+        // The partner is routed next to this connection, so it isn't
+        // something to keep away from
+        futureConnections: this.unsolvedConnections.filter(
+          (c) => c.connectionName !== partnerName,
+        ),
+        coupledRoute: this.solvedRoutes.find(
+          (r) => r.connectionName === partnerName,
+        ),
+        coupledGap: this.traceParamsMap[connectionName]?.differentialPair?.gap,
+        layerCount: this.layerCount,
         hyperParameters: this.hyperParameters,
         connMap: this.connMap,
+        traceThickness: this.traceParamsMap[connectionName]?.traceThickness,
+        viaDiameter: this.traceParamsMap[connectionName]?.viaDiameter,
+        clearance: this.traceParamsMap[connectionName]?.clearance,
+        viaCostFactor: this.traceParamsMap[connectionName]?.viaCostFactor,
+        maxVias: this.getMaxVias(connectionName, points),
+        obstacles: this.obstacles,
+        keepouts: this.keepouts,
       })
   }
 
+  /** Vias the connection may use in the node, see the viaBudgets param */
+  getMaxVias(connectionName: string, points: Array<{ z: number }>) {
+    const maxVias = this.traceParamsMap[connectionName]?.maxVias
+    if (maxVias === undefined || !this.viaBudgets) return maxVias
+    return this.viaBudgets[connectionName] ?? getRequiredViaCount(points)
+  }
+
   visualize(): GraphicsObject {
     const graphics: GraphicsObject = {
       lines: [],
@@ -0,0 +1,108 @@
+import type {
+  HighDensityNodeResult,
+  HighDensityNodeSolverPool,
+  HighDensityNodeTask,
+} from "lib/types"
+import type { NodeWithPortPoints } from "lib/types/high-density-types"
+import { HighDensitySolver } from "./HighDensitySolver"
+
+/**
+ * Solves every node on a pool of workers at once. The results are collected
+ * in the order the HighDensitySolver solves the nodes, so the output is the
+ * same as when solving sequentially. Without a pool the nodes are solved
+ * sequentially.
+ *
+ * The solver waits for the workers, run it with solveAsync()
+ */
+export class ParallelHighDensitySolver extends HighDensitySolver {
+  workerPool?: HighDensityNodeSolverPool
+  nodes: NodeWithPortPoints[]
+  nodeResults: Array<HighDensityNodeResult | undefined> = []
+  pendingWork: Promise<void> | null = null
+
+  constructor({
+    workerPool,
+    ...params
+  }: ConstructorParameters<typeof HighDensitySolver>[0] & {
+    workerPool?: HighDensityNodeSolverPool
+  }) {
+    super(params)
+    this.workerPool = workerPool
+    this.nodes = params.nodePortPoints.slice()
+  }
+
+  _step() {
+    if (!this.workerPool) {
+      super._step()
+      return
+    }
+    if (!this.pendingWork) {
+      this.pendingWork = Promise.all(
+        this.nodes.map((node, i) =>
+          this.workerPool!.solveNode(this.getNodeTask(node)).then((result) => {
+            this.nodeResults[i] = result
+          }),
+        ),
+      ).then(() => {})
+      return
+    }
+    if (this.getPendingWork()) return
+    this.collectNodeResults()
+    this.solved = true
+  }
+
+  getNodeTask(node: NodeWithPortPoints): HighDensityNodeTask {
+    const { connMap, ...params } = this.getNodeSolverParams(node)
+    return {
+      ...params,
+      connMapNetMap: connMap?.netMap,
+      deadline:
+        this.deadline === undefined
+          ? undefined
+          : performance.timeOrigin + this.deadline,
+    }
+  }
+
+  getPendingWork() {
+    if (!this.workerPool) return super.getPendingWork()
+    if (this.nodeResults.filter(Boolean).length === this.nodes.length) {
+      return null
+    }
+    return this.pendingWork
+  }
+
+  /**
+   * Add the routes and failures in the order the nodes would be popped by
+   * the sequential solver, nodes without a result ran out of time
+   */
+  collectNodeResults() {
+    for (let i = this.nodes.length - 1; i >= 0; i--) {
+      const node = this.nodes[i]
+      const result = this.nodeResults[i] ?? {
+        solvedRoutes: [],
+        error: "Ran out of time",
+        ranOutOfTime: true,
+      }
+      if (result.ranOutOfTime) this.ranOutOfTime = true
+      if (result.error === null) {
+        this.routes.push(...result.solvedRoutes)
+        this.routesByNodeId.set(node.capacityMeshNodeId, result.solvedRoutes)
+      } else {
+        this.failedSolvers.push({
+          nodeWithPortPoints: node,
+          error: result.error,
+        })
+      }
+    }
+    this.unsolvedNodePortPoints = []
+  }
+
+  handleDeadline() {
+    if (!this.workerPool) {
+      super.handleDeadline()
+      return
+    }
+    this.collectNodeResults()
+    this.solved = true
+  }
+}
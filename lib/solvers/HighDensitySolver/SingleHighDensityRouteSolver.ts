@@ -1,5 +1,6 @@
 import { BaseSolver } from "../BaseSolver"
 import type { HighDensityIntraNodeRoute } from "lib/types/high-density-types"
+import type { Keepout, Obstacle } from "lib/types"
 import {
   distance,
   pointToSegmentDistance,
@@ -12,6 +13,14 @@ import {
   Node,
   SingleRouteCandidatePriorityQueue,
 } from "lib/data-structures/SingleRouteCandidatePriorityQueue"
+import {
+  getPointObstacleClosestApproach,
+  getSegmentObstacleClosestApproach,
+} from "lib/utils/obstacle-shapes"
+import {
+  doesKeepoutBlockTraces,
+  doesKeepoutBlockVias,
+} from "lib/utils/keepouts"
 
 export type FutureConnection = {
   connectionName: string
@@ -20,6 +29,16 @@ export type FutureConnection = {
 
 export class SingleHighDensityRouteSolver extends BaseSolver {
   obstacleRoutes: HighDensityIntraNodeRoute[]
+  /** Board obstacles overlapping the node, e.g. pads of target nodes */
+  obstacles: Obstacle[]
+  /** Keepouts overlapping the node */
+  keepouts: Keepout[]
+  /**
+   * Route of this connection's differential pair partner, this route follows
+   * it at coupledGap
+   */
+  coupledRoute?: HighDensityIntraNodeRoute
+  coupledGap?: number
   bounds: { minX: number; maxX: number; minY: number; maxY: number }
   boundsSize: { width: number; height: number }
   boundsCenter: { x: number; y: number }
@@ -30,6 +49,8 @@ export class SingleHighDensityRouteSolver extends BaseSolver {
   viaDiameter: number
   traceThickness: number
   obstacleMargin: number
+  /** Net class clearance of this connection, when defined it's the obstacleMargin */
+  clearance?: number
   layerCount: number
   minCellSize = 0.05
   cellStep = 0.05
@@ -38,6 +59,10 @@ export class SingleHighDensityRouteSolver extends BaseSolver {
 
   VIA_PENALTY_FACTOR = 0.3
   CELL_SIZE_FACTOR: number
+  /** Multiplies the via penalty, see SimpleRouteJson.viaCostFactor */
+  viaCostFactor: number
+  /** Maximum number of vias on the route, unlimited when undefined */
+  maxVias?: number
 
   exploredNodes: Set<string>
 
@@ -61,6 +86,10 @@ export class SingleHighDensityRouteSolver extends BaseSolver {
   constructor(opts: {
     connectionName: string
     obstacleRoutes: HighDensityIntraNodeRoute[]
+    obstacles?: Obstacle[]
+    keepouts?: Keepout[]
+    coupledRoute?: HighDensityIntraNodeRoute
+    coupledGap?: number
     minDistBetweenEnteringPoints: number
     bounds: { minX: number; maxX: number; minY: number; maxY: number }
     A: { x: number; y: number; z: number }
@@ -68,7 +97,10 @@ export class SingleHighDensityRouteSolver extends BaseSolver {
     viaDiameter?: number
     traceThickness?: number
     obstacleMargin?: number
+    clearance?: number
     layerCount?: number
+    viaCostFactor?: number
+    maxVias?: number
     futureConnections?: FutureConnection[]
     hyperParameters?: Partial<HighDensityHyperParameters>
     connMap?: ConnectivityMap
@@ -88,12 +120,19 @@ export class SingleHighDensityRouteSolver extends BaseSolver {
     }
     this.connectionName = opts.connectionName
     this.obstacleRoutes = opts.obstacleRoutes
+    this.obstacles = opts.obstacles ?? []
+    this.keepouts = opts.keepouts ?? []
+    this.coupledRoute = opts.coupledRoute
+    this.coupledGap = opts.coupledGap
     this.A = opts.A
     this.B = opts.B
     this.viaDiameter = opts.viaDiameter ?? 0.6
     this.traceThickness = opts.traceThickness ?? 0.15
-    this.obstacleMargin = opts.obstacleMargin ?? 0.2
+    this.clearance = opts.clearance
+    this.obstacleMargin = opts.obstacleMargin ?? opts.clearance ?? 0.2
     this.layerCount = opts.layerCount ?? 2
+    this.viaCostFactor = opts.viaCostFactor ?? 1
+    this.maxVias = opts.maxVias
     this.exploredNodes = new Set()
     this.candidates = new SingleRouteCandidatePriorityQueue([
       {
@@ -157,12 +196,24 @@ export class SingleHighDensityRouteSolver extends BaseSolver {
       route,
       traceThickness: this.traceThickness,
       viaDiameter: this.viaDiameter,
+      clearance: this.clearance,
       vias: this.A.z === this.B.z ? [] : [this.boundsCenter],
     }
   }
 
   get viaPenaltyDistance() {
-    return this.cellStep + this.straightLineDistance * this.VIA_PENALTY_FACTOR
+    return (
+      this.cellStep +
+      this.straightLineDistance * this.VIA_PENALTY_FACTOR * this.viaCostFactor
+    )
+  }
+
+  /**
+   * Additional spacing required from an obstacle route whose net class needs
+   * more clearance than this connection's
+   */
+  getExtraClearanceForRoute(route: HighDensityIntraNodeRoute) {
+    return Math.max(0, (route.clearance ?? 0) - this.obstacleMargin)
   }
 
   isNodeTooCloseToObstacle(node: Node, margin?: number, isVia?: boolean) {
@@ -183,28 +234,94 @@ export class SingleHighDensityRouteSolver extends BaseSolver {
         route.connectionName,
       )
 
+      const extraClearance = this.getExtraClearanceForRoute(route)
+      // Traces of a differential pair are allowed to be as close as their gap
+      const traceMargin =
+        route === this.coupledRoute && !isVia
+          ? Math.min(margin, this.coupledGap ?? margin)
+          : margin + extraClearance
       if (!connectedToObstacle) {
         const pointPairs = getSameLayerPointPairs(route)
         for (const pointPair of pointPairs) {
           if (
             (isVia || pointPair.z === node.z) &&
             pointToSegmentDistance(node, pointPair.A, pointPair.B) <
-              this.traceThickness + margin
+              this.traceThickness / 2 + route.traceThickness / 2 + traceMargin
           ) {
             return true
           }
         }
       }
       for (const via of route.vias) {
-        if (distance(node, via) < this.viaDiameter / 2 + margin) {
+        if (
+          distance(node, via) <
+          route.viaDiameter / 2 + margin + extraClearance
+        ) {
           return true
         }
       }
     }
 
+    for (const obstacle of this.obstacles) {
+      if (!isVia && !obstacle.zLayers?.includes(node.z)) continue
+      if (this.isConnectedToObstacle(obstacle)) continue
+      if (
+        getPointObstacleClosestApproach(node, obstacle).distance <
+        (isVia ? 0 : this.traceThickness / 2) + margin
+      ) {
+        return true
+      }
+    }
+
+    for (const keepout of this.keepouts) {
+      if (
+        isVia
+          ? !doesKeepoutBlockVias(keepout)
+          : !doesKeepoutBlockTraces(keepout, node.z)
+      ) {
+        continue
+      }
+      if (
+        getPointObstacleClosestApproach(node, keepout).distance <
+        (isVia ? 0 : this.traceThickness / 2) + margin
+      ) {
+        return true
+      }
+    }
+
     return false
   }
 
+  /**
+   * How far the node is from running alongside the coupled route at the
+   * target gap, 0 when there's no coupled route
+   */
+  getCoupledRouteDeviation(node: Node) {
+    if (!this.coupledRoute) return 0
+    const targetDist =
+      (this.coupledGap ?? this.obstacleMargin) +
+      this.traceThickness / 2 +
+      this.coupledRoute.traceThickness / 2
+    let minDist = Infinity
+    for (const pointPair of getSameLayerPointPairs(this.coupledRoute)) {
+      if (pointPair.z !== node.z) continue
+      minDist = Math.min(
+        minDist,
+        pointToSegmentDistance(node, pointPair.A, pointPair.B),
+      )
+    }
+    if (minDist === Infinity) return this.straightLineDistance
+    return Math.abs(minDist - targetDist)
+  }
+
+  isConnectedToObstacle(obstacle: Obstacle) {
+    return obstacle.connectedTo.some(
+      (id) =>
+        id === this.connectionName ||
+        this.connMap?.areIdsConnected?.(this.connectionName, id),
+    )
+  }
+
   isNodeTooCloseToEdge(node: Node, isVia?: boolean) {
     const margin = isVia
       ? this.viaDiameter / 2 + this.obstacleMargin / 2
@@ -242,6 +359,25 @@ export class SingleHighDensityRouteSolver extends BaseSolver {
         }
       }
     }
+    for (const obstacle of this.obstacles) {
+      if (!obstacle.zLayers?.includes(node.z)) continue
+      if (this.isConnectedToObstacle(obstacle)) continue
+      if (
+        getSegmentObstacleClosestApproach(node, parent, obstacle).distance <
+        this.traceThickness / 2
+      ) {
+        return true
+      }
+    }
+    for (const keepout of this.keepouts) {
+      if (!doesKeepoutBlockTraces(keepout, node.z)) continue
+      if (
+        getSegmentObstacleClosestApproach(node, parent, keepout).distance <
+        this.traceThickness / 2
+      ) {
+        return true
+      }
+    }
     return false
   }
 
@@ -316,26 +452,37 @@ export class SingleHighDensityRouteSolver extends BaseSolver {
       }
     }
 
-    const viaNeighbor = {
-      ...node,
-      parent: node,
-      z: node.z === 0 ? this.layerCount - 1 : 0,
-    }
+    // A via can jump from the current layer to any other layer
+    const remainingVias =
+      this.maxVias === undefined
+        ? Infinity
+        : this.maxVias - this.getViasInNodePath(node).length
+    for (let z = 0; z < this.layerCount; z++) {
+      if (z === node.z || remainingVias <= 0) continue
+      // The last allowed via has to go to the layer of B
+      if (remainingVias === 1 && z !== this.B.z) continue
+
+      const viaNeighbor = {
+        ...node,
+        parent: node,
+        z,
+      }
 
-    if (
-      !this.exploredNodes.has(this.getNodeKey(viaNeighbor)) &&
-      !this.isNodeTooCloseToObstacle(
-        viaNeighbor,
-        this.viaDiameter / 2 + this.obstacleMargin / 2,
-        true,
-      ) &&
-      !this.isNodeTooCloseToEdge(viaNeighbor, true)
-    ) {
-      viaNeighbor.g = this.computeG(viaNeighbor)
-      viaNeighbor.h = this.computeH(viaNeighbor)
-      viaNeighbor.f = this.computeF(viaNeighbor.g, viaNeighbor.h)
+      if (
+        !this.exploredNodes.has(this.getNodeKey(viaNeighbor)) &&
+        !this.isNodeTooCloseToObstacle(
+          viaNeighbor,
+          this.viaDiameter / 2 + this.obstacleMargin / 2,
+          true,
+        ) &&
+        !this.isNodeTooCloseToEdge(viaNeighbor, true)
+      ) {
+        viaNeighbor.g = this.computeG(viaNeighbor)
+        viaNeighbor.h = this.computeH(viaNeighbor)
+        viaNeighbor.f = this.computeF(viaNeighbor.g, viaNeighbor.h)
 
-      neighbors.push(viaNeighbor)
+        neighbors.push(viaNeighbor)
+      }
     }
 
     return neighbors
@@ -376,6 +523,7 @@ export class SingleHighDensityRouteSolver extends BaseSolver {
       connectionName: this.connectionName,
       traceThickness: this.traceThickness,
       viaDiameter: this.viaDiameter,
+      clearance: this.clearance,
       route: path
         .map((node) => ({ x: node.x, y: node.y, z: node.z }))
         .concat([this.B]),
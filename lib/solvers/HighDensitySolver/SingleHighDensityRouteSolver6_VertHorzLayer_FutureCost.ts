@@ -9,6 +9,8 @@ export class SingleHighDensityRouteSolver6_VertHorzLayer_FutureCost extends Sing
   MISALIGNED_DIST_PENALTY_FACTOR = 5
   VIA_PENALTY_FACTOR_2 = 1
   FLIP_TRACE_ALIGNMENT_DIRECTION = false
+  /** Penalty per unit of travel for each unit of deviation from the gap */
+  COUPLED_ROUTE_DEVIATION_PENALTY_FACTOR = 4
 
   constructor(
     opts: ConstructorParameters<typeof SingleHighDensityRouteSolver>[0],
@@ -63,7 +65,8 @@ export class SingleHighDensityRouteSolver6_VertHorzLayer_FutureCost extends Sing
       const distRatio = distToFuturePoint / maxDist
       const maxPenalty = isVia
         ? this.straightLineDistance *
-          this.FUTURE_CONNECTION_PROX_VIA_PENALTY_FACTOR
+          this.FUTURE_CONNECTION_PROX_VIA_PENALTY_FACTOR *
+          this.viaCostFactor
         : this.straightLineDistance *
           this.FUTURE_CONNECTION_PROX_TRACE_PENALTY_FACTOR
       futureConnectionPenalty = maxPenalty * Math.exp(-distRatio * 5)
@@ -90,11 +93,12 @@ export class SingleHighDensityRouteSolver6_VertHorzLayer_FutureCost extends Sing
     const dy = Math.abs(node.y - node.parent!.y)
     const dist = Math.sqrt(dx ** 2 + dy ** 2)
 
+    // Even layers prefer horizontal traces, odd layers prefer vertical traces
     const misalignedDist = !this.FLIP_TRACE_ALIGNMENT_DIRECTION
-      ? node.z === 0
+      ? node.z % 2 === 0
         ? dy
         : dx
-      : node.z === 0
+      : node.z % 2 === 0
         ? dx
         : dy
 
@@ -103,7 +107,10 @@ export class SingleHighDensityRouteSolver6_VertHorzLayer_FutureCost extends Sing
       (node.parent?.g ?? 0) +
       (node.z === node.parent?.z ? 0 : this.viaPenaltyDistance) +
       dist +
-      misalignedDist * this.MISALIGNED_DIST_PENALTY_FACTOR
+      misalignedDist * this.MISALIGNED_DIST_PENALTY_FACTOR +
+      dist *
+        this.getCoupledRouteDeviation(node) *
+        this.COUPLED_ROUTE_DEVIATION_PENALTY_FACTOR
 
     return (
       baseCost +
@@ -9,6 +9,7 @@ import {
 } from "../HyperParameterSupervisorSolver"
 import { ConnectivityMap } from "circuit-json-to-connectivity-map"
 import { TwoCrossingRoutesHighDensitySolver } from "../HighDensitySolver/TwoRouteHighDensitySolver/TwoCrossingRoutesHighDensitySolver"
+import { getDifferentialPairPartner } from "lib/utils/differential-pairs"
 import { SingleTransitionCrossingRouteSolver } from "../HighDensitySolver/TwoRouteHighDensitySolver/SingleTransitionCrossingRouteSolver"
 
 export class HyperSingleIntraNodeSolver extends HyperParameterSupervisorSolver<
@@ -17,19 +18,48 @@ export class HyperSingleIntraNodeSolver extends HyperParameterSupervisorSolver<
   constructorParams: ConstructorParameters<typeof IntraNodeRouteSolver>[0]
   solvedRoutes: HighDensityIntraNodeRoute[] = []
   nodeWithPortPoints: NodeWithPortPoints
+  /** Offsets the SHUFFLE_SEED of every ordering, 0 keeps the default orderings */
+  seed: number
 
-  constructor(opts: ConstructorParameters<typeof IntraNodeRouteSolver>[0]) {
+  constructor({
+    seed,
+    ...opts
+  }: ConstructorParameters<typeof IntraNodeRouteSolver>[0] & {
+    seed?: number
+  }) {
     super()
     this.nodeWithPortPoints = opts.nodeWithPortPoints
     this.constructorParams = opts
+    this.seed = seed ?? 0
     this.MAX_ITERATIONS = 250_000
     this.GREEDY_MULTIPLIER = 5
     this.MIN_SUBSTEPS = 100
   }
 
   getCombinationDefs() {
+    // The closed form solvers don't avoid obstacles or keepouts inside the
+    // node, don't couple differential pairs and don't limit vias
+    const hasObstacles = Boolean(
+      this.constructorParams.obstacles?.length ||
+        this.constructorParams.keepouts?.length,
+    )
+    const { portPoints } = this.constructorParams.nodeWithPortPoints
+    const hasDifferentialPair = portPoints.some((p) => {
+      const partnerName = getDifferentialPairPartner(
+        this.constructorParams.traceParamsMap,
+        p.connectionName,
+      )
+      return portPoints.some((q) => q.connectionName === partnerName)
+    })
+    const hasViaLimit = portPoints.some(
+      (p) =>
+        this.constructorParams.traceParamsMap?.[p.connectionName]?.maxVias !==
+        undefined,
+    )
     return [
-      ["closedFormTwoTrace"],
+      ...(hasObstacles || hasDifferentialPair || hasViaLimit
+        ? []
+        : [["closedFormTwoTrace"]]),
       ["majorCombinations", "orderings6", "cellSizeFactor"],
       ["noVias"],
       ["orderings50"],
@@ -144,24 +174,71 @@ export class HyperSingleIntraNodeSolver extends HyperParameterSupervisorSolver<
     return 1 - (solver.progress || 0)
   }
 
+  /**
+   * The closed-form solvers use a single trace thickness, via diameter and
+   * margin for both routes, so we give them the largest of the connections in
+   * the node
+   */
+  getLargestTraceParams(): {
+    traceThickness?: number
+    viaDiameter?: number
+    obstacleMargin?: number
+  } {
+    const { traceParamsMap } = this.constructorParams
+    if (!traceParamsMap) return {}
+    let traceThickness: number | undefined
+    let viaDiameter: number | undefined
+    let obstacleMargin: number | undefined
+    for (const { connectionName } of this.nodeWithPortPoints.portPoints) {
+      const traceParams = traceParamsMap[connectionName]
+      if (!traceParams) continue
+      traceThickness = Math.max(traceThickness ?? 0, traceParams.traceThickness)
+      viaDiameter = Math.max(viaDiameter ?? 0, traceParams.viaDiameter)
+      if (traceParams.clearance !== undefined) {
+        obstacleMargin = Math.max(obstacleMargin ?? 0, traceParams.clearance)
+      }
+    }
+    return { traceThickness, viaDiameter, obstacleMargin }
+  }
+
   generateSolver(hyperParameters: any): IntraNodeRouteSolver {
     if (hyperParameters.CLOSED_FORM_TWO_TRACE_SAME_LAYER) {
       return new TwoCrossingRoutesHighDensitySolver({
         nodeWithPortPoints: this.nodeWithPortPoints,
+        layerCount: this.constructorParams.layerCount,
+        ...this.getLargestTraceParams(),
       }) as any
     }
     if (hyperParameters.CLOSED_FORM_TWO_TRACE_TRANSITION_CROSSING) {
       return new SingleTransitionCrossingRouteSolver({
         nodeWithPortPoints: this.nodeWithPortPoints,
+        layerCount: this.constructorParams.layerCount,
+        ...this.getLargestTraceParams(),
       }) as any
     }
     return new IntraNodeRouteSolver({
       ...this.constructorParams,
-      hyperParameters,
+      hyperParameters: this.seed
+        ? {
+            ...hyperParameters,
+            SHUFFLE_SEED:
+              (hyperParameters.SHUFFLE_SEED ?? 0) + this.seed * 1000,
+          }
+        : hyperParameters,
     })
   }
 
   onSolve(solver: SupervisedSolver<IntraNodeRouteSolver>) {
-    this.solvedRoutes = solver.solver.solvedRoutes
+    const { traceParamsMap } = this.constructorParams
+    this.solvedRoutes = solver.solver.solvedRoutes.map((route) => {
+      const traceParams = traceParamsMap?.[route.connectionName]
+      if (!traceParams) return route
+      return {
+        ...route,
+        traceThickness: traceParams.traceThickness,
+        viaDiameter: traceParams.viaDiameter,
+        clearance: traceParams.clearance,
+      }
+    })
   }
 }
@@ -0,0 +1,160 @@
+import type { GraphicsObject } from "graphics-debug"
+import type { CapacityMeshSolverOptions, SimpleRouteJson } from "lib/types"
+import { getAffectedConnectionNames } from "lib/utils/getAffectedConnectionNames"
+import { getBoardOutline } from "lib/utils/getBoardOutline"
+import { convertSrjToGraphicsObject } from "tests/fixtures/convertSrjToGraphicsObject"
+import { BaseSolver } from "../BaseSolver"
+import { AutoroutingPipelineSolver } from "../AutoroutingPipelineSolver"
+
+/**
+ * Reroutes an edited board using the output of a previous run. Traces of
+ * connections that aren't affected by the edit are passed to the pipeline as
+ * fixed input traces, so only the affected connections are routed again.
+ *
+ * Building the capacity mesh for the whole board dominates the time of a
+ * small reroute, so we first route inside the region around the affected
+ * connections and only fall back to the whole board when that fails.
+ */
+export class IncrementalRerouteSolver extends BaseSolver {
+  srj: SimpleRouteJson
+  affectedConnectionNames: Set<string>
+  /** The edited srj with the kept traces of the previous output */
+  srjWithKeptTraces: SimpleRouteJson
+  pipelineSolver?: AutoroutingPipelineSolver
+  opts: CapacityMeshSolverOptions
+  /** Bounds of the region the affected connections are rerouted in */
+  rerouteBounds: SimpleRouteJson["bounds"]
+  isReroutingWholeBoard = false
+
+  /** Distance the reroute region extends past the affected connections */
+  REROUTE_BOUNDS_MARGIN = 5
+
+  constructor(params: {
+    /** Output of the previous run, including its traces */
+    previousOutputSrj: SimpleRouteJson
+    /** The edited input */
+    srj: SimpleRouteJson
+    opts?: CapacityMeshSolverOptions
+  }) {
+    super()
+    this.MAX_ITERATIONS = 1e6
+    this.srj = params.srj
+    this.opts = params.opts ?? {}
+    this.affectedConnectionNames = getAffectedConnectionNames(
+      params.previousOutputSrj,
+      params.srj,
+    )
+
+    const connectionNames = new Set(params.srj.connections.map((c) => c.name))
+    const inputTraceIds = new Set(
+      (params.srj.traces ?? []).map((t) => t.pcb_trace_id),
+    )
+    const keptTraces = (params.previousOutputSrj.traces ?? []).filter(
+      (t) =>
+        connectionNames.has(t.connection_name) &&
+        !this.affectedConnectionNames.has(t.connection_name) &&
+        !inputTraceIds.has(t.pcb_trace_id),
+    )
+    this.srjWithKeptTraces = {
+      ...params.srj,
+      traces: [...(params.srj.traces ?? []), ...keptTraces],
+    }
+    this.rerouteBounds = this.computeRerouteBounds()
+  }
+
+  computeRerouteBounds(): SimpleRouteJson["bounds"] {
+    const points = this.srj.connections
+      .filter((c) => this.affectedConnectionNames.has(c.name))
+      .flatMap((c) => c.pointsToConnect)
+    const { bounds } = this.srj
+    if (points.length === 0) return bounds
+    const margin = this.REROUTE_BOUNDS_MARGIN
+    return {
+      minX: Math.max(bounds.minX, Math.min(...points.map((p) => p.x)) - margin),
+      maxX: Math.min(bounds.maxX, Math.max(...points.map((p) => p.x)) + margin),
+      minY: Math.max(bounds.minY, Math.min(...points.map((p) => p.y)) - margin),
+      maxY: Math.min(bounds.maxY, Math.max(...points.map((p) => p.y)) + margin),
+    }
+  }
+
+  createPipelineSolver() {
+    if (this.isReroutingWholeBoard) {
+      return new AutoroutingPipelineSolver(this.srjWithKeptTraces, {
+        ...this.opts,
+      })
+    }
+    return new AutoroutingPipelineSolver(
+      {
+        ...this.srjWithKeptTraces,
+        bounds: this.rerouteBounds,
+        // Edge clearance still applies to the edges of the whole board
+        outline: getBoardOutline(this.srj),
+      },
+      { ...this.opts },
+    )
+  }
+
+  isRerouteBoundsWholeBoard() {
+    const { bounds } = this.srj
+    return (
+      this.rerouteBounds.minX === bounds.minX &&
+      this.rerouteBounds.maxX === bounds.maxX &&
+      this.rerouteBounds.minY === bounds.minY &&
+      this.rerouteBounds.maxY === bounds.maxY
+    )
+  }
+
+  _step() {
+    if (this.affectedConnectionNames.size === 0) {
+      this.solved = true
+      return
+    }
+
+    if (!this.pipelineSolver) {
+      this.isReroutingWholeBoard = this.isRerouteBoundsWholeBoard()
+      this.pipelineSolver = this.createPipelineSolver()
+      this.activeSubSolver = this.pipelineSolver
+      return
+    }
+
+    this.pipelineSolver.step()
+    this.progress = this.pipelineSolver.progress
+
+    const didRegionRerouteFail =
+      this.pipelineSolver.failed ||
+      (this.pipelineSolver.solved &&
+        this.pipelineSolver.getCompletionReport().completionPercentage < 100)
+    if (didRegionRerouteFail && !this.isReroutingWholeBoard) {
+      this.isReroutingWholeBoard = true
+      this.pipelineSolver = this.createPipelineSolver()
+      this.activeSubSolver = this.pipelineSolver
+      return
+    }
+
+    if (this.pipelineSolver.solved) {
+      this.activeSubSolver = null
+      this.solved = true
+    } else if (this.pipelineSolver.failed) {
+      this.activeSubSolver = null
+      this.error = this.pipelineSolver.error
+      this.failed = true
+    }
+  }
+
+  getOutputSimpleRouteJson(): SimpleRouteJson {
+    if (!this.solved) {
+      throw new Error("Cannot get output before solving is complete")
+    }
+    if (!this.pipelineSolver) return this.srjWithKeptTraces
+    // The pipeline's srj may have cropped bounds
+    return {
+      ...this.srj,
+      traces: this.pipelineSolver.getOutputSimplifiedPcbTraces(),
+    }
+  }
+
+  visualize(): GraphicsObject {
+    if (this.pipelineSolver) return this.pipelineSolver.visualize()
+    return convertSrjToGraphicsObject(this.srjWithKeptTraces)
+  }
+}
@@ -0,0 +1,618 @@
+import type { GraphicsObject } from "graphics-debug"
+import { pointToSegmentDistance } from "@tscircuit/math-utils"
+import { ConnectivityMap } from "circuit-json-to-connectivity-map"
+import type {
+  ConnectionLengthReport,
+  Keepout,
+  LengthMatchGroupReport,
+  LengthMatchingReport,
+  Obstacle,
+  SimpleRouteConnection,
+  SimpleRouteJson,
+} from "lib/types"
+import type { HighDensityRoute } from "lib/types/high-density-types"
+import { SegmentTree } from "lib/data-structures/SegmentTree"
+import { ObstacleTree } from "lib/data-structures/ObstacleTree"
+import { getOriginalConnectionName } from "lib/utils/getCompletionReport"
+import { getPairClearance } from "lib/utils/getTraceParamsMapFromSimpleRouteJson"
+import { getRouteLength } from "lib/utils/getRouteLength"
+import { doesKeepoutBlockTraces } from "lib/utils/keepouts"
+import { minimumDistanceBetweenSegments } from "lib/utils/minimumDistanceBetweenSegments"
+import {
+  getPolygonEdges,
+  getSegmentObstacleClosestApproach,
+  isPointInPolygon,
+} from "lib/utils/obstacle-shapes"
+import { BaseSolver } from "../BaseSolver"
+
+interface Point {
+  x: number
+  y: number
+  z: number
+}
+
+interface RouteSegmentInfo {
+  connectionName: string
+  traceThickness: number
+  clearance?: number
+}
+
+interface LengthTarget {
+  connectionName: string
+  lengthMatchGroup?: string
+  targetLength: number
+}
+
+export const DEFAULT_LENGTH_MATCH_TOLERANCE = 0.1
+
+/** Check if any connection asks for length tuning */
+export const doesSrjRequireLengthMatching = (srj: SimpleRouteJson) =>
+  srj.connections.some(
+    (c) => c.targetLength !== undefined || c.lengthMatchGroup !== undefined,
+  )
+
+/**
+ * Adds serpentine meanders to routed traces until they reach their target
+ * length. A connection's target is its targetLength, connections in a
+ * lengthMatchGroup are tuned to the longest member of the group.
+ *
+ * Each meander is a row of rectangular bumps placed on one side of a straight
+ * segment, a bump of amplitude A adds 2A to the length. Bumps are spaced by
+ * the trace width plus clearance so the trace doesn't violate its own
+ * clearance, and are only placed where they keep clear of obstacles, keepouts,
+ * the board edge and the traces of other connections.
+ */
+export class LengthMatchingSolver extends BaseSolver {
+  hdRoutes: HighDensityRoute[]
+  /** Routes with meanders, same order as the input routes */
+  tunedHdRoutes: HighDensityRoute[]
+  connections: SimpleRouteConnection[]
+  obstacles: Obstacle[]
+  keepouts: Keepout[]
+  connMap: ConnectivityMap
+  colorMap: Record<string, string>
+  bounds: SimpleRouteJson["bounds"]
+  outline?: Array<{ x: number; y: number }>
+  edgeClearance: number
+  tolerance: number
+
+  obstacleTree: ObstacleTree
+  segmentTree!: SegmentTree
+  segmentInfoMap: Map<string, RouteSegmentInfo[]> = new Map()
+
+  targets: LengthTarget[]
+  originalLengths: Map<string, number> = new Map()
+  currentTargetIndex = 0
+  /** Segments added as meanders, used for visualization */
+  meanderSegments: Array<[Point, Point]> = []
+
+  DEFAULT_CLEARANCE = 0.15
+  /** Meanders use more bumps rather than exceeding this amplitude */
+  MAX_AMPLITUDE_PITCHES = 5
+
+  constructor(params: {
+    hdRoutes: HighDensityRoute[]
+    /** The original (not point-pair) connections with the tuning settings */
+    connections: SimpleRouteConnection[]
+    obstacles: Obstacle[]
+    keepouts?: Keepout[]
+    bounds: SimpleRouteJson["bounds"]
+    outline?: Array<{ x: number; y: number }>
+    edgeClearance?: number
+    tolerance?: number
+    connMap?: ConnectivityMap
+    colorMap?: Record<string, string>
+  }) {
+    super()
+    this.MAX_ITERATIONS = 100e3
+    this.hdRoutes = params.hdRoutes
+    this.tunedHdRoutes = params.hdRoutes.map((r) => ({
+      ...r,
+      route: [...r.route],
+    }))
+    this.connections = params.connections
+    this.obstacles = params.obstacles
+    this.keepouts = params.keepouts ?? []
+    this.bounds = params.bounds
+    this.outline = params.outline
+    this.edgeClearance = params.edgeClearance ?? 0
+    this.tolerance = params.tolerance ?? DEFAULT_LENGTH_MATCH_TOLERANCE
+    this.connMap = params.connMap ?? new ConnectivityMap({})
+    this.colorMap = params.colorMap ?? {}
+
+    this.obstacleTree = new ObstacleTree(this.obstacles)
+    this.buildSegmentTree()
+
+    for (const connection of this.connections) {
+      this.originalLengths.set(
+        connection.name,
+        this.getConnectionLength(connection.name),
+      )
+    }
+    this.targets = this.computeTargets()
+  }
+
+  getConnectionRoutes(connectionName: string) {
+    return this.tunedHdRoutes.filter(
+      (r) => getOriginalConnectionName(r.connectionName) === connectionName,
+    )
+  }
+
+  getConnectionLength(connectionName: string) {
+    return this.getConnectionRoutes(connectionName).reduce(
+      (sum, r) => sum + getRouteLength(r.route),
+      0,
+    )
+  }
+
+  computeTargets(): LengthTarget[] {
+    const targets: LengthTarget[] = []
+    const groups = new Map<string, SimpleRouteConnection[]>()
+    for (const connection of this.connections) {
+      if (connection.lengthMatchGroup !== undefined) {
+        groups.set(connection.lengthMatchGroup, [
+          ...(groups.get(connection.lengthMatchGroup) ?? []),
+          connection,
+        ])
+      } else if (connection.targetLength !== undefined) {
+        targets.push({
+          connectionName: connection.name,
+          targetLength: connection.targetLength,
+        })
+      }
+    }
+    for (const [groupName, members] of groups) {
+      const targetLength = this.getGroupTargetLength(members)
+      for (const member of members) {
+        targets.push({
+          connectionName: member.name,
+          lengthMatchGroup: groupName,
+          targetLength,
+        })
+      }
+    }
+    return targets
+  }
+
+  getGroupTargetLength(members: SimpleRouteConnection[]) {
+    return Math.max(
+      ...members.map((m) =>
+        Math.max(m.targetLength ?? 0, this.originalLengths.get(m.name) ?? 0),
+      ),
+    )
+  }
+
+  buildSegmentTree() {
+    const segments: Array<[Point, Point]> = []
+    this.segmentInfoMap = new Map()
+    for (const hdRoute of this.tunedHdRoutes) {
+      for (let i = 0; i < hdRoute.route.length - 1; i++) {
+        const segment: [Point, Point] = [hdRoute.route[i], hdRoute.route[i + 1]]
+        if (segment[0].z !== segment[1].z) continue
+        segments.push(segment)
+      }
+    }
+    this.segmentTree = new SegmentTree(segments)
+    for (const hdRoute of this.tunedHdRoutes) {
+      for (let i = 0; i < hdRoute.route.length - 1; i++) {
+        const key = this.segmentTree.getSegmentKey([
+          hdRoute.route[i],
+          hdRoute.route[i + 1],
+        ])
+        this.segmentInfoMap.set(key, [
+          ...(this.segmentInfoMap.get(key) ?? []),
+          {
+            connectionName: hdRoute.connectionName,
+            traceThickness: hdRoute.traceThickness,
+            clearance: hdRoute.clearance,
+          },
+        ])
+      }
+    }
+  }
+
+  /** Targets that weren't tuned in time are reported as out of tolerance */
+  handleDeadline() {
+    this.solved = true
+  }
+
+  _step() {
+    const target = this.targets[this.currentTargetIndex]
+    if (!target) {
+      this.solved = true
+      return
+    }
+    this.currentTargetIndex++
+
+    let remaining =
+      target.targetLength - this.getConnectionLength(target.connectionName)
+    if (remaining <= this.tolerance / 2) return
+
+    for (const hdRoute of this.getConnectionRoutes(target.connectionName)) {
+      if (remaining <= 0) break
+      remaining -= this.addMeandersToRoute(hdRoute, remaining)
+    }
+    this.buildSegmentTree()
+  }
+
+  /**
+   * Insert meanders into the longest segments of the route first, returns the
+   * length that was added
+   */
+  addMeandersToRoute(hdRoute: HighDensityRoute, lengthToAdd: number) {
+    const pitch =
+      hdRoute.traceThickness + (hdRoute.clearance ?? this.DEFAULT_CLEARANCE)
+    // Keep meanders away from the vias and pads at the ends of a segment
+    const endMargin = pitch + hdRoute.viaDiameter / 2
+
+    const segmentIndices = hdRoute.route
+      .slice(0, -1)
+      .map((_, i) => i)
+      .filter((i) => hdRoute.route[i].z === hdRoute.route[i + 1].z)
+      .sort(
+        (a, b) =>
+          this.getSegmentLength(hdRoute.route, b) -
+          this.getSegmentLength(hdRoute.route, a),
+      )
+
+    const meandersBySegmentIndex = new Map<number, Point[]>()
+    const addedSegments: Array<[Point, Point]> = []
+    let added = 0
+
+    for (const segmentIndex of segmentIndices) {
+      const remaining = lengthToAdd - added
+      if (remaining <= 0) break
+      const start = hdRoute.route[segmentIndex]
+      const end = hdRoute.route[segmentIndex + 1]
+      const segmentLength = this.getSegmentLength(hdRoute.route, segmentIndex)
+      const maxBumps = Math.floor(
+        (segmentLength - 2 * endMargin + pitch) / (2 * pitch),
+      )
+
+      let meander: { points: Point[]; addedLength: number } | null = null
+      // Try to add the full remaining length first, then settle for a partial
+      // meander
+      for (const fraction of [1, 0.5, 0.25]) {
+        const lengthForSegment = remaining * fraction
+        const minBumps = Math.max(
+          1,
+          Math.ceil(
+            lengthForSegment / (2 * this.MAX_AMPLITUDE_PITCHES * pitch),
+          ),
+        )
+        for (let bumps = minBumps; bumps <= maxBumps && !meander; bumps++) {
+          const amplitude = lengthForSegment / (2 * bumps)
+          for (const side of [1, -1]) {
+            const points = this.getMeanderPoints(
+              start,
+              end,
+              bumps,
+              amplitude * side,
+              pitch,
+            )
+            if (
+              this.isMeanderValid(
+                hdRoute,
+                segmentIndex,
+                points,
+                addedSegments,
+                pitch,
+              )
+            ) {
+              meander = { points, addedLength: lengthForSegment }
+              break
+            }
+          }
+        }
+        if (meander) break
+      }
+      if (!meander) continue
+
+      meandersBySegmentIndex.set(segmentIndex, meander.points)
+      for (let i = 0; i < meander.points.length - 1; i++) {
+        addedSegments.push([meander.points[i], meander.points[i + 1]])
+      }
+      added += meander.addedLength
+    }
+
+    if (meandersBySegmentIndex.size === 0) return 0
+
+    const newRoute: Point[] = []
+    for (let i = 0; i < hdRoute.route.length; i++) {
+      newRoute.push(hdRoute.route[i])
+      newRoute.push(...(meandersBySegmentIndex.get(i) ?? []))
+    }
+    hdRoute.route = newRoute
+    this.meanderSegments.push(...addedSegments)
+    return added
+  }
+
+  getSegmentLength(route: Point[], segmentIndex: number) {
+    const a = route[segmentIndex]
+    const b = route[segmentIndex + 1]
+    return Math.hypot(b.x - a.x, b.y - a.y)
+  }
+
+  /**
+   * Points of a row of rectangular bumps centered on the segment, not
+   * including the segment's start and end. A negative amplitude puts the
+   * bumps on the right side of the segment.
+   */
+  getMeanderPoints(
+    start: Point,
+    end: Point,
+    bumps: number,
+    amplitude: number,
+    pitch: number,
+  ): Point[] {
+    const length = Math.hypot(end.x - start.x, end.y - start.y)
+    const dir = { x: (end.x - start.x) / length, y: (end.y - start.y) / length }
+    const normal = { x: -dir.y * amplitude, y: dir.x * amplitude }
+    const offset = (length - (2 * bumps - 1) * pitch) / 2
+
+    const points: Point[] = []
+    for (let i = 0; i < bumps; i++) {
+      const d1 = offset + 2 * i * pitch
+      const d2 = d1 + pitch
+      const b1 = { x: start.x + dir.x * d1, y: start.y + dir.y * d1 }
+      const b2 = { x: start.x + dir.x * d2, y: start.y + dir.y * d2 }
+      points.push(
+        { ...b1, z: start.z },
+        { x: b1.x + normal.x, y: b1.y + normal.y, z: start.z },
+        { x: b2.x + normal.x, y: b2.y + normal.y, z: start.z },
+        { ...b2, z: start.z },
+      )
+    }
+    return points
+  }
+
+  /**
+   * Check the legs and tops of the bumps, the parts of the meander along the
+   * original segment were already valid
+   */
+  isMeanderValid(
+    hdRoute: HighDensityRoute,
+    segmentIndex: number,
+    meanderPoints: Point[],
+    addedSegments: Array<[Point, Point]>,
+    pitch: number,
+  ) {
+    const replacedSegmentKey = this.segmentTree.getSegmentKey([
+      hdRoute.route[segmentIndex],
+      hdRoute.route[segmentIndex + 1],
+    ])
+    for (let i = 0; i < meanderPoints.length - 1; i += 4) {
+      const bumpSegments: Array<[Point, Point]> = [
+        [meanderPoints[i], meanderPoints[i + 1]],
+        [meanderPoints[i + 1], meanderPoints[i + 2]],
+        [meanderPoints[i + 2], meanderPoints[i + 3]],
+      ]
+      for (const [a, b] of bumpSegments) {
+        if (!this.isSegmentInsideBoard(a, b, hdRoute)) return false
+        if (this.doesSegmentHitObstacle(a, b, hdRoute)) return false
+        if (this.doesSegmentHitRoute(a, b, hdRoute, replacedSegmentKey)) {
+          return false
+        }
+        for (const [c, d] of addedSegments) {
+          if (minimumDistanceBetweenSegments(a, b, c, d) < pitch) return false
+        }
+      }
+    }
+    return true
+  }
+
+  isSegmentInsideBoard(a: Point, b: Point, hdRoute: HighDensityRoute) {
+    const halfWidth = hdRoute.traceThickness / 2
+    if (this.outline) {
+      if (!isPointInPolygon(a, this.outline)) return false
+      if (!isPointInPolygon(b, this.outline)) return false
+      for (const [e1, e2] of getPolygonEdges(this.outline)) {
+        const dist = minimumDistanceBetweenSegments(a, b, e1, e2)
+        if (dist === 0 || dist < this.edgeClearance + halfWidth) return false
+      }
+      return true
+    }
+    return [a, b].every(
+      (p) =>
+        p.x - halfWidth >= this.bounds.minX &&
+        p.x + halfWidth <= this.bounds.maxX &&
+        p.y - halfWidth >= this.bounds.minY &&
+        p.y + halfWidth <= this.bounds.maxY,
+    )
+  }
+
+  doesSegmentHitObstacle(a: Point, b: Point, hdRoute: HighDensityRoute) {
+    const clearance =
+      (hdRoute.clearance ?? this.DEFAULT_CLEARANCE) + hdRoute.traceThickness / 2
+    const margin = clearance + this.obstacleTree.CELL_SIZE
+    const nearbyObstacles = this.obstacleTree.getNodesInArea(
+      (a.x + b.x) / 2,
+      (a.y + b.y) / 2,
+      Math.abs(b.x - a.x) + 2 * margin,
+      Math.abs(b.y - a.y) + 2 * margin,
+    )
+    for (const obstacle of nearbyObstacles) {
+      if (!obstacle.zLayers?.includes(a.z)) continue
+      if (
+        obstacle.connectedTo.some((id) =>
+          this.connMap.areIdsConnected(hdRoute.connectionName, id),
+        )
+      ) {
+        continue
+      }
+      if (
+        getSegmentObstacleClosestApproach(a, b, obstacle).distance < clearance
+      ) {
+        return true
+      }
+    }
+    for (const keepout of this.keepouts) {
+      if (!doesKeepoutBlockTraces(keepout, a.z)) continue
+      if (
+        getSegmentObstacleClosestApproach(a, b, keepout).distance < clearance
+      ) {
+        return true
+      }
+    }
+    return false
+  }
+
+  doesSegmentHitRoute(
+    a: Point,
+    b: Point,
+    hdRoute: HighDensityRoute,
+    replacedSegmentKey: string,
+  ) {
+    const ownClearance = hdRoute.clearance ?? this.DEFAULT_CLEARANCE
+    const maxClearance =
+      this.getMaxRouteClearance() + hdRoute.traceThickness + ownClearance
+    const nearbySegments = this.segmentTree.getSegmentsThatCouldIntersect(
+      {
+        x: Math.min(a.x, b.x) - maxClearance,
+        y: Math.min(a.y, b.y) - maxClearance,
+        z: a.z,
+      },
+      {
+        x: Math.max(a.x, b.x) + maxClearance,
+        y: Math.max(a.y, b.y) + maxClearance,
+        z: a.z,
+      },
+    )
+    for (const [c, d, key] of nearbySegments) {
+      if (c.z !== a.z || d.z !== a.z) continue
+      const dist = minimumDistanceBetweenSegments(a, b, c, d)
+      for (const info of this.segmentInfoMap.get(key) ?? []) {
+        if (
+          info.connectionName === hdRoute.connectionName &&
+          key === replacedSegmentKey
+        ) {
+          continue
+        }
+        const requiredDistance = this.connMap.areIdsConnected(
+          hdRoute.connectionName,
+          info.connectionName,
+        )
+          ? hdRoute.traceThickness + ownClearance
+          : getPairClearance(
+              hdRoute.clearance,
+              info.clearance,
+              this.DEFAULT_CLEARANCE,
+            ) +
+            (hdRoute.traceThickness + info.traceThickness) / 2
+        if (dist < requiredDistance) return true
+      }
+    }
+
+    for (const otherRoute of this.tunedHdRoutes) {
+      const viaClearance =
+        getPairClearance(
+          hdRoute.clearance,
+          otherRoute.clearance,
+          this.DEFAULT_CLEARANCE,
+        ) +
+        (otherRoute.viaDiameter + hdRoute.traceThickness) / 2
+      for (const via of otherRoute.vias) {
+        if (pointToSegmentDistance(via, a, b) < viaClearance) return true
+      }
+    }
+    return false
+  }
+
+  getMaxRouteClearance() {
+    let maxClearance = this.DEFAULT_CLEARANCE
+    for (const r of this.tunedHdRoutes) {
+      maxClearance = Math.max(
+        maxClearance,
+        (r.clearance ?? 0) + r.traceThickness,
+      )
+    }
+    return maxClearance
+  }
+
+  /** Achieved lengths of the tuned connections and groups */
+  getReport(): LengthMatchingReport {
+    const connections: ConnectionLengthReport[] = this.targets.map((target) => {
+      const length = this.getConnectionLength(target.connectionName)
+      return {
+        connectionName: target.connectionName,
+        lengthMatchGroup: target.lengthMatchGroup,
+        originalLength: this.originalLengths.get(target.connectionName) ?? 0,
+        length,
+        targetLength: target.targetLength,
+        withinTolerance:
+          Math.abs(length - target.targetLength) <= this.tolerance,
+      }
+    })
+
+    const groups: LengthMatchGroupReport[] = []
+    for (const connection of connections) {
+      if (connection.lengthMatchGroup === undefined) continue
+      let group = groups.find((g) => g.name === connection.lengthMatchGroup)
+      if (!group) {
+        group = {
+          name: connection.lengthMatchGroup,
+          connectionNames: [],
+          targetLength: connection.targetLength,
+          minLength: Infinity,
+          maxLength: -Infinity,
+          withinTolerance: true,
+        }
+        groups.push(group)
+      }
+      group.connectionNames.push(connection.connectionName)
+      group.minLength = Math.min(group.minLength, connection.length)
+      group.maxLength = Math.max(group.maxLength, connection.length)
+      group.withinTolerance &&= connection.withinTolerance
+    }
+
+    return { tolerance: this.tolerance, connections, groups }
+  }
+
+  visualize(): GraphicsObject {
+    const graphics: Required<GraphicsObject> = {
+      lines: [],
+      points: [],
+      circles: [],
+      rects: [],
+      coordinateSystem: "cartesian",
+      title: "Length Matching Solver",
+    }
+
+    for (const hdRoute of this.tunedHdRoutes) {
+      for (let i = 0; i < hdRoute.route.length - 1; i++) {
+        const a = hdRoute.route[i]
+        const b = hdRoute.route[i + 1]
+        graphics.lines.push({
+          points: [a, b],
+          strokeColor:
+            a.z === 0
+              ? this.colorMap[hdRoute.connectionName]
+              : "rgba(0,0,255,0.5)",
+          strokeWidth: hdRoute.traceThickness,
+        })
+      }
+    }
+
+    for (const [a, b] of this.meanderSegments) {
+      graphics.lines.push({
+        points: [a, b],
+        strokeColor: "rgba(255,165,0,0.5)",
+        strokeDash: "2 2",
+      })
+    }
+
+    for (const connection of this.getReport().connections) {
+      const firstPoint = this.getConnectionRoutes(connection.connectionName)[0]
+        ?.route[0]
+      if (!firstPoint) continue
+      graphics.points.push({
+        x: firstPoint.x,
+        y: firstPoint.y,
+        color: connection.withinTolerance ? "green" : "red",
+        label: `${connection.connectionName}\nlength: ${connection.length.toFixed(2)} / ${connection.targetLength.toFixed(2)}`,
+      })
+    }
+
+    return graphics
+  }
+}
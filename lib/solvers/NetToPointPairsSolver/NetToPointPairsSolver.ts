@@ -1,8 +1,18 @@
 import { SimpleRouteConnection, SimpleRouteJson } from "lib/types"
 import { BaseSolver } from "../BaseSolver"
 import { buildMinimumSpanningTree } from "./buildMinimumSpanningTree"
+import { buildRectilinearSteinerTree } from "./buildRectilinearSteinerTree"
+import {
+  getPointObstacleClosestApproach,
+  isPointInPolygon,
+} from "lib/utils/obstacle-shapes"
 import { GraphicsObject } from "graphics-debug"
 import { seededRandom } from "lib/utils/cloneAndShuffleArray"
+import { ObstacleTree } from "lib/data-structures/ObstacleTree"
+import { mapLayerNameToZ } from "lib/utils/mapLayerNameToZ"
+import { distance } from "@tscircuit/math-utils"
+
+type ConnectionPoint = SimpleRouteConnection["pointsToConnect"][number]
 
 /**
  * Converts a net containing many points to connect into an array of point pair
@@ -12,7 +22,14 @@ import { seededRandom } from "lib/utils/cloneAndShuffleArray"
  * connections of 2 points each.
  *
  * Where we create the minimum number of pairs, we're using a minimum spanning
- * tree (MST).
+ * tree (MST). The tree is weighted by an estimated routing cost, so points
+ * separated by other nets' obstacles, the board edge or a layer change are
+ * less likely to be paired.
+ *
+ * With the "steinerTree" topology the net is split along an estimated
+ * rectilinear Steiner tree instead, the Steiner points become extra points to
+ * connect. The pairs are ordered outwards from the first point, each pair
+ * connects a new point (first) to an already connected point (second).
  *
  * Sometimes it can be used to add additional traces to help make sure we
  * distribute load effectively. In this version we don't do that!
@@ -20,14 +37,37 @@ import { seededRandom } from "lib/utils/cloneAndShuffleArray"
 export class NetToPointPairsSolver extends BaseSolver {
   unprocessedConnections: Array<SimpleRouteConnection>
   newConnections: Array<SimpleRouteConnection>
+  netTopology: "mst" | "steinerTree"
+
+  /** Larger nets use the MST, the Steiner tree estimation is O(n^5) */
+  MAX_STEINER_TREE_POINTS = 24
+  /**
+   * Steiner points close to obstacles end up in crowded capacity nodes that
+   * are hard to path into
+   */
+  STEINER_POINT_OBSTACLE_MARGIN = 1
+
+  /** How much longer a path through other nets' obstacles is estimated to be */
+  OBSTACLE_COST_FACTOR = 1
+  /** Estimated cost of the vias between points on different layers */
+  LAYER_CHANGE_COST = 2
+  /** Spacing of the points where the obstacle density is sampled */
+  OBSTACLE_SAMPLE_SPACING = 0.5
+  /** Obstacle cost factors of the trees in getAlternativeSimpleRouteJsons() */
+  ALTERNATIVE_OBSTACLE_COST_FACTORS = [0, 4]
+
+  obstacleTree: ObstacleTree
 
   constructor(
     public ogSrj: SimpleRouteJson,
     public colorMap: Record<string, string> = {},
+    opts: { netTopology?: "mst" | "steinerTree" } = {},
   ) {
     super()
+    this.netTopology = opts.netTopology ?? "mst"
     this.unprocessedConnections = [...ogSrj.connections]
     this.newConnections = []
+    this.obstacleTree = new ObstacleTree(ogSrj.obstacles)
   }
 
   _step() {
@@ -36,20 +76,209 @@ export class NetToPointPairsSolver extends BaseSolver {
       return
     }
     const connection = this.unprocessedConnections.pop()!
-    if (connection.pointsToConnect.length === 2) {
-      this.newConnections.push(connection)
-      return
+    this.newConnections.push(
+      ...this.getPointPairConnections(connection, {
+        netTopology: this.netTopology,
+        obstacleCostFactor: this.OBSTACLE_COST_FACTOR,
+      }),
+    )
+  }
+
+  getPointPairConnections(
+    connection: SimpleRouteConnection,
+    {
+      netTopology,
+      obstacleCostFactor,
+    }: { netTopology: "mst" | "steinerTree"; obstacleCostFactor: number },
+  ): SimpleRouteConnection[] {
+    if (connection.pointsToConnect.length === 2) return [connection]
+
+    const netIds = new Set([
+      connection.name,
+      connection.netConnectionName ?? connection.name,
+      ...connection.pointsToConnect.flatMap((p) =>
+        p.pcb_port_id ? [p.pcb_port_id] : [],
+      ),
+    ])
+    const getWeight = (
+      a: { x: number; y: number; layer?: string },
+      b: { x: number; y: number; layer?: string },
+    ) => this.getEstimatedRoutingCost(a, b, netIds, obstacleCostFactor)
+    const edges =
+      netTopology === "steinerTree" &&
+      connection.pointsToConnect.length <= this.MAX_STEINER_TREE_POINTS
+        ? this.getSteinerTreeEdges(connection, getWeight)
+        : buildMinimumSpanningTree(connection.pointsToConnect, getWeight)
+
+    return edges.map((edge, i) => ({
+      pointsToConnect: [edge.from, edge.to],
+      name: `${connection.name}_mst${i}`,
+      netConnectionName: connection.netConnectionName ?? connection.name,
+      traceWidth: connection.traceWidth,
+      viaDiameter: connection.viaDiameter,
+      viaHoleDiameter: connection.viaHoleDiameter,
+      maxVias: connection.maxVias,
+    }))
+  }
+
+  /**
+   * Estimated cost of routing between two points of a net: the distance,
+   * stretched by the share of the straight line that's blocked by other nets'
+   * obstacles or outside the board, plus the cost of changing layers
+   */
+  getEstimatedRoutingCost(
+    a: { x: number; y: number; layer?: string },
+    b: { x: number; y: number; layer?: string },
+    netIds: Set<string>,
+    obstacleCostFactor: number,
+  ) {
+    const length = distance(a, b)
+    let blockedFraction = 0
+    const sampleCount = Math.ceil(length / this.OBSTACLE_SAMPLE_SPACING) - 1
+    if (obstacleCostFactor > 0 && sampleCount > 0) {
+      let blocked = 0
+      for (let i = 1; i <= sampleCount; i++) {
+        const t = i / (sampleCount + 1)
+        blocked += this.getBlockedLayerFraction(
+          { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t },
+          netIds,
+        )
+      }
+      blockedFraction = blocked / sampleCount
     }
+    const layerChangeCost =
+      a.layer && b.layer && a.layer !== b.layer ? this.LAYER_CHANGE_COST : 0
+    return length * (1 + obstacleCostFactor * blockedFraction) + layerChangeCost
+  }
 
-    const edges = buildMinimumSpanningTree(connection.pointsToConnect)
+  /**
+   * Share of the layers covered by obstacles of other nets around the point,
+   * 1 outside the board
+   */
+  getBlockedLayerFraction(p: { x: number; y: number }, netIds: Set<string>) {
+    const { bounds, outline, layerCount } = this.ogSrj
+    if (
+      p.x < bounds.minX ||
+      p.x > bounds.maxX ||
+      p.y < bounds.minY ||
+      p.y > bounds.maxY ||
+      (outline && !isPointInPolygon(p, outline))
+    ) {
+      return 1
+    }
+    const blockedZ = new Set<number>()
+    for (const obstacle of this.obstacleTree.getNodesInArea(
+      p.x,
+      p.y,
+      this.OBSTACLE_SAMPLE_SPACING,
+      this.OBSTACLE_SAMPLE_SPACING,
+    )) {
+      if (obstacle.connectedTo.some((id) => netIds.has(id))) continue
+      for (const layer of obstacle.layers) {
+        blockedZ.add(mapLayerNameToZ(layer, layerCount))
+      }
+    }
+    return blockedZ.size / layerCount
+  }
 
-    for (let i = 0; i < edges.length; i++) {
-      const edge = edges[i]
-      this.newConnections.push({
-        pointsToConnect: [edge.from, edge.to],
-        name: `${connection.name}_mst${i}`,
+  /**
+   * The nets decomposed with each of the ALTERNATIVE_OBSTACLE_COST_FACTORS,
+   * and as minimum spanning trees when routing Steiner trees. Alternatives
+   * that pair the same points as the solved decomposition (or another
+   * alternative) are left out
+   */
+  getAlternativeSimpleRouteJsons(): SimpleRouteJson[] {
+    const getPairsKey = (connections: SimpleRouteConnection[]) =>
+      JSON.stringify(connections.map((c) => c.pointsToConnect))
+    const seenPairsKeys = new Set([getPairsKey(this.newConnections)])
+    const alternatives: SimpleRouteJson[] = []
+    const decompositions = this.ALTERNATIVE_OBSTACLE_COST_FACTORS.map(
+      (obstacleCostFactor) => ({
+        netTopology: this.netTopology,
+        obstacleCostFactor,
+      }),
+    )
+    if (this.netTopology === "steinerTree") {
+      decompositions.push({
+        netTopology: "mst",
+        obstacleCostFactor: this.OBSTACLE_COST_FACTOR,
       })
     }
+    for (const decomposition of decompositions) {
+      // Same order as the connections are popped in _step()
+      const connections = this.ogSrj.connections
+        .slice()
+        .reverse()
+        .flatMap((c) => this.getPointPairConnections(c, decomposition))
+      const pairsKey = getPairsKey(connections)
+      if (seenPairsKeys.has(pairsKey)) continue
+      seenPairsKeys.add(pairsKey)
+      alternatives.push({ ...this.ogSrj, connections })
+    }
+    return alternatives
+  }
+
+  /**
+   * Edges of the connection's Steiner tree in breadth first order from its
+   * first point
+   */
+  getSteinerTreeEdges(
+    connection: SimpleRouteConnection,
+    getEdgeWeight?: (
+      a: { x: number; y: number },
+      b: { x: number; y: number },
+    ) => number,
+  ) {
+    const terminals = connection.pointsToConnect
+    const { steinerPoints, edges } = buildRectilinearSteinerTree(terminals, {
+      isValidSteinerPoint: (p) =>
+        this.ogSrj.obstacles.every(
+          (obstacle) =>
+            getPointObstacleClosestApproach(p, obstacle).distance >=
+            this.STEINER_POINT_OBSTACLE_MARGIN,
+        ),
+      getEdgeWeight,
+    })
+    const points: ConnectionPoint[] = [
+      ...terminals,
+      ...steinerPoints.map((p, i) => {
+        // Steiner points are on the layer of the closest point of the net
+        const closestTerminal = terminals.reduce((best, t) =>
+          Math.abs(t.x - p.x) + Math.abs(t.y - p.y) <
+          Math.abs(best.x - p.x) + Math.abs(best.y - p.y)
+            ? t
+            : best,
+        )
+        return {
+          x: p.x,
+          y: p.y,
+          layer: closestTerminal.layer,
+          // Connects the pairs meeting at the Steiner point in the connMap,
+          // like pairs meeting at a pin are connected through its port
+          pcb_port_id: `${connection.name}_steiner${i}`,
+        }
+      }),
+    ]
+
+    const neighbors = points.map((): number[] => [])
+    for (const [a, b] of edges) {
+      neighbors[a].push(b)
+      neighbors[b].push(a)
+    }
+    const orderedEdges: Array<{ from: ConnectionPoint; to: ConnectionPoint }> =
+      []
+    const visited = new Set([0])
+    const queue = [0]
+    while (queue.length > 0) {
+      const current = queue.shift()!
+      for (const neighbor of neighbors[current]) {
+        if (visited.has(neighbor)) continue
+        visited.add(neighbor)
+        queue.push(neighbor)
+        orderedEdges.push({ from: points[neighbor], to: points[current] })
+      }
+    }
+    return orderedEdges
   }
 
   getNewSimpleRouteJson(): SimpleRouteJson {
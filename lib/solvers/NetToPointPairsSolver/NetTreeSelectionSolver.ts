@@ -0,0 +1,112 @@
+import type { GraphicsObject } from "graphics-debug"
+import type { SimpleRouteJson } from "lib/types"
+import { BaseSolver } from "../BaseSolver"
+import { CapacityPathingSolver5 } from "../CapacityPathingSolver/CapacityPathingSolver5"
+import { getSubSolverDeadline } from "lib/utils/getSubSolverDeadline"
+
+/**
+ * Picks the decomposition of the nets into point pairs that's least congested
+ * after capacity planning. Every candidate is pathed on the same capacity mesh
+ * and the one with the least overflow wins, ties keep the earlier candidate.
+ * Candidates that can't be pathed (or weren't pathed in time) lose.
+ */
+export class NetTreeSelectionSolver extends BaseSolver {
+  candidateSrjs: SimpleRouteJson[]
+  pathingParams: ConstructorParameters<typeof CapacityPathingSolver5>[0]
+  /** Total overflow of each candidate pathed so far */
+  candidateOverflows: number[] = []
+  selectedCandidateIndex = 0
+  activePathingSolver: CapacityPathingSolver5 | null = null
+
+  constructor({
+    alternativeSimpleRouteJsons,
+    ...pathingParams
+  }: ConstructorParameters<typeof CapacityPathingSolver5>[0] & {
+    alternativeSimpleRouteJsons: SimpleRouteJson[]
+  }) {
+    super()
+    this.MAX_ITERATIONS = 10e6
+    this.pathingParams = pathingParams
+    this.candidateSrjs = [
+      pathingParams.simpleRouteJson,
+      ...alternativeSimpleRouteJsons,
+    ]
+  }
+
+  getTotalOverflow(solver: CapacityPathingSolver5) {
+    let totalOverflow = 0
+    for (const node of solver.nodes) {
+      const used = solver.usedNodeCapacityMap.get(node.capacityMeshNodeId) ?? 0
+      totalOverflow += Math.max(0, used - solver.getTotalCapacity(node))
+    }
+    return totalOverflow
+  }
+
+  selectCandidate() {
+    this.candidateOverflows.forEach((overflow, i) => {
+      if (overflow < this.candidateOverflows[this.selectedCandidateIndex]) {
+        this.selectedCandidateIndex = i
+      }
+    })
+  }
+
+  getSelectedSimpleRouteJson(): SimpleRouteJson {
+    return this.candidateSrjs[this.selectedCandidateIndex]
+  }
+
+  _step() {
+    if (!this.activePathingSolver) {
+      const candidateIndex = this.candidateOverflows.length
+      if (candidateIndex === this.candidateSrjs.length) {
+        this.selectCandidate()
+        this.solved = true
+        return
+      }
+      this.activePathingSolver = new CapacityPathingSolver5({
+        ...this.pathingParams,
+        simpleRouteJson: this.candidateSrjs[candidateIndex],
+      })
+      this.activePathingSolver.deadline = getSubSolverDeadline(
+        this.deadline,
+        this.candidateSrjs.length - candidateIndex,
+        1,
+      )
+      this.activeSubSolver = this.activePathingSolver
+    }
+
+    const solver = this.activePathingSolver
+    solver.step()
+    if (!solver.solved && !solver.failed) return
+    this.candidateOverflows.push(
+      solver.solved && !solver.ranOutOfTime
+        ? this.getTotalOverflow(solver)
+        : Infinity,
+    )
+    this.activePathingSolver = null
+    this.activeSubSolver = null
+    this.progress = this.candidateOverflows.length / this.candidateSrjs.length
+  }
+
+  /** Select from the candidates that were pathed */
+  handleDeadline() {
+    this.selectCandidate()
+    this.activePathingSolver = null
+    this.activeSubSolver = null
+    this.solved = true
+  }
+
+  visualize(): GraphicsObject {
+    return (
+      this.activePathingSolver?.visualize() ?? {
+        title: "Net Tree Selection",
+        points: this.getSelectedSimpleRouteJson().connections.flatMap((c) =>
+          c.pointsToConnect.map((p) => ({ ...p, label: c.name })),
+        ),
+        lines: this.getSelectedSimpleRouteJson().connections.map((c) => ({
+          points: c.pointsToConnect,
+          strokeColor: this.pathingParams.colorMap?.[c.name],
+        })),
+      }
+    )
+  }
+}
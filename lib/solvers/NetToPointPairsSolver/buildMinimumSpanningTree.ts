@@ -247,9 +247,11 @@ interface Edge<T extends Point> {
   weight: number
 }
 
-// Main function to build a minimum spanning tree using Kruskal's algorithm
+// Main function to build a minimum spanning tree using Kruskal's algorithm,
+// edges are weighted by distance unless a getWeight function is given
 export function buildMinimumSpanningTree<T extends Point>(
   points: T[],
+  getWeight?: (a: T, b: T) => number,
 ): Edge<T>[] {
   if (points.length <= 1) {
     return []
@@ -279,7 +281,7 @@ export function buildMinimumSpanningTree<T extends Point>(
       edges.push({
         from: point,
         to: neighbor as T,
-        weight: distance,
+        weight: getWeight ? getWeight(point, neighbor as T) : distance,
       })
     }
   }
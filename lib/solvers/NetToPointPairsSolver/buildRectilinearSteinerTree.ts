@@ -0,0 +1,123 @@
+type Point = { x: number; y: number }
+
+const getManhattanDistance = (a: Point, b: Point) =>
+  Math.abs(a.x - b.x) + Math.abs(a.y - b.y)
+
+/** Prim's algorithm over the complete graph, manhattan distance by default */
+const getSpanningTree = (
+  points: Point[],
+  getWeight: (a: Point, b: Point) => number = getManhattanDistance,
+) => {
+  const edges: Array<[number, number]> = []
+  let cost = 0
+  const inTree = points.map(() => false)
+  const bestDistance = points.map(() => Infinity)
+  const bestParent = points.map(() => -1)
+  bestDistance[0] = 0
+  for (let iteration = 0; iteration < points.length; iteration++) {
+    let next = -1
+    for (let i = 0; i < points.length; i++) {
+      if (inTree[i]) continue
+      if (next === -1 || bestDistance[i] < bestDistance[next]) next = i
+    }
+    inTree[next] = true
+    if (bestParent[next] !== -1) {
+      edges.push([bestParent[next], next])
+      cost += bestDistance[next]
+    }
+    for (let i = 0; i < points.length; i++) {
+      if (inTree[i]) continue
+      const d = getWeight(points[next], points[i])
+      if (d < bestDistance[i]) {
+        bestDistance[i] = d
+        bestParent[i] = next
+      }
+    }
+  }
+  return { edges, cost }
+}
+
+/**
+ * Estimates the rectilinear Steiner minimum tree of the terminals with the
+ * iterated 1-Steiner heuristic: the Hanan grid point that reduces the
+ * spanning tree the most is added until no point helps. Steiner points that
+ * end up with two or fewer neighbors are removed, they don't shorten the tree.
+ *
+ * The Steiner points are chosen by manhattan distance, getEdgeWeight (e.g. an
+ * estimated routing cost) only weights the spanning tree over the terminals
+ * and the chosen Steiner points.
+ *
+ * Point indices of the edges below terminals.length are terminals, the rest
+ * index into steinerPoints
+ */
+export function buildRectilinearSteinerTree(
+  terminals: Point[],
+  opts: {
+    isValidSteinerPoint?: (point: Point) => boolean
+    getEdgeWeight?: (a: Point, b: Point) => number
+  } = {},
+): { steinerPoints: Point[]; edges: Array<[number, number]> } {
+  if (terminals.length <= 2) {
+    return {
+      steinerPoints: [],
+      edges: terminals.length === 2 ? [[0, 1]] : [],
+    }
+  }
+
+  const pointKeys = new Set(terminals.map((p) => `${p.x},${p.y}`))
+  const xs = Array.from(new Set(terminals.map((p) => p.x)))
+  const ys = Array.from(new Set(terminals.map((p) => p.y)))
+  const candidates: Point[] = []
+  for (const x of xs) {
+    for (const y of ys) {
+      if (pointKeys.has(`${x},${y}`)) continue
+      if (opts.isValidSteinerPoint && !opts.isValidSteinerPoint({ x, y })) {
+        continue
+      }
+      candidates.push({ x, y })
+    }
+  }
+
+  let steinerPoints: Point[] = []
+  let tree = getSpanningTree(terminals)
+
+  // At most n - 2 Steiner points are useful
+  while (steinerPoints.length < terminals.length - 2) {
+    let bestCandidate: Point | null = null
+    let bestCost = tree.cost
+    for (const candidate of candidates) {
+      if (steinerPoints.includes(candidate)) continue
+      const { cost } = getSpanningTree([
+        ...terminals,
+        ...steinerPoints,
+        candidate,
+      ])
+      if (cost < bestCost - 1e-9) {
+        bestCost = cost
+        bestCandidate = candidate
+      }
+    }
+    if (!bestCandidate) break
+    steinerPoints.push(bestCandidate)
+
+    // Removing a Steiner point never lengthens the tree, so this terminates
+    while (true) {
+      tree = getSpanningTree([...terminals, ...steinerPoints])
+      const degree = [...terminals, ...steinerPoints].map(() => 0)
+      for (const [a, b] of tree.edges) {
+        degree[a]++
+        degree[b]++
+      }
+      const keptSteinerPoints = steinerPoints.filter(
+        (_, i) => degree[terminals.length + i] > 2,
+      )
+      if (keptSteinerPoints.length === steinerPoints.length) break
+      steinerPoints = keptSteinerPoints
+    }
+  }
+
+  if (opts.getEdgeWeight) {
+    tree = getSpanningTree([...terminals, ...steinerPoints], opts.getEdgeWeight)
+  }
+  return { steinerPoints, edges: tree.edges }
+}
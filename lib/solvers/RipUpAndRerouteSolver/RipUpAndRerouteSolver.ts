@@ -0,0 +1,751 @@
+import type { GraphicsObject } from "graphics-debug"
+import type { ConnectivityMap } from "circuit-json-to-connectivity-map"
+import type {
+  CapacityMeshNode,
+  CapacityMeshNodeId,
+  Keepout,
+  Obstacle,
+} from "lib/types"
+import type {
+  HighDensityIntraNodeRoute,
+  NodeWithPortPoints,
+  PortPoint,
+  TraceParams,
+} from "lib/types/high-density-types"
+import type { NodePortSegment } from "lib/types/capacity-edges-to-port-segments-types"
+import { BaseSolver } from "../BaseSolver"
+import { CapacitySegmentToPointSolver } from "../CapacityMeshSolver/CapacitySegmentToPointSolver"
+import { safeTransparentize } from "../colors"
+import { HyperSingleIntraNodeSolver } from "../HyperHighDensitySolver/HyperSingleIntraNodeSolver"
+import { areNodesBordering } from "lib/utils/areNodesBordering"
+import { combineVisualizations } from "lib/utils/combineVisualizations"
+import { mergeRouteSegments } from "lib/utils/mergeRouteSegments"
+import { doesRectOverlapObstacle } from "lib/utils/obstacle-shapes"
+import { getSubSolverDeadline } from "lib/utils/getSubSolverDeadline"
+
+const EPSILON = 1e-6
+
+export interface FailedNode {
+  nodeWithPortPoints: NodeWithPortPoints
+  error: string | null
+}
+
+interface Region {
+  nodeIds: Set<CapacityMeshNodeId>
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+}
+
+interface Attempt {
+  failedNode: FailedNode
+  region: Region
+  expansions: number
+  /**
+   * The region's nodes with the port points on the edges between them
+   * assigned again, they're solved one by one before the region is solved
+   * as a single node
+   */
+  memberNodes: NodeWithPortPoints[]
+  memberRoutes: HighDensityIntraNodeRoute[][]
+  isMerged: boolean
+  deadline?: number
+}
+
+const getPortPointKey = (p: PortPoint) =>
+  `${p.connectionName}:${p.x.toFixed(4)},${p.y.toFixed(4)},${p.z}`
+
+const getNodeBounds = (node: NodeWithPortPoints) => ({
+  minX: node.center.x - node.width / 2,
+  maxX: node.center.x + node.width / 2,
+  minY: node.center.y - node.height / 2,
+  maxY: node.center.y + node.height / 2,
+})
+
+/**
+ * Recovers high density nodes that couldn't be solved by merging them with
+ * bordering nodes into a larger rectangular region and ripping up the routes
+ * inside the region.
+ *
+ * The port points on the edges between the region's nodes are assigned
+ * again with the CapacitySegmentToPointSolver and the nodes are re-solved
+ * one by one. If one of them fails the region is solved as a single node,
+ * the port points between its nodes are dropped so the connections passing
+ * through are rerouted freely inside the region. The region's outer port
+ * points are kept, the neighboring nodes' routes end on them.
+ *
+ * Each failed node is retried with a growing region, and passes over the
+ * failed nodes are repeated until the failure count stops decreasing.
+ */
+export class RipUpAndRerouteSolver extends BaseSolver {
+  nodeMap: Map<CapacityMeshNodeId, NodeWithPortPoints>
+  capacityNodeMap: Map<CapacityMeshNodeId, CapacityMeshNode>
+  routesByNodeId: Map<CapacityMeshNodeId, HighDensityIntraNodeRoute[]>
+  routes: HighDensityIntraNodeRoute[]
+  failedNodes: FailedNode[]
+  colorMap: Record<string, string>
+  connMap?: ConnectivityMap
+  layerCount: number
+  traceParamsMap?: Record<string, TraceParams>
+  obstacles: Obstacle[]
+  keepouts: Keepout[]
+  seed: number
+  viaBudgetsByNodeId?: Map<CapacityMeshNodeId, Record<string, number>>
+
+  /** Max number of times a region is grown before giving up on a node */
+  MAX_EXPANSIONS = 3
+  MAX_PASSES = 3
+  /** An attempt may use this many times its even share of the remaining time */
+  ATTEMPT_TIME_SHARE_FACTOR = 3
+
+  pass = 0
+  /** Number of failed nodes when the current pass started */
+  passStartFailureCount = 0
+  unprocessedFailedNodes: FailedNode[] = []
+  failedNodesThisPass: FailedNode[] = []
+  rerouteCount = 0
+
+  activeSubSolver: HyperSingleIntraNodeSolver | null = null
+  activeAttempt: Attempt | null = null
+
+  solvedRegions: NodeWithPortPoints[] = []
+
+  constructor(params: {
+    nodesWithPortPoints: NodeWithPortPoints[]
+    /** Used to find empty nodes and avoid merging across obstacles */
+    capacityNodes?: CapacityMeshNode[]
+    routesByNodeId: Map<CapacityMeshNodeId, HighDensityIntraNodeRoute[]>
+    failedNodes: FailedNode[]
+    colorMap?: Record<string, string>
+    connMap?: ConnectivityMap
+    layerCount?: number
+    traceParamsMap?: Record<string, TraceParams>
+    obstacles?: Obstacle[]
+    keepouts?: Keepout[]
+    /** Seed of the node solvers' connection orderings */
+    seed?: number
+    /** See getViaBudgetsByNodeId */
+    viaBudgetsByNodeId?: Map<CapacityMeshNodeId, Record<string, number>>
+  }) {
+    super()
+    this.MAX_ITERATIONS = 10e6
+    this.colorMap = params.colorMap ?? {}
+    this.connMap = params.connMap
+    this.layerCount = params.layerCount ?? 2
+    this.traceParamsMap = params.traceParamsMap
+    this.obstacles = params.obstacles ?? []
+    this.keepouts = params.keepouts ?? []
+    this.seed = params.seed ?? 0
+    this.viaBudgetsByNodeId =
+      params.viaBudgetsByNodeId && new Map(params.viaBudgetsByNodeId)
+
+    this.capacityNodeMap = new Map(
+      (params.capacityNodes ?? []).map((n) => [n.capacityMeshNodeId, n]),
+    )
+    this.nodeMap = new Map()
+    for (const node of params.capacityNodes ?? []) {
+      this.nodeMap.set(node.capacityMeshNodeId, {
+        capacityMeshNodeId: node.capacityMeshNodeId,
+        center: node.center,
+        width: node.width,
+        height: node.height,
+        portPoints: [],
+      })
+    }
+    for (const node of params.nodesWithPortPoints) {
+      this.nodeMap.set(node.capacityMeshNodeId, node)
+    }
+
+    this.routesByNodeId = new Map(params.routesByNodeId)
+    this.routes = Array.from(this.routesByNodeId.values()).flat()
+    this.failedNodes = [...params.failedNodes]
+    this.unprocessedFailedNodes = [...this.failedNodes]
+    this.passStartFailureCount = this.failedNodes.length
+  }
+
+  /**
+   * Nodes that contain obstacles or use different layers can't be merged,
+   * the high density solvers don't know about obstacles.
+   */
+  canMergeNode(nodeId: CapacityMeshNodeId, rootNodeId: CapacityMeshNodeId) {
+    const capacityNode = this.capacityNodeMap.get(nodeId)
+    if (!capacityNode) return true
+    if (capacityNode._containsObstacle || capacityNode._containsTarget) {
+      return false
+    }
+    const rootCapacityNode = this.capacityNodeMap.get(rootNodeId)
+    if (!rootCapacityNode) return true
+    return (
+      capacityNode.availableZ.join(",") ===
+      rootCapacityNode.availableZ.join(",")
+    )
+  }
+
+  getRegionForNode(nodeId: CapacityMeshNodeId): Region {
+    const node = this.nodeMap.get(nodeId)!
+    return { nodeIds: new Set([nodeId]), ...getNodeBounds(node) }
+  }
+
+  /**
+   * Get the nodes exactly tiling the bounds, null if the bounds aren't
+   * covered exactly by mergeable nodes
+   */
+  getNodeIdsTilingBounds(
+    bounds: Omit<Region, "nodeIds">,
+    rootNodeId: CapacityMeshNodeId,
+    currentNodeIds: Set<CapacityMeshNodeId>,
+  ): Set<CapacityMeshNodeId> | null {
+    const nodeIds = new Set<CapacityMeshNodeId>()
+    let coveredArea = 0
+    for (const node of this.nodeMap.values()) {
+      const nb = getNodeBounds(node)
+      const overlapWidth =
+        Math.min(nb.maxX, bounds.maxX) - Math.max(nb.minX, bounds.minX)
+      const overlapHeight =
+        Math.min(nb.maxY, bounds.maxY) - Math.max(nb.minY, bounds.minY)
+      if (overlapWidth <= EPSILON || overlapHeight <= EPSILON) continue
+      if (
+        nb.minX < bounds.minX - EPSILON ||
+        nb.maxX > bounds.maxX + EPSILON ||
+        nb.minY < bounds.minY - EPSILON ||
+        nb.maxY > bounds.maxY + EPSILON
+      ) {
+        return null
+      }
+      if (
+        !currentNodeIds.has(node.capacityMeshNodeId) &&
+        !this.canMergeNode(node.capacityMeshNodeId, rootNodeId)
+      ) {
+        return null
+      }
+      nodeIds.add(node.capacityMeshNodeId)
+      coveredArea += node.width * node.height
+    }
+    const boundsArea = (bounds.maxX - bounds.minX) * (bounds.maxY - bounds.minY)
+    if (
+      Math.abs(coveredArea - boundsArea) >
+      EPSILON * Math.max(1, boundsArea)
+    ) {
+      return null
+    }
+    return nodeIds
+  }
+
+  /**
+   * Combine the port points of the region's nodes. Returns null if the
+   * region can't be routed as a single node, e.g. if it would cut off the
+   * end of a connection or a connection would enter it more than once.
+   */
+  getRegionPortPoints(nodeIds: Set<CapacityMeshNodeId>): PortPoint[] | null {
+    const occurrences = new Map<
+      string,
+      { portPoint: PortPoint; nodeIds: CapacityMeshNodeId[] }
+    >()
+    const connectionPointCountInNode = new Map<string, number>()
+    const teePointKeys = new Set<string>()
+    for (const nodeId of nodeIds) {
+      for (const portPoint of this.nodeMap.get(nodeId)!.portPoints) {
+        if (portPoint.teesOffConnectionName) {
+          teePointKeys.add(
+            getPortPointKey({
+              ...portPoint,
+              connectionName: portPoint.teesOffConnectionName,
+            }),
+          )
+        }
+        const key = getPortPointKey(portPoint)
+        if (!occurrences.has(key)) {
+          occurrences.set(key, { portPoint, nodeIds: [] })
+        }
+        occurrences.get(key)!.nodeIds.push(nodeId)
+        const countKey = `${nodeId}:${portPoint.connectionName}`
+        connectionPointCountInNode.set(
+          countKey,
+          (connectionPointCountInNode.get(countKey) ?? 0) + 1,
+        )
+      }
+    }
+
+    const portPoints: PortPoint[] = []
+    for (const { portPoint, nodeIds: sharedBy } of occurrences.values()) {
+      if (sharedBy.length === 1) {
+        portPoints.push(portPoint)
+        continue
+      }
+      if (sharedBy.length > 2) return null
+      // A connection ending inside one of the nodes can't have its port
+      // point removed, the route stitching relies on it
+      const passesThroughBoth = sharedBy.every(
+        (nodeId) =>
+          connectionPointCountInNode.get(
+            `${nodeId}:${portPoint.connectionName}`,
+          )! >= 2,
+      )
+      if (!passesThroughBoth) return null
+      // A connection tees off the copper at this point, it has to stay on the
+      // region's boundary
+      if (teePointKeys.has(getPortPointKey(portPoint))) return null
+    }
+
+    const pointCountByConnection = new Map<string, number>()
+    for (const { connectionName } of portPoints) {
+      pointCountByConnection.set(
+        connectionName,
+        (pointCountByConnection.get(connectionName) ?? 0) + 1,
+      )
+    }
+    if (Array.from(pointCountByConnection.values()).some((c) => c > 2)) {
+      return null
+    }
+    return portPoints
+  }
+
+  /**
+   * Grow the region by the bordering node that results in the smallest
+   * valid rectangular region
+   */
+  expandRegion(region: Region, rootNodeId: CapacityMeshNodeId): Region | null {
+    const regionRect = {
+      center: {
+        x: (region.minX + region.maxX) / 2,
+        y: (region.minY + region.maxY) / 2,
+      },
+      width: region.maxX - region.minX,
+      height: region.maxY - region.minY,
+    }
+    const candidates: Array<Region & { area: number }> = []
+    for (const node of this.nodeMap.values()) {
+      if (region.nodeIds.has(node.capacityMeshNodeId)) continue
+      if (!areNodesBordering(node, regionRect)) continue
+      const nb = getNodeBounds(node)
+      const bounds = {
+        minX: Math.min(region.minX, nb.minX),
+        maxX: Math.max(region.maxX, nb.maxX),
+        minY: Math.min(region.minY, nb.minY),
+        maxY: Math.max(region.maxY, nb.maxY),
+      }
+      candidates.push({
+        ...bounds,
+        nodeIds: region.nodeIds,
+        area: (bounds.maxX - bounds.minX) * (bounds.maxY - bounds.minY),
+      })
+    }
+    candidates.sort((a, b) => a.area - b.area)
+
+    for (const candidate of candidates) {
+      const nodeIds = this.getNodeIdsTilingBounds(
+        candidate,
+        rootNodeId,
+        region.nodeIds,
+      )
+      if (!nodeIds) continue
+      if (!this.getRegionPortPoints(nodeIds)) continue
+      return { ...candidate, nodeIds }
+    }
+    return null
+  }
+
+  getRegionAsNode(region: Region): NodeWithPortPoints {
+    return {
+      capacityMeshNodeId: `rr${this.rerouteCount}`,
+      center: {
+        x: (region.minX + region.maxX) / 2,
+        y: (region.minY + region.maxY) / 2,
+      },
+      width: region.maxX - region.minX,
+      height: region.maxY - region.minY,
+      portPoints: this.getRegionPortPoints(region.nodeIds) ?? [],
+    }
+  }
+
+  /** Nodes without budgets give their via limited connections no extra vias */
+  getNodeViaBudgets(nodeId: CapacityMeshNodeId) {
+    return (
+      this.viaBudgetsByNodeId && (this.viaBudgetsByNodeId.get(nodeId) ?? {})
+    )
+  }
+
+  /**
+   * A connection may use the vias of every node of the region it passes
+   * through
+   */
+  getRegionViaBudgets(region: Region): Record<string, number> | undefined {
+    if (!this.viaBudgetsByNodeId) return undefined
+    const regionBudgets: Record<string, number> = {}
+    for (const nodeId of region.nodeIds) {
+      const nodeBudgets = this.viaBudgetsByNodeId.get(nodeId) ?? {}
+      for (const [connectionName, budget] of Object.entries(nodeBudgets)) {
+        regionBudgets[connectionName] =
+          (regionBudgets[connectionName] ?? 0) + budget
+      }
+    }
+    return regionBudgets
+  }
+
+  /**
+   * Assign the port points on the edges between the region's nodes again,
+   * the connections crossing them get new positions and layers
+   */
+  getRepartitionedNodes(
+    region: Region,
+    rootNodeId: CapacityMeshNodeId,
+  ): NodeWithPortPoints[] {
+    const memberNodes = Array.from(region.nodeIds).map(
+      (nodeId) => this.nodeMap.get(nodeId)!,
+    )
+    const availableZ =
+      this.capacityNodeMap.get(rootNodeId)?.availableZ ??
+      Array.from({ length: this.layerCount }, (_, z) => z)
+    const internalPortPointKeys = new Set<string>()
+    const segmentNodeIds = new Map<NodePortSegment, CapacityMeshNodeId[]>()
+    for (const [i, nodeA] of memberNodes.entries()) {
+      for (const nodeB of memberNodes.slice(i + 1)) {
+        const keysInB = new Set(nodeB.portPoints.map(getPortPointKey))
+        const sharedPortPoints = nodeA.portPoints.filter((p) =>
+          keysInB.has(getPortPointKey(p)),
+        )
+        if (sharedPortPoints.length === 0) continue
+        for (const portPoint of sharedPortPoints) {
+          internalPortPointKeys.add(getPortPointKey(portPoint))
+        }
+        // The edge between two bordering nodes is the overlap of their bounds
+        const [a, b] = [getNodeBounds(nodeA), getNodeBounds(nodeB)]
+        const segment: NodePortSegment = {
+          capacityMeshNodeId: nodeA.capacityMeshNodeId,
+          start: { x: Math.max(a.minX, b.minX), y: Math.max(a.minY, b.minY) },
+          end: { x: Math.min(a.maxX, b.maxX), y: Math.min(a.maxY, b.maxY) },
+          availableZ,
+          connectionNames: sharedPortPoints.map((p) => p.connectionName),
+        }
+        segmentNodeIds.set(segment, [
+          nodeA.capacityMeshNodeId,
+          nodeB.capacityMeshNodeId,
+        ])
+      }
+    }
+
+    const segmentToPointSolver = new CapacitySegmentToPointSolver({
+      segments: Array.from(segmentNodeIds.keys()),
+      colorMap: this.colorMap,
+      traceParamsMap: this.traceParamsMap,
+      nodes: [],
+    })
+    segmentToPointSolver.solve()
+
+    const assignedPortPoints = new Map<CapacityMeshNodeId, PortPoint[]>()
+    for (const segment of segmentToPointSolver.solvedSegments) {
+      for (const nodeId of segmentNodeIds.get(segment)!) {
+        assignedPortPoints.set(nodeId, [
+          ...(assignedPortPoints.get(nodeId) ?? []),
+          ...segment.assignedPoints.map(({ connectionName, point }) => ({
+            ...point,
+            connectionName,
+          })),
+        ])
+      }
+    }
+    return memberNodes.map((node) => ({
+      ...node,
+      portPoints: [
+        ...node.portPoints.filter(
+          (p) => !internalPortPointKeys.has(getPortPointKey(p)),
+        ),
+        ...(assignedPortPoints.get(node.capacityMeshNodeId) ?? []),
+      ],
+    }))
+  }
+
+  createNodeSolver(
+    node: NodeWithPortPoints,
+    viaBudgets: Record<string, number> | undefined,
+    deadline: number | undefined,
+  ) {
+    const nodeSolver = new HyperSingleIntraNodeSolver({
+      nodeWithPortPoints: node,
+      colorMap: this.colorMap,
+      connMap: this.connMap,
+      layerCount: this.layerCount,
+      traceParamsMap: this.traceParamsMap,
+      obstacles: this.obstacles.filter((o) => doesRectOverlapObstacle(node, o)),
+      keepouts: this.keepouts.filter((k) => doesRectOverlapObstacle(node, k)),
+      seed: this.seed,
+      viaBudgets,
+    })
+    nodeSolver.deadline = deadline
+    return nodeSolver
+  }
+
+  /**
+   * Start rerouting the failed node in the next larger region, returns
+   * false if the region can't grow any further
+   */
+  startAttempt(failedNode: FailedNode, region: Region, expansions: number) {
+    const rootNodeId = failedNode.nodeWithPortPoints.capacityMeshNodeId
+    const expandedRegion = this.expandRegion(region, rootNodeId)
+    if (!expandedRegion) return false
+    const memberNodes = this.getRepartitionedNodes(expandedRegion, rootNodeId)
+    const deadline = getSubSolverDeadline(
+      this.deadline,
+      this.unprocessedFailedNodes.length + 1,
+      this.ATTEMPT_TIME_SHARE_FACTOR,
+    )
+    this.activeAttempt = {
+      failedNode,
+      region: expandedRegion,
+      expansions: expansions + 1,
+      memberNodes,
+      memberRoutes: [],
+      isMerged: false,
+      deadline,
+    }
+    this.activeSubSolver = this.createNodeSolver(
+      memberNodes[0],
+      this.getNodeViaBudgets(memberNodes[0].capacityMeshNodeId),
+      deadline,
+    )
+    return true
+  }
+
+  /** Continue the attempt with its next node, or the region as a whole */
+  continueAttempt(attempt: Attempt) {
+    const { region, memberNodes, memberRoutes, isMerged, deadline } = attempt
+    if (isMerged) {
+      this.activeSubSolver = this.createNodeSolver(
+        this.getRegionAsNode(region),
+        this.getRegionViaBudgets(region),
+        deadline,
+      )
+      return
+    }
+    const nextNode = memberNodes[memberRoutes.length]
+    this.activeSubSolver = this.createNodeSolver(
+      nextNode,
+      this.getNodeViaBudgets(nextNode.capacityMeshNodeId),
+      deadline,
+    )
+  }
+
+  /**
+   * Stop rerouting, regions are committed as a whole so the routes and failed
+   * nodes are consistent
+   */
+  handleDeadline() {
+    this.activeSubSolver = null
+    this.activeAttempt = null
+    this.solved = true
+  }
+
+  /** Replace the routes of the region's nodes with the new routes */
+  commitRegion(
+    region: Region,
+    rootNodeId: CapacityMeshNodeId,
+    routes: HighDensityIntraNodeRoute[],
+  ) {
+    const regionNode = this.getRegionAsNode(region)
+    const regionViaBudgets = this.getRegionViaBudgets(region)
+    this.rerouteCount++
+
+    const memberCapacityNodes = Array.from(region.nodeIds)
+      .map((nodeId) => this.capacityNodeMap.get(nodeId))
+      .filter((n): n is CapacityMeshNode => Boolean(n))
+    const rootCapacityNode = this.capacityNodeMap.get(rootNodeId)
+    if (rootCapacityNode) {
+      this.capacityNodeMap.set(regionNode.capacityMeshNodeId, {
+        ...rootCapacityNode,
+        capacityMeshNodeId: regionNode.capacityMeshNodeId,
+        center: regionNode.center,
+        width: regionNode.width,
+        height: regionNode.height,
+        _containsObstacle: memberCapacityNodes.some((n) => n._containsObstacle),
+        _containsTarget: memberCapacityNodes.some((n) => n._containsTarget),
+      })
+    }
+    for (const nodeId of region.nodeIds) {
+      this.nodeMap.delete(nodeId)
+      this.routesByNodeId.delete(nodeId)
+      this.viaBudgetsByNodeId?.delete(nodeId)
+    }
+    if (regionViaBudgets) {
+      this.viaBudgetsByNodeId?.set(
+        regionNode.capacityMeshNodeId,
+        regionViaBudgets,
+      )
+    }
+    this.nodeMap.set(regionNode.capacityMeshNodeId, regionNode)
+    this.routesByNodeId.set(regionNode.capacityMeshNodeId, routes)
+    this.routes = Array.from(this.routesByNodeId.values()).flat()
+    this.solvedRegions.push(regionNode)
+    this.removeAbsorbedFailedNodes(region)
+  }
+
+  /** Replace the routes and port points of the region's re-solved nodes */
+  commitMemberNodes(
+    region: Region,
+    memberNodes: NodeWithPortPoints[],
+    memberRoutes: HighDensityIntraNodeRoute[][],
+  ) {
+    this.solvedRegions.push(this.getRegionAsNode(region))
+    this.rerouteCount++
+    for (const [i, node] of memberNodes.entries()) {
+      this.nodeMap.set(node.capacityMeshNodeId, node)
+      this.routesByNodeId.set(node.capacityMeshNodeId, memberRoutes[i])
+    }
+    this.routes = Array.from(this.routesByNodeId.values()).flat()
+    this.removeAbsorbedFailedNodes(region)
+  }
+
+  /** Failed nodes absorbed by a solved region are solved too */
+  removeAbsorbedFailedNodes(region: Region) {
+    const isAbsorbed = (f: FailedNode) =>
+      region.nodeIds.has(f.nodeWithPortPoints.capacityMeshNodeId)
+    this.unprocessedFailedNodes = this.unprocessedFailedNodes.filter(
+      (f) => !isAbsorbed(f),
+    )
+    this.failedNodesThisPass = this.failedNodesThisPass.filter(
+      (f) => !isAbsorbed(f),
+    )
+    this.failedNodes = this.failedNodes.filter((f) => !isAbsorbed(f))
+  }
+
+  _step() {
+    if (this.activeSubSolver && this.activeAttempt) {
+      this.activeSubSolver.step()
+      const attempt = this.activeAttempt
+      const { failedNode, region, expansions, memberNodes, memberRoutes } =
+        attempt
+      if (this.activeSubSolver.solved) {
+        const routes = this.activeSubSolver.solvedRoutes
+        this.activeSubSolver = null
+        if (!attempt.isMerged) {
+          memberRoutes.push(routes)
+          if (memberRoutes.length < memberNodes.length) {
+            this.continueAttempt(attempt)
+            return
+          }
+          this.activeAttempt = null
+          this.commitMemberNodes(region, memberNodes, memberRoutes)
+          return
+        }
+        this.activeAttempt = null
+        this.commitRegion(
+          region,
+          failedNode.nodeWithPortPoints.capacityMeshNodeId,
+          routes,
+        )
+      } else if (this.activeSubSolver.failed) {
+        this.activeSubSolver = null
+        if (!attempt.isMerged) {
+          attempt.isMerged = true
+          this.continueAttempt(attempt)
+          return
+        }
+        this.activeAttempt = null
+        if (
+          expansions >= this.MAX_EXPANSIONS ||
+          !this.startAttempt(failedNode, region, expansions)
+        ) {
+          this.failedNodesThisPass.push(failedNode)
+        }
+      }
+      return
+    }
+
+    const failedNode = this.unprocessedFailedNodes.pop()
+    if (failedNode) {
+      const nodeId = failedNode.nodeWithPortPoints.capacityMeshNodeId
+      if (
+        !this.nodeMap.has(nodeId) ||
+        !this.startAttempt(failedNode, this.getRegionForNode(nodeId), 0)
+      ) {
+        this.failedNodesThisPass.push(failedNode)
+      }
+      return
+    }
+
+    // End of a pass, stop when it didn't reduce the number of failed nodes
+    const failureCountDecreased =
+      this.failedNodesThisPass.length < this.passStartFailureCount
+    this.failedNodes = this.failedNodesThisPass
+    this.failedNodesThisPass = []
+    this.pass++
+    if (
+      !failureCountDecreased ||
+      this.failedNodes.length === 0 ||
+      this.pass >= this.MAX_PASSES
+    ) {
+      this.solved = true
+      return
+    }
+    this.unprocessedFailedNodes = [...this.failedNodes]
+    this.passStartFailureCount = this.failedNodes.length
+  }
+
+  visualize(): GraphicsObject {
+    let graphics: Required<GraphicsObject> = {
+      lines: [],
+      points: [],
+      rects: [],
+      circles: [],
+      coordinateSystem: "cartesian",
+      title: `Rip Up And Reroute (${this.solvedRegions.length} rerouted, ${this.failedNodes.length} failed)`,
+    }
+
+    for (const route of this.routes) {
+      const mergedSegments = mergeRouteSegments(
+        route.route,
+        route.connectionName,
+        this.colorMap[route.connectionName],
+      )
+      for (const segment of mergedSegments) {
+        graphics.lines.push({
+          points: segment.points,
+          label: segment.connectionName,
+          strokeColor:
+            segment.z === 0
+              ? segment.color
+              : safeTransparentize(segment.color, 0.75),
+          strokeWidth: route.traceThickness,
+          strokeDash: segment.z !== 0 ? "10, 5" : undefined,
+        })
+      }
+      for (const via of route.vias) {
+        graphics.circles.push({
+          center: via,
+          radius: route.viaDiameter / 2,
+          fill: this.colorMap[route.connectionName],
+          label: `${route.connectionName} via`,
+        })
+      }
+    }
+
+    for (const region of this.solvedRegions) {
+      graphics.rects.push({
+        center: region.center,
+        width: region.width,
+        height: region.height,
+        fill: "rgba(0,255,0,0.1)",
+        stroke: "green",
+        label: `${region.capacityMeshNodeId} (rerouted)`,
+      })
+    }
+    for (const { nodeWithPortPoints, error } of this.failedNodes) {
+      graphics.rects.push({
+        center: nodeWithPortPoints.center,
+        width: nodeWithPortPoints.width,
+        height: nodeWithPortPoints.height,
+        fill: "rgba(255,0,0,0.1)",
+        stroke: "red",
+        label: `${nodeWithPortPoints.capacityMeshNodeId} (failed)\n${error ?? ""}`,
+      })
+    }
+
+    if (this.activeSubSolver) {
+      graphics = combineVisualizations(
+        graphics,
+        this.activeSubSolver.visualize(),
+      ) as Required<GraphicsObject>
+    }
+    return graphics
+  }
+}
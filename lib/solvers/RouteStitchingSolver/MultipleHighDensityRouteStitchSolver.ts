@@ -1,10 +1,14 @@
 import { SimpleRouteConnection } from "lib/types"
-import { HighDensityIntraNodeRoute } from "lib/types/high-density-types"
+import {
+  HighDensityIntraNodeRoute,
+  TraceParams,
+} from "lib/types/high-density-types"
 import { BaseSolver } from "../BaseSolver"
 import { mapLayerNameToZ } from "lib/utils/mapLayerNameToZ"
 import { SingleHighDensityRouteStitchSolver } from "./SingleHighDensityRouteStitchSolver"
 import { GraphicsObject } from "graphics-debug"
 import { safeTransparentize } from "../colors"
+import { addTeeJunctions } from "./addTeeJunctions"
 
 export type UnsolvedRoute = {
   connectionName: string
@@ -17,25 +21,44 @@ export class MultipleHighDensityRouteStitchSolver extends BaseSolver {
   unsolvedRoutes: UnsolvedRoute[]
   activeSolver: SingleHighDensityRouteStitchSolver | null = null
   mergedHdRoutes: HighDensityIntraNodeRoute[] = []
+  traceParamsMap: Record<string, TraceParams>
+  teeJunctions: boolean
 
   constructor(opts: {
     connections: SimpleRouteConnection[]
     hdRoutes: HighDensityIntraNodeRoute[]
     layerCount: number
+    traceParamsMap?: Record<string, TraceParams>
+    /**
+     * Let the branches of nets routed as trees end where they first touch
+     * the net's existing copper, see addTeeJunctions
+     */
+    teeJunctions?: boolean
+    /**
+     * Where the connections that were routed to the copper of another
+     * connection of their net end, see getTeePointsByConnectionName
+     */
+    teePointsByConnectionName?: Map<string, { x: number; y: number; z: number }>
   }) {
     super()
-    this.unsolvedRoutes = opts.connections.map((c) => ({
-      connectionName: c.name,
-      hdRoutes: opts.hdRoutes.filter((r) => r.connectionName === c.name),
-      start: {
-        ...c.pointsToConnect[0],
-        z: mapLayerNameToZ(c.pointsToConnect[0].layer, opts.layerCount),
-      },
-      end: {
-        ...c.pointsToConnect[1],
-        z: mapLayerNameToZ(c.pointsToConnect[1].layer, opts.layerCount),
-      },
-    }))
+    this.traceParamsMap = opts.traceParamsMap ?? {}
+    this.teeJunctions = opts.teeJunctions ?? false
+    this.unsolvedRoutes = opts.connections
+      .map((c) => ({
+        connectionName: c.name,
+        hdRoutes: opts.hdRoutes.filter((r) => r.connectionName === c.name),
+        start: {
+          ...c.pointsToConnect[0],
+          z: mapLayerNameToZ(c.pointsToConnect[0].layer, opts.layerCount),
+        },
+        end: opts.teePointsByConnectionName?.get(c.name) ?? {
+          ...c.pointsToConnect[1],
+          z: mapLayerNameToZ(c.pointsToConnect[1].layer, opts.layerCount),
+        },
+      }))
+      // Connections without any routes weren't routed, stitching would draw a
+      // straight line between their points
+      .filter((r) => r.hdRoutes.length > 0)
     this.MAX_ITERATIONS = 100e3
   }
 
@@ -55,6 +78,9 @@ export class MultipleHighDensityRouteStitchSolver extends BaseSolver {
     const unsolvedRoute = this.unsolvedRoutes.pop()
 
     if (!unsolvedRoute) {
+      if (this.teeJunctions) {
+        this.mergedHdRoutes = addTeeJunctions(this.mergedHdRoutes)
+      }
       this.solved = true
       return
     }
@@ -64,6 +90,7 @@ export class MultipleHighDensityRouteStitchSolver extends BaseSolver {
       hdRoutes: unsolvedRoute.hdRoutes,
       start: unsolvedRoute.start,
       end: unsolvedRoute.end,
+      traceParams: this.traceParamsMap[unsolvedRoute.connectionName],
     })
   }
 
@@ -1,4 +1,7 @@
-import { HighDensityIntraNodeRoute } from "lib/types/high-density-types"
+import {
+  HighDensityIntraNodeRoute,
+  TraceParams,
+} from "lib/types/high-density-types"
 import { BaseSolver } from "../BaseSolver"
 import { GraphicsObject } from "graphics-debug"
 import { distance } from "@tscircuit/math-utils"
@@ -14,6 +17,7 @@ export class SingleHighDensityRouteStitchSolver extends BaseSolver {
     hdRoutes: HighDensityIntraNodeRoute[]
     start: { x: number; y: number; z: number }
     end: { x: number; y: number; z: number }
+    traceParams?: TraceParams
   }) {
     super()
     this.remainingHdRoutes = [...opts.hdRoutes]
@@ -27,8 +31,13 @@ export class SingleHighDensityRouteStitchSolver extends BaseSolver {
         },
       ],
       vias: [],
-      viaDiameter: opts.hdRoutes?.[0]?.viaDiameter ?? 0.6,
-      traceThickness: opts.hdRoutes?.[0]?.traceThickness ?? 0.15,
+      viaDiameter:
+        opts.traceParams?.viaDiameter ?? opts.hdRoutes?.[0]?.viaDiameter ?? 0.6,
+      traceThickness:
+        opts.traceParams?.traceThickness ??
+        opts.hdRoutes?.[0]?.traceThickness ??
+        0.15,
+      clearance: opts.traceParams?.clearance ?? opts.hdRoutes?.[0]?.clearance,
     }
     this.start = opts.start
     this.end = opts.end
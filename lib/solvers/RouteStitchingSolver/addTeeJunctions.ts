@@ -0,0 +1,213 @@
+import type { HighDensityRoute } from "lib/types/high-density-types"
+import { distance } from "@tscircuit/math-utils"
+import {
+  getClosestPointOnSegment,
+  getSegmentsClosestApproach,
+} from "lib/utils/closest-approach"
+import {
+  getOriginalConnectionName,
+  getPointPairIndex,
+} from "lib/utils/getCompletionReport"
+
+type Point = { x: number; y: number }
+
+const EPSILON = 1e-6
+
+const getPointKey = (p: Point) => `${p.x.toFixed(4)},${p.y.toFixed(4)}`
+
+/** Keep the vias that sit on one of the route's points */
+const getViasOnRoute = (vias: Point[], route: Point[]) =>
+  vias.filter((via) => route.some((p) => distance(p, via) < EPSILON))
+
+const dedupeConsecutivePoints = <T extends Point & { z: number }>(route: T[]) =>
+  route.filter(
+    (p, i) =>
+      i === 0 || distance(p, route[i - 1]) > EPSILON || p.z !== route[i - 1].z,
+  )
+
+/**
+ * Lets the branches of a net routed as a tree tee off existing copper of the
+ * net. The pairs of a net are processed in the order they were planned, each
+ * pair connects a new point to an already connected point. A branch is cut
+ * where it first touches a route of the net that is already connected to its
+ * end, the touched route is split in two at the junction so the junction is
+ * an endpoint of every route meeting there and stays fixed when simplifying.
+ * A branch that was planned to tee off ends on a point of the touched route,
+ * that route is split there the same way.
+ */
+export const addTeeJunctions = (
+  routes: HighDensityRoute[],
+): HighDensityRoute[] => {
+  const routesByNet = new Map<string, HighDensityRoute[]>()
+  for (const route of routes) {
+    const netName = getOriginalConnectionName(route.connectionName)
+    routesByNet.set(netName, [...(routesByNet.get(netName) ?? []), route])
+  }
+
+  const result: HighDensityRoute[] = []
+  for (const netRoutes of routesByNet.values()) {
+    if (netRoutes.length < 2) {
+      result.push(...netRoutes)
+      continue
+    }
+    netRoutes.sort(
+      (a, b) =>
+        getPointPairIndex(a.connectionName) -
+        getPointPairIndex(b.connectionName),
+    )
+    result.push(...addTeeJunctionsToNet(netRoutes))
+  }
+  return result
+}
+
+const addTeeJunctionsToNet = (netRoutes: HighDensityRoute[]) => {
+  // Which routed points are connected through the placed routes
+  const parent = new Map<string, string>()
+  const find = (key: string): string => {
+    const p = parent.get(key) ?? key
+    if (p === key) return key
+    const root = find(p)
+    parent.set(key, root)
+    return root
+  }
+  const union = (a: Point, b: Point) => {
+    parent.set(find(getPointKey(a)), find(getPointKey(b)))
+  }
+
+  const placedRoutes: HighDensityRoute[] = []
+  for (const branch of netRoutes) {
+    const branchStart = branch.route[0]
+    const branchEnd = branch.route[branch.route.length - 1]
+    // The branch was routed to a point of a placed route (a tee junction)
+    const teeHost = placedRoutes.find((host) =>
+      host.route.some((p) => distance(p, branchEnd) < EPSILON),
+    )
+    const endComponent = find(
+      getPointKey(teeHost ? teeHost.route[0] : branchEnd),
+    )
+    const hosts = placedRoutes.filter(
+      (host) => find(getPointKey(host.route[0])) === endComponent,
+    )
+
+    const junction = findFirstJunction(branch, hosts)
+    if (!junction) {
+      placedRoutes.push(branch)
+      union(branchStart, branchEnd)
+      if (teeHost) {
+        const hostPointIndex = teeHost.route.findIndex(
+          (p) => distance(p, branchEnd) < EPSILON,
+        )
+        splitHost(placedRoutes, teeHost, hostPointIndex, branchEnd, branchEnd.z)
+        union(branchEnd, teeHost.route[0])
+      }
+      continue
+    }
+
+    const { branchSegmentIndex, host, hostSegmentIndex, point } = junction
+    const z = branch.route[branchSegmentIndex].z
+    const branchRoute = dedupeConsecutivePoints([
+      ...branch.route.slice(0, branchSegmentIndex + 1),
+      {
+        ...getClosestPointOnSegment(
+          point,
+          branch.route[branchSegmentIndex],
+          branch.route[branchSegmentIndex + 1],
+        ),
+        z,
+      },
+      { ...point, z },
+    ])
+    placedRoutes.push({
+      ...branch,
+      route: branchRoute,
+      vias: getViasOnRoute(branch.vias, branchRoute),
+    })
+    union(branchStart, point)
+    splitHost(placedRoutes, host, hostSegmentIndex, point, z)
+    union(point, host.route[0])
+  }
+  return placedRoutes
+}
+
+/**
+ * Replace the host in the placed routes by its two halves before and after
+ * the junction on its segment, unless the junction is one of its ends
+ */
+const splitHost = (
+  placedRoutes: HighDensityRoute[],
+  host: HighDensityRoute,
+  hostSegmentIndex: number,
+  point: Point,
+  z: number,
+) => {
+  const hostStart = host.route[0]
+  const hostEnd = host.route[host.route.length - 1]
+  if (
+    distance(point, hostStart) < EPSILON ||
+    distance(point, hostEnd) < EPSILON
+  ) {
+    return
+  }
+  const firstHalf = dedupeConsecutivePoints([
+    ...host.route.slice(0, hostSegmentIndex + 1),
+    { ...point, z },
+  ])
+  const secondHalf = dedupeConsecutivePoints([
+    { ...point, z },
+    ...host.route.slice(hostSegmentIndex + 1),
+  ])
+  placedRoutes.splice(
+    placedRoutes.indexOf(host),
+    1,
+    { ...host, route: firstHalf, vias: getViasOnRoute(host.vias, firstHalf) },
+    {
+      ...host,
+      route: secondHalf,
+      vias: getViasOnRoute(host.vias, secondHalf).filter(
+        (via) => !firstHalf.some((p) => distance(p, via) < EPSILON),
+      ),
+    },
+  )
+}
+
+/**
+ * Walk the branch from its start and find the first segment that touches a
+ * segment of a host on the same layer
+ */
+const findFirstJunction = (
+  branch: HighDensityRoute,
+  hosts: HighDensityRoute[],
+) => {
+  for (let i = 0; i < branch.route.length - 1; i++) {
+    const a1 = branch.route[i]
+    const a2 = branch.route[i + 1]
+    if (a1.z !== a2.z) continue
+    let bestJunction: {
+      branchSegmentIndex: number
+      host: HighDensityRoute
+      hostSegmentIndex: number
+      point: Point
+      distance: number
+    } | null = null
+    for (const host of hosts) {
+      const touchDistance = (branch.traceThickness + host.traceThickness) / 2
+      for (let j = 0; j < host.route.length - 1; j++) {
+        const b1 = host.route[j]
+        const b2 = host.route[j + 1]
+        if (b1.z !== a1.z || b2.z !== a1.z) continue
+        const approach = getSegmentsClosestApproach(a1, a2, b1, b2)
+        if (approach.distance >= touchDistance) continue
+        if (bestJunction && approach.distance >= bestJunction.distance) continue
+        bestJunction = {
+          branchSegmentIndex: i,
+          host,
+          hostSegmentIndex: j,
+          point: getClosestPointOnSegment(approach.location, b1, b2),
+          distance: approach.distance,
+        }
+      }
+    }
+    if (bestJunction) return bestJunction
+  }
+  return null
+}
@@ -1,6 +1,6 @@
 import { HighDensityIntraNodeRoute } from "lib/types/high-density-types"
 import { BaseSolver } from "../BaseSolver"
-import { Obstacle } from "lib/types"
+import { Keepout, Obstacle } from "lib/types"
 import { GraphicsObject } from "graphics-debug"
 import { combineVisualizations } from "lib/utils/combineVisualizations"
 import { SingleSimplifiedPathSolver5 } from "./SingleSimplifiedPathSolver5_Deg45"
@@ -16,26 +16,47 @@ export class MultiSimplifiedPathSolver extends BaseSolver {
 
   unsimplifiedHdRoutes: HighDensityIntraNodeRoute[]
   obstacles: Obstacle[]
+  keepouts: Keepout[]
   connMap: ConnectivityMap
   colorMap: Record<string, string>
+  outline?: Array<{ x: number; y: number }>
+  edgeClearance?: number
 
   constructor(params: {
     unsimplifiedHdRoutes: HighDensityIntraNodeRoute[]
     obstacles: Obstacle[]
+    keepouts?: Keepout[]
     connMap?: ConnectivityMap
     colorMap?: Record<string, string>
+    /** Board outline, simplified routes won't leave it */
+    outline?: Array<{ x: number; y: number }>
+    edgeClearance?: number
   }) {
     super()
     this.MAX_ITERATIONS = 100e6
 
     this.unsimplifiedHdRoutes = params.unsimplifiedHdRoutes
     this.obstacles = params.obstacles
+    this.keepouts = params.keepouts ?? []
     this.connMap = params.connMap || new ConnectivityMap({})
     this.colorMap = params.colorMap || {}
+    this.outline = params.outline
+    this.edgeClearance = params.edgeClearance
 
     this.simplifiedHdRoutes = []
   }
 
+  /** Output the routes that weren't simplified in time as they are */
+  handleDeadline() {
+    const firstUnsimplifiedIndex =
+      this.currentUnsimplifiedHdRouteIndex - (this.activeSubSolver ? 1 : 0)
+    this.simplifiedHdRoutes.push(
+      ...this.unsimplifiedHdRoutes.slice(firstUnsimplifiedIndex),
+    )
+    this.activeSubSolver = null
+    this.solved = true
+  }
+
   _step() {
     const hdRoute =
       this.unsimplifiedHdRoutes[this.currentUnsimplifiedHdRouteIndex]
@@ -51,8 +72,11 @@ export class MultiSimplifiedPathSolver extends BaseSolver {
           .slice(this.currentUnsimplifiedHdRouteIndex + 1)
           .concat(this.simplifiedHdRoutes),
         obstacles: this.obstacles,
+        keepouts: this.keepouts,
         connMap: this.connMap,
         colorMap: this.colorMap,
+        outline: this.outline,
+        edgeClearance: this.edgeClearance,
       })
       this.currentUnsimplifiedHdRouteIndex++
       return
@@ -1,6 +1,6 @@
 import { HighDensityIntraNodeRoute } from "lib/types/high-density-types"
 import { BaseSolver } from "../BaseSolver"
-import { Obstacle } from "lib/types"
+import { Keepout, Obstacle } from "lib/types"
 import { calculate45DegreePaths } from "lib/utils/calculate45DegreePaths"
 import { GraphicsObject } from "graphics-debug"
 import { ConnectivityMap } from "circuit-json-to-connectivity-map"
@@ -21,23 +21,33 @@ export class SingleSimplifiedPathSolver extends BaseSolver {
   inputRoute: HighDensityIntraNodeRoute
   otherHdRoutes: HighDensityIntraNodeRoute[]
   obstacles: Obstacle[]
+  keepouts: Keepout[]
   connMap: ConnectivityMap
   colorMap: Record<string, string>
+  /** Board outline the simplified route must stay inside of */
+  outline?: Array<{ x: number; y: number }>
+  edgeClearance: number
 
   constructor(params: {
     inputRoute: HighDensityIntraNodeRoute
     otherHdRoutes: HighDensityIntraNodeRoute[]
     obstacles: Obstacle[]
+    keepouts?: Keepout[]
     connMap: ConnectivityMap
     colorMap: Record<string, string>
+    outline?: Array<{ x: number; y: number }>
+    edgeClearance?: number
   }) {
     super()
 
     this.inputRoute = params.inputRoute
     this.otherHdRoutes = params.otherHdRoutes
     this.obstacles = params.obstacles
+    this.keepouts = params.keepouts ?? []
     this.connMap = params.connMap
     this.colorMap = params.colorMap
+    this.outline = params.outline
+    this.edgeClearance = params.edgeClearance ?? 0
 
     this.newRoute = [this.inputRoute.route[0]]
     this.newVias = []
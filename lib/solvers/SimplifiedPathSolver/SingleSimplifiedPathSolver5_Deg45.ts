@@ -10,6 +10,14 @@ import { SingleSimplifiedPathSolver } from "./SingleSimplifiedPathSolver"
 import { calculate45DegreePaths } from "lib/utils/calculate45DegreePaths"
 import { minimumDistanceBetweenSegments } from "lib/utils/minimumDistanceBetweenSegments"
 import { SegmentTree } from "lib/data-structures/SegmentTree"
+import { getPairClearance } from "lib/utils/getTraceParamsMapFromSimpleRouteJson"
+import {
+  getObstacleBounds,
+  getPolygonEdges,
+  getSegmentObstacleClosestApproach,
+  isPointInPolygon,
+} from "lib/utils/obstacle-shapes"
+import { doesKeepoutBlockTraces } from "lib/utils/keepouts"
 
 interface Point {
   x: number
@@ -44,12 +52,28 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
 
   filteredObstacles: Obstacle[] = []
   filteredObstaclePathSegments: Array<[Point, Point]> = []
-  filteredVias: Array<{ x: number; y: number; diameter: number }> = []
+  filteredVias: Array<{
+    x: number
+    y: number
+    diameter: number
+    clearance: number
+  }> = []
 
   segmentTree!: SegmentTree
+  /**
+   * Required centerline distance to each segment in the segmentTree by its
+   * key, the pair clearance plus the half widths of both traces
+   */
+  segmentClearanceMap: Map<string, number> = new Map()
 
   OBSTACLE_MARGIN = 0.15
 
+  /**
+   * Clearance of this route's net class, used for obstacles and as the minimum
+   * clearance to other routes
+   */
+  clearance: number
+
   TAIL_JUMP_RATIO: number = 0.8
 
   constructor(
@@ -58,6 +82,7 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
     super(params)
 
     this.cachedValidPathSegments = new Set()
+    this.clearance = this.inputRoute.clearance ?? this.OBSTACLE_MARGIN
 
     // Handle empty or single-point routes
     if (this.inputRoute.route.length <= 1) {
@@ -92,14 +117,12 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
         ) {
           return false
         }
-        const obstacleMinX =
-          obstacle.center.x - obstacle.width / 2 - this.OBSTACLE_MARGIN
-        const obstacleMaxX =
-          obstacle.center.x + obstacle.width / 2 + this.OBSTACLE_MARGIN
-        const obstacleMinY =
-          obstacle.center.y - obstacle.height / 2 - this.OBSTACLE_MARGIN
-        const obstacleMaxY =
-          obstacle.center.y + obstacle.height / 2 + this.OBSTACLE_MARGIN
+        const obstacleBounds = getObstacleBounds(obstacle)
+        const margin = this.clearance + this.inputRoute.traceThickness / 2
+        const obstacleMinX = obstacleBounds.minX - margin
+        const obstacleMaxX = obstacleBounds.maxX + margin
+        const obstacleMinY = obstacleBounds.minY - margin
+        const obstacleMaxY = obstacleBounds.maxY + margin
 
         // Check if the obstacle overlaps with the route's bounding box
         // Only keep obstacles that overlap with the route's bounds
@@ -111,6 +134,7 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
         )
       })
 
+    const segmentPairClearances: Array<[[Point, Point], number]> = []
     this.filteredObstaclePathSegments = this.otherHdRoutes.flatMap(
       (hdRoute) => {
         if (
@@ -122,6 +146,13 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
           return []
         }
         const route = hdRoute.route
+        const pairClearance =
+          getPairClearance(
+            this.inputRoute.clearance,
+            hdRoute.clearance,
+            this.OBSTACLE_MARGIN,
+          ) +
+          (this.inputRoute.traceThickness + hdRoute.traceThickness) / 2
         const segments: Array<[Point, Point]> = []
         for (let i = 0; i < route.length - 1; i++) {
           const start = route[i]
@@ -139,6 +170,7 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
             maxY >= bounds.minY
           ) {
             segments.push([start, end])
+            segmentPairClearances.push([[start, end], pairClearance])
           }
         }
 
@@ -146,6 +178,13 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
       },
     )
     this.segmentTree = new SegmentTree(this.filteredObstaclePathSegments)
+    for (const [segment, pairClearance] of segmentPairClearances) {
+      const segmentKey = this.segmentTree.getSegmentKey(segment)
+      this.segmentClearanceMap.set(
+        segmentKey,
+        Math.max(this.segmentClearanceMap.get(segmentKey) ?? 0, pairClearance),
+      )
+    }
 
     this.filteredVias = this.otherHdRoutes.flatMap((hdRoute) => {
       if (
@@ -158,7 +197,17 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
       }
 
       const vias = hdRoute.vias
-      const filteredVias: Array<{ x: number; y: number; diameter: number }> = []
+      const clearance = getPairClearance(
+        this.inputRoute.clearance,
+        hdRoute.clearance,
+        this.OBSTACLE_MARGIN,
+      )
+      const filteredVias: Array<{
+        x: number
+        y: number
+        diameter: number
+        clearance: number
+      }> = []
       for (const via of vias) {
         const minX = via.x - hdRoute.viaDiameter / 2
         const maxX = via.x + hdRoute.viaDiameter / 2
@@ -171,7 +220,11 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
           minY <= bounds.maxY &&
           maxY >= bounds.minY
         ) {
-          filteredVias.push({ ...via, diameter: hdRoute.viaDiameter })
+          filteredVias.push({
+            ...via,
+            diameter: hdRoute.viaDiameter,
+            clearance,
+          })
         }
       }
       return filteredVias
@@ -259,22 +312,55 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
   }
 
   // Check if a path segment is valid
+  /**
+   * Check that the segment is inside the board outline and at least
+   * edgeClearance away from its edges
+   */
+  isSegmentInsideOutline(start: Point, end: Point): boolean {
+    const outline = this.outline!
+    if (!isPointInPolygon(start, outline) || !isPointInPolygon(end, outline)) {
+      return false
+    }
+    for (const [a, b] of getPolygonEdges(outline)) {
+      const dist = minimumDistanceBetweenSegments(start, end, a, b)
+      if (dist === 0 || dist < this.edgeClearance) return false
+    }
+    return true
+  }
+
   isValidPathSegment(start: Point, end: Point): boolean {
+    if (this.outline && !this.isSegmentInsideOutline(start, end)) {
+      return false
+    }
+
+    // Distance from the centerline to keep from obstacles and keepouts
+    const obstacleMargin = this.clearance + this.inputRoute.traceThickness / 2
+
     // Check if the segment intersects with any obstacle
     for (const obstacle of this.filteredObstacles) {
       if (!obstacle.zLayers?.includes(start.z)) {
         continue
       }
 
+      if (obstacle.type !== "rect" || obstacle.ccwRotationDegrees) {
+        if (
+          getSegmentObstacleClosestApproach(start, end, obstacle).distance <
+          obstacleMargin
+        ) {
+          return false
+        }
+        continue
+      }
+
       // Simple bounding box check first
       const obstacleLeft =
-        obstacle.center.x - obstacle.width / 2 - this.OBSTACLE_MARGIN
+        obstacle.center.x - obstacle.width / 2 - obstacleMargin
       const obstacleRight =
-        obstacle.center.x + obstacle.width / 2 + this.OBSTACLE_MARGIN
+        obstacle.center.x + obstacle.width / 2 + obstacleMargin
       const obstacleTop =
-        obstacle.center.y - obstacle.height / 2 - this.OBSTACLE_MARGIN
+        obstacle.center.y - obstacle.height / 2 - obstacleMargin
       const obstacleBottom =
-        obstacle.center.y + obstacle.height / 2 + this.OBSTACLE_MARGIN
+        obstacle.center.y + obstacle.height / 2 + obstacleMargin
 
       // Check if the line might intersect with this obstacle's borders
       if (
@@ -307,10 +393,24 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
       }
     }
 
+    for (const keepout of this.keepouts) {
+      if (!doesKeepoutBlockTraces(keepout, start.z)) continue
+      if (
+        getSegmentObstacleClosestApproach(start, end, keepout).distance <
+        obstacleMargin
+      ) {
+        return false
+      }
+    }
+
     // Check if the segment intersects with any other route
     const segmentsThatCouldIntersect =
       this.segmentTree.getSegmentsThatCouldIntersect(start, end)
-    for (const [otherSegA, otherSegB] of segmentsThatCouldIntersect) {
+    for (const [
+      otherSegA,
+      otherSegB,
+      segmentKey,
+    ] of segmentsThatCouldIntersect) {
       // Only check intersection if we're on the same layer
       if (otherSegA.z === start.z && otherSegB.z === start.z) {
         if (
@@ -319,7 +419,9 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
             { x: end.x, y: end.y },
             { x: otherSegA.x, y: otherSegA.y },
             { x: otherSegB.x, y: otherSegB.y },
-          ) < this.OBSTACLE_MARGIN
+          ) <
+          (this.segmentClearanceMap.get(segmentKey) ??
+            this.clearance + this.inputRoute.traceThickness)
         ) {
           return false
         }
@@ -329,7 +431,7 @@ export class SingleSimplifiedPathSolver5 extends SingleSimplifiedPathSolver {
     for (const via of this.filteredVias) {
       if (
         pointToSegmentDistance(via, start, end) <
-        this.OBSTACLE_MARGIN + via.diameter / 2
+        via.clearance + via.diameter / 2 + this.inputRoute.traceThickness / 2
       ) {
         return false
       }
@@ -59,20 +59,25 @@ export class SingleLayerNodeMergerSolver extends BaseSolver {
   }
 
   computeAdjacentNodeIdsForFirstBatch(nodes: CapacityMeshNode[]) {
-    const nodeTrees = [
-      new CapacityNodeTree(nodes.filter((n) => n.availableZ[0] === 0)),
-      new CapacityNodeTree(nodes.filter((n) => n.availableZ[0] === 1)),
-    ]
+    const nodeTrees = new Map<number, CapacityNodeTree>()
+    for (const z of new Set(nodes.map((n) => n.availableZ[0]))) {
+      nodeTrees.set(
+        z,
+        new CapacityNodeTree(nodes.filter((n) => n.availableZ[0] === z)),
+      )
+    }
     for (const node of nodes) {
       const adjacentNodes: CapacityMeshNode[] = []
       const z = node.availableZ[0]
 
-      const nodesInArea = nodeTrees[z].getNodesInArea(
-        node.center.x,
-        node.center.y,
-        node.width * 4,
-        node.height * 4,
-      )
+      const nodesInArea = nodeTrees
+        .get(z)!
+        .getNodesInArea(
+          node.center.x,
+          node.center.y,
+          node.width * 4,
+          node.height * 4,
+        )
 
       for (const unprocessedNode of nodesInArea) {
         if (
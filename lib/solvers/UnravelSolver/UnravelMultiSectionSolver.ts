@@ -9,7 +9,7 @@ import { getIntraNodeCrossingsFromSegments } from "lib/utils/getIntraNodeCrossin
 import { calculateNodeProbabilityOfFailure } from "./calculateCrossingProbabilityOfFailure"
 import { BaseSolver } from "../BaseSolver"
 import { GraphicsObject } from "graphics-debug"
-import { NodeWithPortPoints } from "lib/types/high-density-types"
+import { NodeWithPortPoints, TraceParams } from "lib/types/high-density-types"
 import {
   PointModificationsMap,
   SegmentId,
@@ -28,6 +28,8 @@ export class UnravelMultiSectionSolver extends BaseSolver {
   nodeToSegmentPointMap: Map<CapacityMeshNodeId, SegmentPointId[]>
   segmentToSegmentPointMap: Map<SegmentId, SegmentPointId[]>
   colorMap: Record<string, string>
+  traceParamsMap?: Record<string, TraceParams>
+  defaultTraceParams?: TraceParams
   tunedNodeCapacityMap: Map<CapacityMeshNodeId, number>
 
   MAX_NODE_ATTEMPTS = 2
@@ -51,9 +53,15 @@ export class UnravelMultiSectionSolver extends BaseSolver {
     assignedSegments,
     colorMap,
     nodes,
+    traceParamsMap,
+    defaultTraceParams,
   }: {
     assignedSegments: NodePortSegment[]
     colorMap?: Record<string, string>
+    /** Used to avoid separating the two halves of a differential pair */
+    traceParamsMap?: Record<string, TraceParams>
+    /** Trace params node capacity is estimated for, see getDefaultTraceParams */
+    defaultTraceParams?: TraceParams
     /**
      * This isn't used by the algorithm, but allows associating metadata
      * for the result datatype (the center, width, height of the node)
@@ -63,6 +71,8 @@ export class UnravelMultiSectionSolver extends BaseSolver {
     super()
 
     this.MAX_ITERATIONS = 100_000
+    this.traceParamsMap = traceParamsMap
+    this.defaultTraceParams = defaultTraceParams
 
     this.dedupedSegments = getDedupedSegments(assignedSegments)
     this.dedupedSegmentMap = new Map()
@@ -94,7 +104,13 @@ export class UnravelMultiSectionSolver extends BaseSolver {
     // Compute tuned capacity for each node
     this.tunedNodeCapacityMap = new Map()
     for (const [nodeId, node] of this.nodeMap) {
-      this.tunedNodeCapacityMap.set(nodeId, getTunedTotalCapacity1(node))
+      this.tunedNodeCapacityMap.set(
+        nodeId,
+        getTunedTotalCapacity1(node, 1, {
+          viaDiameter: defaultTraceParams?.viaDiameter,
+          obstacleMargin: defaultTraceParams?.clearance,
+        }),
+      )
     }
 
     const { segmentPointMap, nodeToSegmentPointMap, segmentToSegmentPointMap } =
@@ -133,11 +149,18 @@ export class UnravelMultiSectionSolver extends BaseSolver {
       numSameLayerCrossings,
       numEntryExitLayerChanges,
       numTransitionCrossings,
+      this.tunedNodeCapacityMap.get(node.capacityMeshNodeId),
     )
 
     return probabilityOfFailure
   }
 
+  /** Keep the port points as they were optimized so far */
+  handleDeadline() {
+    this.activeSolver = null
+    this.solved = true
+  }
+
   _step() {
     if (this.iterations >= this.MAX_ITERATIONS - 1) {
       this.solved = true
@@ -174,6 +197,9 @@ export class UnravelMultiSectionSolver extends BaseSolver {
         nodeIdToSegmentIds: this.nodeIdToSegmentIds,
         segmentIdToNodeIds: this.segmentIdToNodeIds,
         colorMap: this.colorMap,
+        traceParamsMap: this.traceParamsMap,
+        tunedNodeCapacityMap: this.tunedNodeCapacityMap,
+        defaultTraceParams: this.defaultTraceParams,
         rootNodeId: highestPfNodeId,
         MUTABLE_HOPS: this.MUTABLE_HOPS,
         segmentPointMap: this.segmentPointMap,
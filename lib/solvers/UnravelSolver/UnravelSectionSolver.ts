@@ -1,4 +1,6 @@
 import { CapacityMeshNode, CapacityMeshNodeId } from "lib/types"
+import type { TraceParams } from "lib/types/high-density-types"
+import { getDifferentialPairPartner } from "lib/utils/differential-pairs"
 import { BaseSolver } from "../BaseSolver"
 import { SegmentWithAssignedPoints } from "../CapacityMeshSolver/CapacitySegmentToPointSolver"
 import {
@@ -72,8 +74,15 @@ export class UnravelSectionSolver extends BaseSolver {
   nodeIdToSegmentIds: Map<CapacityMeshNodeId, CapacityMeshNodeId[]>
   segmentIdToNodeIds: Map<CapacityMeshNodeId, CapacityMeshNodeId[]>
   colorMap: Record<string, string>
+  traceParamsMap?: Record<string, TraceParams>
+  defaultTraceParams?: TraceParams
   tunedNodeCapacityMap: Map<CapacityMeshNodeId, number>
   MAX_CANDIDATES = 500
+  /**
+   * Cost of each via a connection has beyond its maxVias, leads candidates
+   * that start over the limit back under it
+   */
+  VIA_LIMIT_VIOLATION_COST = 10
 
   selectedCandidateIndex: number | "best" | "original" | null = null
 
@@ -82,6 +91,9 @@ export class UnravelSectionSolver extends BaseSolver {
   constructor(params: {
     rootNodeId: CapacityMeshNodeId
     colorMap?: Record<string, string>
+    traceParamsMap?: Record<string, TraceParams>
+    defaultTraceParams?: TraceParams
+    tunedNodeCapacityMap?: Map<CapacityMeshNodeId, number>
     MUTABLE_HOPS?: number
     nodeMap: Map<CapacityMeshNodeId, CapacityMeshNode>
     dedupedSegments: SegmentWithAssignedPoints[]
@@ -110,16 +122,22 @@ export class UnravelSectionSolver extends BaseSolver {
     this.segmentIdToNodeIds = params.segmentIdToNodeIds
     this.rootNodeId = params.rootNodeId
     this.colorMap = params.colorMap ?? {}
+    this.traceParamsMap = params.traceParamsMap
+    this.defaultTraceParams = params.defaultTraceParams
     this.unravelSection = this.createUnravelSection({
       segmentPointMap: params.segmentPointMap!,
       nodeToSegmentPointMap: params.nodeToSegmentPointMap!,
       segmentToSegmentPointMap: params.segmentToSegmentPointMap!,
     })
-    this.tunedNodeCapacityMap = new Map()
+    this.tunedNodeCapacityMap = params.tunedNodeCapacityMap ?? new Map()
     for (const nodeId of this.unravelSection.allNodeIds) {
+      if (this.tunedNodeCapacityMap.has(nodeId)) continue
       this.tunedNodeCapacityMap.set(
         nodeId,
-        getTunedTotalCapacity1(this.nodeMap.get(nodeId)!),
+        getTunedTotalCapacity1(this.nodeMap.get(nodeId)!, 1, {
+          viaDiameter: this.defaultTraceParams?.viaDiameter,
+          obstacleMargin: this.defaultTraceParams?.clearance,
+        }),
       )
     }
     this.originalCandidate = this.createInitialCandidate()
@@ -400,10 +418,16 @@ export class UnravelSectionSolver extends BaseSolver {
         return segmentObjects.every((seg) => seg.availableZ.includes(newZ))
       }
 
+      // Every layer other than the current one that all segments can use
+      const getNewZOptions = (currentZ: number, segmentObjects: any[]) =>
+        segmentObjects[0].availableZ.filter(
+          (newZ: number) =>
+            newZ !== currentZ && isNewZAvailableForAll(segmentObjects, newZ),
+        ) as number[]
+
       // Only propose layer changes if both segments can use the target layer
       if (Amutable && Bmutable) {
-        const newZ = A.z === 0 ? 1 : 0
-        if (isNewZAvailableForAll([aSegment, bSegment], newZ)) {
+        for (const newZ of getNewZOptions(A.z, [aSegment, bSegment])) {
           operations.push({
             type: "change_layer",
             newZ,
@@ -413,8 +437,7 @@ export class UnravelSectionSolver extends BaseSolver {
       }
 
       if (Cmutable && Dmutable) {
-        const newZ = C.z === 0 ? 1 : 0
-        if (isNewZAvailableForAll([cSegment, dSegment], newZ)) {
+        for (const newZ of getNewZOptions(C.z, [cSegment, dSegment])) {
           operations.push({
             type: "change_layer",
             newZ,
@@ -424,46 +447,19 @@ export class UnravelSectionSolver extends BaseSolver {
       }
 
       // 3. CHANGE LAYER OF EACH POINT INDIVIDUALLY TO MAKE TRANSITION CROSSING
-      if (Amutable) {
-        const newZ = A.z === 0 ? 1 : 0
-        if (aSegment.availableZ.includes(newZ)) {
-          operations.push({
-            type: "change_layer",
-            newZ,
-            segmentPointIds: [APointId],
-          })
-        }
-      }
-
-      if (Bmutable) {
-        const newZ = B.z === 0 ? 1 : 0
-        if (bSegment.availableZ.includes(newZ)) {
-          operations.push({
-            type: "change_layer",
-            newZ,
-            segmentPointIds: [BPointId],
-          })
-        }
-      }
-
-      if (Cmutable) {
-        const newZ = C.z === 0 ? 1 : 0
-        if (cSegment.availableZ.includes(newZ)) {
-          operations.push({
-            type: "change_layer",
-            newZ,
-            segmentPointIds: [CPointId],
-          })
-        }
-      }
-
-      if (Dmutable) {
-        const newZ = D.z === 0 ? 1 : 0
-        if (dSegment.availableZ.includes(newZ)) {
+      const individualPoints = [
+        [A, APointId, Amutable, aSegment],
+        [B, BPointId, Bmutable, bSegment],
+        [C, CPointId, Cmutable, cSegment],
+        [D, DPointId, Dmutable, dSegment],
+      ] as const
+      for (const [point, pointId, mutable, segment] of individualPoints) {
+        if (!mutable) continue
+        for (const newZ of getNewZOptions(point.z, [segment])) {
           operations.push({
             type: "change_layer",
             newZ,
-            segmentPointIds: [DPointId],
+            segmentPointIds: [pointId],
           })
         }
       }
@@ -505,7 +501,12 @@ export class UnravelSectionSolver extends BaseSolver {
       const nodeProblemCount = nodeProblemCounts.get(issue.capacityMeshNodeId)!
 
       if (issue.type === "transition_via") {
-        nodeProblemCount.numTransitionCrossings++
+        const { connectionName } = this.unravelSection.segmentPointMap.get(
+          issue.segmentPoints[0],
+        )!
+        nodeProblemCount.numTransitionCrossings +=
+          this.getViaCapacityUsage(connectionName) *
+          (this.traceParamsMap?.[connectionName]?.viaCostFactor ?? 1)
       } else if (issue.type === "same_layer_crossing") {
         nodeProblemCount.numSameLayerCrossings++
       } else if (
@@ -544,9 +545,64 @@ export class UnravelSectionSolver extends BaseSolver {
       cost += getLogProbability(estPf)
     }
 
+    // The vias in the section are a lower bound of the connection's vias, so
+    // any beyond its limit can't be undone outside the section
+    for (const [connectionName, numVias] of this.getViasPerConnection(issues)) {
+      const maxVias = this.traceParamsMap?.[connectionName]?.maxVias
+      if (maxVias === undefined || numVias <= maxVias) continue
+      cost += (numVias - maxVias) * this.VIA_LIMIT_VIOLATION_COST
+    }
+
     return cost
   }
 
+  getViasPerConnection(issues: UnravelIssue[]) {
+    const viasPerConnection = new Map<string, number>()
+    for (const issue of issues) {
+      if (issue.type !== "transition_via") continue
+      const { connectionName } = this.unravelSection.segmentPointMap.get(
+        issue.segmentPoints[0],
+      )!
+      viasPerConnection.set(
+        connectionName,
+        (viasPerConnection.get(connectionName) ?? 0) + 1,
+      )
+    }
+    return viasPerConnection
+  }
+
+  /**
+   * True if a connection gets more vias than its maxVias and more than it had
+   * before. Via limits are hard constraints on the layer choice, a
+   * connection that is over its limit can only move towards it
+   */
+  doesExceedViaLimits(issues: UnravelIssue[], previousIssues: UnravelIssue[]) {
+    let previousViasPerConnection: Map<string, number> | null = null
+    for (const [connectionName, numVias] of this.getViasPerConnection(issues)) {
+      const maxVias = this.traceParamsMap?.[connectionName]?.maxVias
+      if (maxVias === undefined || numVias <= maxVias) continue
+      previousViasPerConnection ??= this.getViasPerConnection(previousIssues)
+      if (numVias > (previousViasPerConnection.get(connectionName) ?? 0)) {
+        return true
+      }
+    }
+    return false
+  }
+
+  /**
+   * How many default vias a via of the connection counts as, large vias and
+   * net classes with a large clearance take up more of a node
+   */
+  getViaCapacityUsage(connectionName: string) {
+    const traceParams = this.traceParamsMap?.[connectionName]
+    if (!traceParams || !this.defaultTraceParams) return 1
+    const defaultMargin = this.defaultTraceParams.clearance ?? 0.2
+    return (
+      (traceParams.viaDiameter / 2 + (traceParams.clearance ?? defaultMargin)) /
+      (this.defaultTraceParams.viaDiameter / 2 + defaultMargin)
+    )
+  }
+
   getUnexploredNeighborByApplyingOperation(
     currentCandidate: UnravelCandidate,
     operation: UnravelOperation,
@@ -577,6 +633,8 @@ export class UnravelSectionSolver extends BaseSolver {
       pointModifications,
     )
 
+    if (this.doesExceedViaLimits(issues, currentCandidate.issues)) return null
+
     const operationsPerformed = currentCandidate.operationsPerformed + 1
 
     const g = this.computeG({
@@ -607,9 +665,53 @@ export class UnravelSectionSolver extends BaseSolver {
   getNeighborOperationsForCandidate(
     candidate: UnravelCandidate,
   ): UnravelOperation[] {
-    return candidate.issues.flatMap((issue) =>
-      this.getOperationsForIssue(candidate, issue),
+    return candidate.issues
+      .flatMap((issue) => this.getOperationsForIssue(candidate, issue))
+      .filter(
+        (operation) => !this.doesOperationSplitDifferentialPair(operation),
+      )
+  }
+
+  /**
+   * Differential pairs must stay adjacent and on the same layer, so points
+   * of a pair can only be swapped with each other and can't change layer
+   * without their partner
+   */
+  doesOperationSplitDifferentialPair(operation: UnravelOperation): boolean {
+    if (operation.type === "combined") {
+      return operation.operations.some((op) =>
+        this.doesOperationSplitDifferentialPair(op),
+      )
+    }
+    const points = operation.segmentPointIds.map(
+      (id) => this.unravelSection.segmentPointMap.get(id)!,
     )
+    for (const point of points) {
+      const partnerName = getDifferentialPairPartner(
+        this.traceParamsMap,
+        point.connectionName,
+      )
+      if (!partnerName) continue
+      if (operation.type === "swap_position_on_segment") {
+        if (points.some((p) => p.connectionName !== partnerName && p !== point))
+          return true
+        continue
+      }
+      const partnerPointIds =
+        this.unravelSection.segmentPointsInSegment
+          .get(point.segmentId)
+          ?.filter(
+            (id) =>
+              this.unravelSection.segmentPointMap.get(id)!.connectionName ===
+              partnerName,
+          ) ?? []
+      if (
+        !partnerPointIds.every((id) => operation.segmentPointIds.includes(id))
+      ) {
+        return true
+      }
+    }
+    return false
   }
 
   getNeighbors(candidate: UnravelCandidate): UnravelCandidate[] {
@@ -6,12 +6,10 @@ export const calculateNodeProbabilityOfFailure = (
   numSameLayerCrossings: number,
   numEntryExitLayerChanges: number,
   numTransitionCrossings: number,
+  totalCapacity = getTunedTotalCapacity1(node),
 ): number => {
   if (node?._containsTarget) return 0
 
-  // Number of traces through the node
-  const totalCapacity = getTunedTotalCapacity1(node)
-
   // Estimated number of vias based on crossings
   const estNumVias =
     numSameLayerCrossings * 0.82 +
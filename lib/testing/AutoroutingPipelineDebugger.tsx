@@ -6,7 +6,10 @@ import {
 import { BaseSolver } from "lib/solvers/BaseSolver"
 import { combineVisualizations } from "lib/utils/combineVisualizations"
 import { SimpleRouteJson } from "lib/types"
-import { CapacityMeshSolver } from "lib/solvers/AutoroutingPipelineSolver"
+import {
+  type AutoroutingPipelineCheckpoint,
+  CapacityMeshSolver,
+} from "lib/solvers/AutoroutingPipelineSolver"
 import { GraphicsObject, Rect } from "graphics-debug"
 import { limitVisualizations } from "lib/utils/limitVisualizations"
 import { getNodesNearNode } from "lib/solvers/UnravelSolver/getNodesNearNode"
@@ -14,19 +17,26 @@ import { filterUnravelMultiSectionInput } from "./utils/filterUnravelMultiSectio
 
 interface CapacityMeshPipelineDebuggerProps {
   srj: SimpleRouteJson
+  /** Start from a checkpoint (e.g. from a bug report) instead of the srj */
+  checkpoint?: AutoroutingPipelineCheckpoint
   animationSpeed?: number
 }
 
-const createSolver = (srj: SimpleRouteJson) => {
+const createSolver = (
+  srj: SimpleRouteJson,
+  checkpoint?: AutoroutingPipelineCheckpoint,
+) => {
+  if (checkpoint) return CapacityMeshSolver.fromCheckpoint(checkpoint)
   return new CapacityMeshSolver(srj)
 }
 
 export const AutoroutingPipelineDebugger = ({
   srj,
+  checkpoint,
   animationSpeed = 1,
 }: CapacityMeshPipelineDebuggerProps) => {
   const [solver, setSolver] = useState<CapacityMeshSolver>(() =>
-    createSolver(srj),
+    createSolver(srj, checkpoint),
   )
   const [previewMode, setPreviewMode] = useState(false)
   const [renderer, setRenderer] = useState<"canvas" | "vector">(
@@ -49,7 +59,7 @@ export const AutoroutingPipelineDebugger = ({
 
   // Reset solver
   const resetSolver = () => {
-    setSolver(createSolver(srj))
+    setSolver(createSolver(srj, checkpoint))
   }
 
   // Animation effect
@@ -621,6 +631,24 @@ export const AutoroutingPipelineDebugger = ({
         <button onClick={() => setPreviewMode(!previewMode)}>
           {previewMode ? "Disable" : "Enable"} Preview Mode
         </button>
+        <button
+          className="ml-4"
+          onClick={() => {
+            // The checkpoint resumes at the start of the current stage
+            const checkpoint = solver.getCheckpoint()
+            const blob = new Blob([JSON.stringify(checkpoint, null, 2)], {
+              type: "application/json",
+            })
+            const url = URL.createObjectURL(blob)
+            const a = document.createElement("a")
+            a.download = `checkpoint_${checkpoint.phase}.json`
+            a.href = url
+            a.click()
+            URL.revokeObjectURL(url)
+          }}
+        >
+          Download Checkpoint
+        </button>
       </div>
     </div>
   )
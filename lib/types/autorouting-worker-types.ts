@@ -0,0 +1,78 @@
+import type { GraphicsObject } from "graphics-debug"
+import type { CapacityMeshSolverOptions } from "./capacity-mesh-solver-options"
+import type { CompletionReport } from "./completion-report-types"
+import type {
+  HighDensityIntraNodeRoute,
+  NodeWithPortPoints,
+  TraceParams,
+} from "./high-density-types"
+import type { Keepout, Obstacle, SimpleRouteJson } from "./srj-types"
+
+/** A capacity node solved in a worker, see HighDensityWorkerPool */
+export interface HighDensityNodeTask {
+  nodeWithPortPoints: NodeWithPortPoints
+  colorMap: Record<string, string>
+  /** netMap of the ConnectivityMap */
+  connMapNetMap?: Record<string, string[]>
+  layerCount: number
+  traceParamsMap?: Record<string, TraceParams>
+  /** Obstacles and keepouts overlapping the node */
+  obstacles: Obstacle[]
+  keepouts: Keepout[]
+  seed: number
+  viaBudgets?: Record<string, number>
+  /** Date.now() time by which the node must be solved */
+  deadline?: number
+}
+
+export interface HighDensityNodeResult {
+  solvedRoutes: HighDensityIntraNodeRoute[]
+  /** null when the node was solved */
+  error: string | null
+  ranOutOfTime: boolean
+}
+
+/** Solves high density nodes in parallel, e.g. HighDensityWorkerPool */
+export interface HighDensityNodeSolverPool {
+  solveNode: (task: HighDensityNodeTask) => Promise<HighDensityNodeResult>
+}
+
+/** Messages sent to the autorouting worker */
+export type AutoroutingWorkerRequest =
+  | {
+      type: "start"
+      srj: SimpleRouteJson
+      opts?: CapacityMeshSolverOptions
+      /** Minimum time between progress messages, defaults to 100ms */
+      progressIntervalMs?: number
+      /** Include the solver's preview() graphics in progress messages */
+      includePreview?: boolean
+    }
+  | { type: "cancel" }
+  | { type: "solveHighDensityNode"; taskId: number; task: HighDensityNodeTask }
+
+export interface AutoroutingWorkerProgress {
+  type: "progress"
+  phase: string
+  /** Progress of the whole pipeline from 0 to 1 */
+  progress: number
+  iterations: number
+  preview?: GraphicsObject
+}
+
+export interface AutoroutingWorkerResult {
+  outputSrj: SimpleRouteJson
+  completionReport: CompletionReport
+}
+
+/** Messages sent by the autorouting worker */
+export type AutoroutingWorkerResponse =
+  | AutoroutingWorkerProgress
+  | ({ type: "done" } & AutoroutingWorkerResult)
+  | { type: "error"; error: string; completionReport?: CompletionReport }
+  | { type: "cancelled" }
+  | {
+      type: "highDensityNodeSolved"
+      taskId: number
+      result: HighDensityNodeResult
+    }
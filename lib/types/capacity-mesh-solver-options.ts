@@ -0,0 +1,47 @@
+import type { HighDensityNodeSolverPool } from "./autorouting-worker-types"
+
+export interface CapacityMeshSolverOptions {
+  capacityDepth?: number
+  targetMinCapacity?: number
+  /**
+   * Algorithm of the capacity pathing stage. "multiSection" first paths every
+   * connection ignoring capacity, then re-solves the sections around
+   * overloaded nodes. "negotiatedCongestion" repeatedly reroutes every
+   * connection, making over capacity nodes more expensive each pass
+   */
+  pathingStrategy?: "default" | "multiSection" | "negotiatedCongestion"
+  /**
+   * How nets with more than two points are split into point pairs. "mst"
+   * (default) connects the points with a minimum spanning tree,
+   * "steinerTree" adds Steiner points and lets each branch end on the net's
+   * existing copper. A branch is routed to whichever is closer, a path of
+   * the net or its planned end, and cut where it first touches the net
+   */
+  netTopology?: "mst" | "steinerTree"
+  /**
+   * Capacity plan alternative decompositions of the nets into point pairs and
+   * keep the least congested one. The alternatives are trees that weigh
+   * obstacles differently, and minimum spanning trees when routing Steiner
+   * trees. Adds a capacity pathing run per alternative
+   */
+  evaluateAlternativeNetTrees?: boolean
+  /** Run checkDesignRules on the output as a final pipeline stage */
+  checkDesignRules?: boolean
+  /**
+   * Seed of every stage that shuffles or orders connections. The same input
+   * and seed always produce the same output, 0 (default) keeps the default
+   * orderings and other seeds try different candidate solutions.
+   */
+  seed?: number
+  /**
+   * Wall-clock time budget in milliseconds. Stages that can stop early return
+   * their best result when their share of the budget runs out, connections
+   * that weren't routed in time are reported by getCompletionReport()
+   */
+  timeBudgetMs?: number
+  /**
+   * Solve the high density nodes in parallel on a pool of workers, the
+   * pipeline must be run with solveAsync()
+   */
+  highDensityWorkerPool?: HighDensityNodeSolverPool
+}
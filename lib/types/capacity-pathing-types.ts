@@ -6,4 +6,19 @@ export interface CapacityPath {
   capacityPathId: CapacityPathId
   connectionName: string
   nodeIds: CapacityMeshNodeId[]
+  /**
+   * The path ends in its first node, a node on the path of this connection
+   * of the same net, instead of at the connection's second point
+   */
+  teesOffConnectionName?: string
+}
+
+/** Overflow after one routing pass of the negotiated congestion solver */
+export interface CapacityPathingIterationStats {
+  iteration: number
+  /** Number of nodes using more than their capacity */
+  overflowedNodeCount: number
+  /** Sum of the capacity used beyond each node's capacity */
+  totalOverflow: number
+  maxOverflow: number
 }
@@ -0,0 +1,18 @@
+export interface FailedCapacityNodeReport {
+  capacityMeshNodeId: string
+  /** Original (non point-pair) names of the connections passing through */
+  connectionNames: string[]
+  error: string | null
+}
+
+export interface CompletionReport {
+  /** Connections where every point-pair was routed */
+  routedConnectionNames: string[]
+  /** Connections where some, but not all, of the route was found */
+  partiallyRoutedConnectionNames: string[]
+  /** Connections without any routed segment */
+  failedConnectionNames: string[]
+  failedNodes: FailedCapacityNodeReport[]
+  /** Percentage (0-100) of point-pair connections that were fully routed */
+  completionPercentage: number
+}
@@ -0,0 +1,29 @@
+export type DesignRuleViolationType =
+  | "trace_trace_clearance"
+  | "trace_via_clearance"
+  | "via_via_clearance"
+  | "trace_obstacle_clearance"
+  | "via_obstacle_clearance"
+  | "trace_keepout"
+  | "via_keepout"
+  | "dangling_trace_end"
+  | "unconnected_point"
+  | "via_limit"
+
+export interface DesignRuleViolation {
+  type: DesignRuleViolationType
+  message: string
+  /** Where the violation is, e.g. the midpoint of the closest approach */
+  location: { x: number; y: number }
+  /** Not defined for violations that span all layers, e.g. via-via */
+  layer?: string
+  /**
+   * Connection names involved, one for dangling/unconnected/via limit
+   * violations
+   */
+  connectionNames: string[]
+  pcbTraceIds: string[]
+  /** Copper-to-copper distance, only defined for clearance violations */
+  actualClearance?: number
+  requiredClearance?: number
+}
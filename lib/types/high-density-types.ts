@@ -3,6 +3,11 @@ export type PortPoint = {
   x: number
   y: number
   z: number
+  /**
+   * The point is on a port point of this connection of the same net, the
+   * connection ends on its copper here (a tee junction)
+   */
+  teesOffConnectionName?: string
 }
 
 export type NodeWithPortPoints = {
@@ -31,8 +36,34 @@ export type HighDensityIntraNodeRoute = {
   connectionName: string
   traceThickness: number
   viaDiameter: number
+  /** Net class clearance, when not defined the solver's default margin is used */
+  clearance?: number
   route: Array<{ x: number; y: number; z: number }>
   vias: Array<{ x: number; y: number }>
 }
 
 export type HighDensityRoute = HighDensityIntraNodeRoute
+
+/**
+ * The trace thickness, via size and clearance used when routing a connection
+ */
+export type TraceParams = {
+  traceThickness: number
+  viaDiameter: number
+  viaHoleDiameter?: number
+  clearance?: number
+  /** Maximum number of vias on the route of the connection */
+  maxVias?: number
+  /**
+   * Layer a connection without vias has to stay on, set when maxVias is 0
+   * and all of its points are on the same layer
+   */
+  requiredZ?: number
+  /** Multiplies the cost of placing a via on the connection */
+  viaCostFactor?: number
+  /** Set when the connection is one half of a differential pair */
+  differentialPair?: {
+    partnerConnectionName: string
+    gap: number
+  }
+}
@@ -3,3 +3,8 @@ export * from "./capacity-pathing-types"
 export * from "./capacity-mesh-types"
 export * from "./high-density-router-types"
 export * from "./capacity-segment-to-point-types"
+export * from "./design-rule-types"
+export * from "./completion-report-types"
+export * from "./length-matching-types"
+export * from "./capacity-mesh-solver-options"
+export * from "./autorouting-worker-types"
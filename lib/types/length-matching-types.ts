@@ -0,0 +1,26 @@
+export interface ConnectionLengthReport {
+  connectionName: string
+  lengthMatchGroup?: string
+  /** Length of the routed traces before meanders were added */
+  originalLength: number
+  /** Length of the routed traces including meanders */
+  length: number
+  targetLength: number
+  withinTolerance: boolean
+}
+
+export interface LengthMatchGroupReport {
+  name: string
+  connectionNames: string[]
+  /** Length of the longest member, or the largest targetLength of a member */
+  targetLength: number
+  minLength: number
+  maxLength: number
+  withinTolerance: boolean
+}
+
+export interface LengthMatchingReport {
+  tolerance: number
+  connections: ConnectionLengthReport[]
+  groups: LengthMatchGroupReport[]
+}
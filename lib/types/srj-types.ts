@@ -6,22 +6,118 @@ export interface SimpleRouteJson {
   obstacles: Obstacle[]
   connections: Array<SimpleRouteConnection>
   bounds: { minX: number; maxX: number; minY: number; maxY: number }
+  /**
+   * Vertices of the board outline for non-rectangular boards, nothing is
+   * routed outside of it. Should be inside the bounds.
+   */
+  outline?: Array<{ x: number; y: number }>
+  /** Minimum distance between traces and the board outline (or bounds) */
+  edgeClearance?: number
+  /** Regions where traces and/or vias can't be placed */
+  keepouts?: Keepout[]
   traces?: SimplifiedPcbTraces
+  /** Design rules for groups of connections, e.g. power or high speed nets */
+  netClasses?: NetClass[]
+  /** Design rules for connections that aren't a member of any net class */
+  defaultNetClass?: Omit<NetClass, "connections">
+  /** Pairs of connections that are routed side by side, e.g. USB D+/D- */
+  differentialPairs?: DifferentialPair[]
+  /**
+   * Allowed difference between a connection's routed length and its target
+   * length, defaults to 0.1
+   */
+  lengthMatchTolerance?: number
+  /**
+   * Multiplies the cost of placing a via, higher values trade longer traces
+   * for fewer vias. Defaults to 1
+   */
+  viaCostFactor?: number
 }
 
+export interface DifferentialPair {
+  name?: string
+  /** Names of the two connections in the pair */
+  connectionNames: [string, string]
+  /** Target edge-to-edge spacing between the two traces */
+  gap: number
+  /** Width of both traces, takes precedence over their net class */
+  traceWidth?: number
+}
+
+export interface NetClass {
+  name: string
+  traceWidth?: number
+  /** Minimum copper-to-copper spacing to traces/vias of other nets */
+  clearance?: number
+  viaDiameter?: number
+  viaHoleDiameter?: number
+  /** Maximum number of vias between two points of a connection */
+  maxVias?: number
+  /** Names of the connections (or their netConnectionName) in this class */
+  connections: string[]
+}
+
+/**
+ * A rect's width and height are measured before it's rotated, a circle's
+ * diameter is its width. The center, width and height of a polygon are the
+ * bounding box of its points.
+ */
 export interface Obstacle {
-  type: "rect"
+  type: "rect" | "circle" | "polygon"
   layers: string[]
   zLayers?: number[]
   center: { x: number; y: number }
   width: number
   height: number
+  /** Counter-clockwise rotation of a "rect" obstacle around its center */
+  ccwRotationDegrees?: number
+  /** Vertices of a "polygon" obstacle */
+  points?: Array<{ x: number; y: number }>
   connectedTo: TraceId[]
 }
 
+/** The geometry of an obstacle, shared with keepouts */
+export type ObstacleShape = Pick<
+  Obstacle,
+  "type" | "center" | "width" | "height" | "ccwRotationDegrees" | "points"
+>
+
+/**
+ * A region where routing is restricted on the given layers, e.g. an antenna
+ * area. Unlike an obstacle, a keepout isn't copper and can't be connected to.
+ */
+export interface Keepout extends ObstacleShape {
+  layers: string[]
+  zLayers?: number[]
+  /** Traces can't be routed through the keepout */
+  noTraces?: boolean
+  /** Vias can't be placed in the keepout */
+  noVias?: boolean
+  /** Neither traces nor vias can be placed in the keepout */
+  noCopper?: boolean
+}
+
 export interface SimpleRouteConnection {
   name: string
   netConnectionName?: string
+  /** Width of the traces for this connection, defaults to minTraceWidth */
+  traceWidth?: number
+  /** Outer (copper) diameter of vias placed on this connection */
+  viaDiameter?: number
+  /** Drill diameter of vias placed on this connection */
+  viaHoleDiameter?: number
+  /**
+   * Maximum number of vias on the route between two of the connection's
+   * points, 0 for no vias. Takes precedence over the net class
+   */
+  maxVias?: number
+  /** Meanders are added to the routed traces until they reach this length */
+  targetLength?: number
+  /**
+   * Connections in the same group are tuned to the length of the longest
+   * member, e.g. the lines of a memory bus
+   */
+  lengthMatchGroup?: string
   pointsToConnect: Array<{
     x: number
     y: number
@@ -48,6 +144,8 @@ export interface SimplifiedPcbTrace {
         y: number
         to_layer: string
         from_layer: string
+        via_diameter?: number
+        via_hole_diameter?: number
       }
   >
 }
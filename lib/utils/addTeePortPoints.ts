@@ -0,0 +1,71 @@
+import { distance } from "@tscircuit/math-utils"
+import type { CapacityMeshNodeId, CapacityPath } from "lib/types"
+import type {
+  NodeWithPortPoints,
+  PortPoint,
+} from "lib/types/high-density-types"
+
+/**
+ * Give each connection whose capacity path tees off another connection of its
+ * net a second port point in the node its path ends in, on the closest port
+ * point of the connection it tees off. The high density solvers route to it
+ * like to any other port point, the copper of the same net isn't an obstacle.
+ */
+export const addTeePortPoints = (
+  nodesWithPortPoints: NodeWithPortPoints[],
+  capacityPaths: CapacityPath[],
+): NodeWithPortPoints[] => {
+  const nodeMap = new Map(
+    nodesWithPortPoints.map((node) => [node.capacityMeshNodeId, node]),
+  )
+  const teePortPointsByNodeId = new Map<CapacityMeshNodeId, PortPoint[]>()
+
+  for (const {
+    connectionName,
+    nodeIds,
+    teesOffConnectionName,
+  } of capacityPaths) {
+    if (!teesOffConnectionName) continue
+    const node = nodeMap.get(nodeIds[0])
+    const entry = node?.portPoints.find(
+      (p) => p.connectionName === connectionName,
+    )
+    const hostPortPoints = node?.portPoints.filter(
+      (p) => p.connectionName === teesOffConnectionName,
+    )
+    if (!node || !entry || !hostPortPoints?.length) continue
+
+    const closest = hostPortPoints.reduce((best, p) =>
+      distance(p, entry) < distance(best, entry) ? p : best,
+    )
+    teePortPointsByNodeId.set(node.capacityMeshNodeId, [
+      ...(teePortPointsByNodeId.get(node.capacityMeshNodeId) ?? []),
+      {
+        x: closest.x,
+        y: closest.y,
+        z: closest.z,
+        connectionName,
+        teesOffConnectionName,
+      },
+    ])
+  }
+
+  return nodesWithPortPoints.map((node) => {
+    const teePortPoints = teePortPointsByNodeId.get(node.capacityMeshNodeId)
+    return teePortPoints
+      ? { ...node, portPoints: [...node.portPoints, ...teePortPoints] }
+      : node
+  })
+}
+
+/** The tee junction each connection that tees off another one ends at */
+export const getTeePointsByConnectionName = (
+  nodesWithPortPoints: NodeWithPortPoints[],
+): Map<string, { x: number; y: number; z: number }> =>
+  new Map(
+    nodesWithPortPoints.flatMap((node) =>
+      node.portPoints
+        .filter((p) => p.teesOffConnectionName)
+        .map((p) => [p.connectionName, { x: p.x, y: p.y, z: p.z }] as const),
+    ),
+  )
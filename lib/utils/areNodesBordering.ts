@@ -1,9 +1,8 @@
 import { CapacityMeshNode } from "../types"
 
-export function areNodesBordering(
-  node1: CapacityMeshNode,
-  node2: CapacityMeshNode,
-): boolean {
+type NodeRect = Pick<CapacityMeshNode, "center" | "width" | "height">
+
+export function areNodesBordering(node1: NodeRect, node2: NodeRect): boolean {
   const n1Left = node1.center.x - node1.width / 2
   const n1Right = node1.center.x + node1.width / 2
   const n1Top = node1.center.y - node1.height / 2
@@ -0,0 +1,520 @@
+import type {
+  DesignRuleViolation,
+  Obstacle,
+  SimpleRouteJson,
+  SimplifiedPcbTrace,
+  SimplifiedPcbTraces,
+} from "lib/types"
+import { distance } from "@tscircuit/math-utils"
+import { getConnectivityMapFromSimpleRouteJson } from "./getConnectivityMapFromSimpleRouteJson"
+import {
+  DEFAULT_VIA_DIAMETER,
+  getPairClearance,
+  getTraceParamsMapFromSimpleRouteJson,
+} from "./getTraceParamsMapFromSimpleRouteJson"
+import {
+  type ClosestApproach,
+  getPointSegmentClosestApproach,
+  getSegmentsClosestApproach,
+} from "./closest-approach"
+import {
+  getPointObstacleClosestApproach,
+  getSegmentObstacleClosestApproach,
+} from "./obstacle-shapes"
+import { doesKeepoutBlockVias } from "./keepouts"
+import { SegmentTree } from "lib/data-structures/SegmentTree"
+import { ObstacleTree } from "lib/data-structures/ObstacleTree"
+
+/** Copper-to-copper clearance used for nets without a net class clearance */
+export const DEFAULT_DRC_CLEARANCE = 0.1
+
+/** Small tolerance so touching copper isn't reported due to float error */
+const EPSILON = 1e-6
+
+type Point = { x: number; y: number }
+
+interface WireSegment {
+  trace: SimplifiedPcbTrace
+  layer: string
+  width: number
+  start: Point
+  end: Point
+  minX: number
+  maxX: number
+  minY: number
+  maxY: number
+}
+
+interface Via {
+  trace: SimplifiedPcbTrace
+  x: number
+  y: number
+  diameter: number
+}
+
+const getWireSegments = (trace: SimplifiedPcbTrace): WireSegment[] => {
+  const segments: WireSegment[] = []
+  for (let i = 0; i < trace.route.length - 1; i++) {
+    const start = trace.route[i]
+    const end = trace.route[i + 1]
+    if (start.route_type !== "wire" || end.route_type !== "wire") continue
+    if (start.layer !== end.layer) continue
+    const width = Math.max(start.width, end.width)
+    segments.push({
+      trace,
+      layer: start.layer,
+      width,
+      start,
+      end,
+      minX: Math.min(start.x, end.x) - width / 2,
+      maxX: Math.max(start.x, end.x) + width / 2,
+      minY: Math.min(start.y, end.y) - width / 2,
+      maxY: Math.max(start.y, end.y) + width / 2,
+    })
+  }
+  return segments
+}
+
+const getVias = (trace: SimplifiedPcbTrace): Via[] => {
+  const vias: Via[] = []
+  for (const point of trace.route) {
+    if (point.route_type !== "via") continue
+    vias.push({
+      trace,
+      x: point.x,
+      y: point.y,
+      diameter: point.via_diameter ?? DEFAULT_VIA_DIAMETER,
+    })
+  }
+  return vias
+}
+
+type Bounds = { minX: number; maxX: number; minY: number; maxY: number }
+
+/**
+ * SegmentTree over the items, the z of each point is the item's index so
+ * items with the same coordinates get their own key
+ */
+const createIndexTree = (items: Array<{ start: Point; end: Point }>) =>
+  new SegmentTree(
+    items.map(({ start, end }, i) => [
+      { x: start.x, y: start.y, z: i },
+      { x: end.x, y: end.y, z: i },
+    ]),
+  )
+
+/** Indices of the tree's items whose bounds could be within margin of bounds */
+const getIndicesNearBounds = (
+  tree: SegmentTree,
+  bounds: Bounds,
+  margin: number,
+): number[] => {
+  // The tree can leave an item out of the last cell its bounds reach, so
+  // look one cell further
+  const paddedMargin = margin + tree.CELL_SIZE
+  return tree
+    .getSegmentsThatCouldIntersect(
+      { x: bounds.minX - paddedMargin, y: bounds.minY - paddedMargin, z: 0 },
+      { x: bounds.maxX + paddedMargin, y: bounds.maxY + paddedMargin, z: 0 },
+    )
+    .map(([start]) => start.z)
+}
+
+/**
+ * Check routed traces against the clearance rules of a SimpleRouteJson and
+ * make sure every point that needs to be connected is connected.
+ *
+ * Reports trace-trace, trace-via, via-via, trace-obstacle and via-obstacle
+ * clearance violations between different nets, copper in keepouts, trace
+ * ends that aren't connected to anything, pointsToConnect that no trace
+ * reaches and connections with more vias than their maxVias.
+ */
+export const checkDesignRules = (
+  srj: SimpleRouteJson,
+  traces: SimplifiedPcbTraces,
+  opts: { defaultClearance?: number } = {},
+): DesignRuleViolation[] => {
+  const violations: DesignRuleViolation[] = []
+  const connMap = getConnectivityMapFromSimpleRouteJson(srj)
+  const traceParamsMap = getTraceParamsMapFromSimpleRouteJson(srj)
+  const defaultClearance =
+    opts.defaultClearance ??
+    srj.defaultNetClass?.clearance ??
+    DEFAULT_DRC_CLEARANCE
+
+  const isSameNet = (connA: string, connB: string) =>
+    connA === connB || connMap.areIdsConnected(connA, connB)
+
+  const isObstacleConnectedTo = (obstacle: Obstacle, connName: string) =>
+    obstacle.connectedTo.some((id) => isSameNet(connName, id))
+
+  const getRequiredClearance = (connA: string, connB?: string) =>
+    getPairClearance(
+      traceParamsMap[connA]?.clearance,
+      connB === undefined ? undefined : traceParamsMap[connB]?.clearance,
+      defaultClearance,
+    )
+
+  const pushClearanceViolation = (
+    type: DesignRuleViolation["type"],
+    approach: ClosestApproach,
+    actualClearance: number,
+    requiredClearance: number,
+    traceA: SimplifiedPcbTrace,
+    traceB: SimplifiedPcbTrace | null,
+    layer?: string,
+  ) => {
+    const connectionNames = traceB
+      ? [traceA.connection_name, traceB.connection_name]
+      : [traceA.connection_name]
+    violations.push({
+      type,
+      message: `${type.replace(/_/g, " ")} violation between ${traceB ? connectionNames.join(" and ") : `${traceA.connection_name} and an obstacle`}: ${actualClearance.toFixed(3)} < ${requiredClearance.toFixed(3)}`,
+      location: approach.location,
+      layer,
+      connectionNames,
+      pcbTraceIds: traceB
+        ? [traceA.pcb_trace_id, traceB.pcb_trace_id]
+        : [traceA.pcb_trace_id],
+      actualClearance,
+      requiredClearance,
+    })
+  }
+
+  const segments = traces.flatMap(getWireSegments)
+  const vias = traces.flatMap(getVias)
+
+  // Anything further apart than this can't violate a clearance
+  const maxRequiredClearance = Math.max(
+    defaultClearance,
+    ...Object.values(traceParamsMap).map((p) => p.clearance ?? 0),
+  )
+  const maxCopperRadius = Math.max(
+    0,
+    ...segments.map((seg) => seg.width / 2),
+    ...vias.map((via) => via.diameter / 2),
+  )
+  const segmentTree = createIndexTree(segments)
+  const viaTree = createIndexTree(vias.map((via) => ({ start: via, end: via })))
+
+  // Trace-trace
+  for (let i = 0; i < segments.length; i++) {
+    const segA = segments[i]
+    const nearbyIndices = getIndicesNearBounds(
+      segmentTree,
+      segA,
+      maxCopperRadius + maxRequiredClearance,
+    )
+    for (const j of nearbyIndices) {
+      if (j <= i) continue
+      const segB = segments[j]
+      if (segA.layer !== segB.layer) continue
+      if (isSameNet(segA.trace.connection_name, segB.trace.connection_name)) {
+        continue
+      }
+      const requiredClearance = getRequiredClearance(
+        segA.trace.connection_name,
+        segB.trace.connection_name,
+      )
+      if (
+        segA.minX > segB.maxX + requiredClearance ||
+        segB.minX > segA.maxX + requiredClearance ||
+        segA.minY > segB.maxY + requiredClearance ||
+        segB.minY > segA.maxY + requiredClearance
+      ) {
+        continue
+      }
+      const approach = getSegmentsClosestApproach(
+        segA.start,
+        segA.end,
+        segB.start,
+        segB.end,
+      )
+      const actualClearance =
+        approach.distance - segA.width / 2 - segB.width / 2
+      if (actualClearance < requiredClearance - EPSILON) {
+        pushClearanceViolation(
+          "trace_trace_clearance",
+          approach,
+          actualClearance,
+          requiredClearance,
+          segA.trace,
+          segB.trace,
+          segA.layer,
+        )
+      }
+    }
+  }
+
+  // Trace-via, vias go through every layer
+  for (const via of vias) {
+    const viaBounds = {
+      minX: via.x - via.diameter / 2,
+      maxX: via.x + via.diameter / 2,
+      minY: via.y - via.diameter / 2,
+      maxY: via.y + via.diameter / 2,
+    }
+    const nearbyIndices = getIndicesNearBounds(
+      segmentTree,
+      viaBounds,
+      maxCopperRadius + maxRequiredClearance,
+    )
+    for (const j of nearbyIndices) {
+      const seg = segments[j]
+      if (isSameNet(via.trace.connection_name, seg.trace.connection_name)) {
+        continue
+      }
+      const requiredClearance = getRequiredClearance(
+        via.trace.connection_name,
+        seg.trace.connection_name,
+      )
+      const reach = via.diameter / 2 + requiredClearance
+      if (
+        via.x + reach < seg.minX ||
+        via.x - reach > seg.maxX ||
+        via.y + reach < seg.minY ||
+        via.y - reach > seg.maxY
+      ) {
+        continue
+      }
+      const approach = getPointSegmentClosestApproach(via, seg.start, seg.end)
+      const actualClearance =
+        approach.distance - via.diameter / 2 - seg.width / 2
+      if (actualClearance < requiredClearance - EPSILON) {
+        pushClearanceViolation(
+          "trace_via_clearance",
+          approach,
+          actualClearance,
+          requiredClearance,
+          seg.trace,
+          via.trace,
+          seg.layer,
+        )
+      }
+    }
+  }
+
+  // Via-via
+  for (let i = 0; i < vias.length; i++) {
+    const viaA = vias[i]
+    const nearbyIndices = getIndicesNearBounds(
+      viaTree,
+      { minX: viaA.x, maxX: viaA.x, minY: viaA.y, maxY: viaA.y },
+      viaA.diameter / 2 + maxCopperRadius + maxRequiredClearance,
+    )
+    for (const j of nearbyIndices) {
+      if (j <= i) continue
+      const viaB = vias[j]
+      if (isSameNet(viaA.trace.connection_name, viaB.trace.connection_name)) {
+        continue
+      }
+      const requiredClearance = getRequiredClearance(
+        viaA.trace.connection_name,
+        viaB.trace.connection_name,
+      )
+      const approach = getPointSegmentClosestApproach(viaA, viaB, viaB)
+      const actualClearance =
+        approach.distance - viaA.diameter / 2 - viaB.diameter / 2
+      if (actualClearance < requiredClearance - EPSILON) {
+        pushClearanceViolation(
+          "via_via_clearance",
+          approach,
+          actualClearance,
+          requiredClearance,
+          viaA.trace,
+          viaB.trace,
+        )
+      }
+    }
+  }
+
+  // Trace-obstacle and via-obstacle
+  const obstacleTree = new ObstacleTree(srj.obstacles)
+  const getObstaclesNearBounds = (bounds: Bounds) => {
+    // The tree can leave an obstacle out of the last cell its bounds reach,
+    // so look one cell further
+    const margin = maxRequiredClearance + obstacleTree.CELL_SIZE
+    return obstacleTree.getNodesInArea(
+      (bounds.minX + bounds.maxX) / 2,
+      (bounds.minY + bounds.maxY) / 2,
+      bounds.maxX - bounds.minX + 2 * margin,
+      bounds.maxY - bounds.minY + 2 * margin,
+    )
+  }
+  for (const seg of segments) {
+    for (const obstacle of getObstaclesNearBounds(seg)) {
+      if (!obstacle.layers.includes(seg.layer)) continue
+      if (isObstacleConnectedTo(obstacle, seg.trace.connection_name)) continue
+      const requiredClearance = getRequiredClearance(seg.trace.connection_name)
+      const approach = getSegmentObstacleClosestApproach(
+        seg.start,
+        seg.end,
+        obstacle,
+      )
+      const actualClearance = approach.distance - seg.width / 2
+      if (actualClearance < requiredClearance - EPSILON) {
+        pushClearanceViolation(
+          "trace_obstacle_clearance",
+          approach,
+          actualClearance,
+          requiredClearance,
+          seg.trace,
+          null,
+          seg.layer,
+        )
+      }
+    }
+  }
+  for (const via of vias) {
+    const viaBounds = {
+      minX: via.x - via.diameter / 2,
+      maxX: via.x + via.diameter / 2,
+      minY: via.y - via.diameter / 2,
+      maxY: via.y + via.diameter / 2,
+    }
+    for (const obstacle of getObstaclesNearBounds(viaBounds)) {
+      if (isObstacleConnectedTo(obstacle, via.trace.connection_name)) continue
+      const requiredClearance = getRequiredClearance(via.trace.connection_name)
+      const approach = getPointObstacleClosestApproach(via, obstacle)
+      const actualClearance = approach.distance - via.diameter / 2
+      if (actualClearance < requiredClearance - EPSILON) {
+        pushClearanceViolation(
+          "via_obstacle_clearance",
+          approach,
+          actualClearance,
+          requiredClearance,
+          via.trace,
+          null,
+        )
+      }
+    }
+  }
+
+  // Keepouts, copper can't overlap a keepout that forbids it
+  for (const keepout of srj.keepouts ?? []) {
+    const blocksTraces = Boolean(keepout.noTraces || keepout.noCopper)
+    for (const seg of blocksTraces ? segments : []) {
+      if (!keepout.layers.includes(seg.layer)) continue
+      const approach = getSegmentObstacleClosestApproach(
+        seg.start,
+        seg.end,
+        keepout,
+      )
+      if (approach.distance - seg.width / 2 >= -EPSILON) continue
+      violations.push({
+        type: "trace_keepout",
+        message: `Trace ${seg.trace.pcb_trace_id} of ${seg.trace.connection_name} enters a keepout on ${seg.layer}`,
+        location: approach.location,
+        layer: seg.layer,
+        connectionNames: [seg.trace.connection_name],
+        pcbTraceIds: [seg.trace.pcb_trace_id],
+      })
+    }
+    for (const via of doesKeepoutBlockVias(keepout) ? vias : []) {
+      const approach = getPointObstacleClosestApproach(via, keepout)
+      if (approach.distance - via.diameter / 2 >= -EPSILON) continue
+      violations.push({
+        type: "via_keepout",
+        message: `Via of ${via.trace.connection_name} at (${via.x}, ${via.y}) is in a keepout`,
+        location: { x: via.x, y: via.y },
+        connectionNames: [via.trace.connection_name],
+        pcbTraceIds: [via.trace.pcb_trace_id],
+      })
+    }
+  }
+
+  // Dangling ends, a trace end must touch a point to connect, a same-net
+  // obstacle or another trace of the same net
+  const pointsToConnectByConnection = new Map(
+    srj.connections.map((c) => [c.name, c.pointsToConnect]),
+  )
+  for (const trace of traces) {
+    const wirePoints = trace.route.filter((p) => p.route_type === "wire")
+    if (wirePoints.length === 0) continue
+    const ends = [wirePoints[0], wirePoints[wirePoints.length - 1]]
+    for (const end of ends) {
+      const tolerance = end.width / 2 + EPSILON
+      const touchesPointToConnect = srj.connections.some(
+        (c) =>
+          isSameNet(c.name, trace.connection_name) &&
+          c.pointsToConnect.some((p) => distance(p, end) <= tolerance),
+      )
+      if (touchesPointToConnect) continue
+      const touchesObstacle = srj.obstacles.some(
+        (o) =>
+          o.layers.includes(end.layer) &&
+          isObstacleConnectedTo(o, trace.connection_name) &&
+          getPointObstacleClosestApproach(end, o).distance <= tolerance,
+      )
+      if (touchesObstacle) continue
+      const touchesOtherTrace = segments.some(
+        (seg) =>
+          seg.trace !== trace &&
+          seg.layer === end.layer &&
+          isSameNet(seg.trace.connection_name, trace.connection_name) &&
+          getPointSegmentClosestApproach(end, seg.start, seg.end).distance <=
+            tolerance + seg.width / 2,
+      )
+      if (touchesOtherTrace) continue
+      violations.push({
+        type: "dangling_trace_end",
+        message: `Trace ${trace.pcb_trace_id} of ${trace.connection_name} ends without connecting to anything`,
+        location: { x: end.x, y: end.y },
+        layer: end.layer,
+        connectionNames: [trace.connection_name],
+        pcbTraceIds: [trace.pcb_trace_id],
+      })
+    }
+  }
+
+  // Unconnected points, every point to connect must be reached by a trace
+  // of its connection
+  for (const [connectionName, pointsToConnect] of pointsToConnectByConnection) {
+    if (pointsToConnect.length < 2) continue
+    const connectionSegments = segments.filter(
+      (seg) => seg.trace.connection_name === connectionName,
+    )
+    for (const point of pointsToConnect) {
+      const isReached = connectionSegments.some(
+        (seg) =>
+          seg.layer === point.layer &&
+          getPointSegmentClosestApproach(point, seg.start, seg.end).distance <=
+            seg.width / 2 + EPSILON,
+      )
+      if (isReached) continue
+      violations.push({
+        type: "unconnected_point",
+        message: `Point (${point.x}, ${point.y}) on ${point.layer} of ${connectionName} isn't connected`,
+        location: { x: point.x, y: point.y },
+        layer: point.layer,
+        connectionNames: [connectionName],
+        pcbTraceIds: [],
+      })
+    }
+  }
+
+  // Via limits, maxVias applies to the route between two points so a
+  // connection may use it once per pair of points it connects
+  for (const connection of srj.connections) {
+    const maxVias = traceParamsMap[connection.name]?.maxVias
+    if (maxVias === undefined) continue
+    const connectionVias = vias.filter(
+      (via) => via.trace.connection_name === connection.name,
+    )
+    const allowedVias =
+      maxVias * Math.max(1, connection.pointsToConnect.length - 1)
+    if (connectionVias.length <= allowedVias) continue
+    const firstExcessVia = connectionVias[allowedVias]
+    violations.push({
+      type: "via_limit",
+      message: `${connection.name} has ${connectionVias.length} vias, more than its limit of ${allowedVias}`,
+      location: { x: firstExcessVia.x, y: firstExcessVia.y },
+      connectionNames: [connection.name],
+      pcbTraceIds: Array.from(
+        new Set(connectionVias.map((via) => via.trace.pcb_trace_id)),
+      ),
+    })
+  }
+
+  return violations
+}
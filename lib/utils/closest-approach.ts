@@ -0,0 +1,119 @@
+import { distance, doSegmentsIntersect } from "@tscircuit/math-utils"
+
+interface Point {
+  x: number
+  y: number
+}
+
+interface Rect {
+  center: Point
+  width: number
+  height: number
+}
+
+export interface ClosestApproach {
+  distance: number
+  /** Midpoint between the closest points of the two shapes */
+  location: Point
+}
+
+const midpoint = (a: Point, b: Point): Point => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+})
+
+export const getClosestPointOnSegment = (p: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSq = dx * dx + dy * dy
+  if (lengthSq === 0) return { x: a.x, y: a.y }
+  const t = Math.max(
+    0,
+    Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq),
+  )
+  return { x: a.x + t * dx, y: a.y + t * dy }
+}
+
+const getLineIntersection = (
+  a1: Point,
+  a2: Point,
+  b1: Point,
+  b2: Point,
+): Point => {
+  const denom = (a1.x - a2.x) * (b1.y - b2.y) - (a1.y - a2.y) * (b1.x - b2.x)
+  // Collinear overlapping segments, any shared point is fine
+  if (Math.abs(denom) < 1e-12) return getClosestPointOnSegment(a1, b1, b2)
+  const t =
+    ((a1.x - b1.x) * (b1.y - b2.y) - (a1.y - b1.y) * (b1.x - b2.x)) / denom
+  return { x: a1.x + t * (a2.x - a1.x), y: a1.y + t * (a2.y - a1.y) }
+}
+
+export const getPointSegmentClosestApproach = (
+  p: Point,
+  a: Point,
+  b: Point,
+): ClosestApproach => {
+  const closest = getClosestPointOnSegment(p, a, b)
+  return { distance: distance(p, closest), location: midpoint(p, closest) }
+}
+
+export const getSegmentsClosestApproach = (
+  a1: Point,
+  a2: Point,
+  b1: Point,
+  b2: Point,
+): ClosestApproach => {
+  if (doSegmentsIntersect(a1, a2, b1, b2)) {
+    return { distance: 0, location: getLineIntersection(a1, a2, b1, b2) }
+  }
+
+  // For non-intersecting segments the closest approach always involves an
+  // endpoint of one of the segments
+  const candidates = [
+    getPointSegmentClosestApproach(a1, b1, b2),
+    getPointSegmentClosestApproach(a2, b1, b2),
+    getPointSegmentClosestApproach(b1, a1, a2),
+    getPointSegmentClosestApproach(b2, a1, a2),
+  ]
+  return candidates.reduce((best, c) => (c.distance < best.distance ? c : best))
+}
+
+export const getSegmentRectClosestApproach = (
+  a: Point,
+  b: Point,
+  rect: Rect,
+): ClosestApproach => {
+  const minX = rect.center.x - rect.width / 2
+  const maxX = rect.center.x + rect.width / 2
+  const minY = rect.center.y - rect.height / 2
+  const maxY = rect.center.y + rect.height / 2
+  const corners = [
+    { x: minX, y: minY },
+    { x: maxX, y: minY },
+    { x: maxX, y: maxY },
+    { x: minX, y: maxY },
+  ]
+
+  for (const p of [a, b]) {
+    if (p.x >= minX && p.x <= maxX && p.y >= minY && p.y <= maxY) {
+      return { distance: 0, location: { x: p.x, y: p.y } }
+    }
+  }
+
+  let best: ClosestApproach = { distance: Infinity, location: a }
+  for (let i = 0; i < corners.length; i++) {
+    const approach = getSegmentsClosestApproach(
+      a,
+      b,
+      corners[i],
+      corners[(i + 1) % corners.length],
+    )
+    if (approach.distance < best.distance) best = approach
+  }
+  return best
+}
+
+export const getPointRectClosestApproach = (
+  p: Point,
+  rect: Rect,
+): ClosestApproach => getSegmentRectClosestApproach(p, p, rect)
@@ -0,0 +1,38 @@
+import type { TraceParams } from "lib/types/high-density-types"
+
+export const getDifferentialPairPartner = (
+  traceParamsMap: Record<string, TraceParams> | undefined,
+  connectionName: string,
+): string | undefined =>
+  traceParamsMap?.[connectionName]?.differentialPair?.partnerConnectionName
+
+/**
+ * Reorder items so the second half of each differential pair directly follows
+ * the first half, other items keep their order
+ */
+export const groupDifferentialPairs = <T>(
+  items: T[],
+  getConnectionName: (item: T) => string,
+  traceParamsMap: Record<string, TraceParams> | undefined,
+): T[] => {
+  const grouped: T[] = []
+  const placed = new Set<T>()
+  for (const item of items) {
+    if (placed.has(item)) continue
+    grouped.push(item)
+    placed.add(item)
+    const partnerName = getDifferentialPairPartner(
+      traceParamsMap,
+      getConnectionName(item),
+    )
+    if (!partnerName) continue
+    const partner = items.find(
+      (other) => !placed.has(other) && getConnectionName(other) === partnerName,
+    )
+    if (partner) {
+      grouped.push(partner)
+      placed.add(partner)
+    }
+  }
+  return grouped
+}
@@ -1,7 +1,17 @@
-export function doRectsOverlap(
-  rect1: { center: { x: number; y: number }; width: number; height: number },
-  rect2: { center: { x: number; y: number }; width: number; height: number },
-) {
+import { getRectCorners } from "./getRectCorners"
+
+type Rect = {
+  center: { x: number; y: number }
+  width: number
+  height: number
+  ccwRotationDegrees?: number
+}
+
+export function doRectsOverlap(rect1: Rect, rect2: Rect) {
+  if (rect1.ccwRotationDegrees || rect2.ccwRotationDegrees) {
+    return doOrientedRectsOverlap(rect1, rect2)
+  }
+
   const rect1Left = rect1.center.x - rect1.width / 2
   const rect1Right = rect1.center.x + rect1.width / 2
   const rect1Top = rect1.center.y - rect1.height / 2
@@ -19,3 +29,31 @@ export function doRectsOverlap(
     rect1Bottom >= rect2Top
   )
 }
+
+/**
+ * Separating axis test, two convex shapes don't overlap if there's an axis
+ * (one of the edge normals) where their projections don't overlap
+ */
+function doOrientedRectsOverlap(rect1: Rect, rect2: Rect) {
+  const corners1 = getRectCorners(rect1)
+  const corners2 = getRectCorners(rect2)
+  for (const corners of [corners1, corners2]) {
+    for (let i = 0; i < 2; i++) {
+      const axis = {
+        x: corners[i + 1].y - corners[i].y,
+        y: corners[i].x - corners[i + 1].x,
+      }
+      const project = (p: { x: number; y: number }) =>
+        p.x * axis.x + p.y * axis.y
+      const projections1 = corners1.map(project)
+      const projections2 = corners2.map(project)
+      if (
+        Math.max(...projections1) < Math.min(...projections2) ||
+        Math.max(...projections2) < Math.min(...projections1)
+      ) {
+        return false
+      }
+    }
+  }
+  return true
+}
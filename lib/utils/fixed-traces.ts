@@ -0,0 +1,189 @@
+import type {
+  Obstacle,
+  SimpleRouteConnection,
+  SimpleRouteJson,
+  SimplifiedPcbTrace,
+  SimplifiedPcbTraces,
+} from "lib/types"
+import { distance } from "@tscircuit/math-utils"
+import { DEFAULT_VIA_DIAMETER } from "./getTraceParamsMapFromSimpleRouteJson"
+import { getPointSegmentClosestApproach } from "./closest-approach"
+import { mapLayerNameToZ } from "./mapLayerNameToZ"
+import { mapZToLayerName } from "./mapZToLayerName"
+import {
+  getPointObstacleClosestApproach,
+  getSegmentObstacleClosestApproach,
+} from "./obstacle-shapes"
+
+type Point = { x: number; y: number }
+
+interface FixedWireSegment {
+  layer: string
+  width: number
+  start: Point
+  end: Point
+}
+
+const getFixedWireSegments = (trace: SimplifiedPcbTrace) => {
+  const segments: FixedWireSegment[] = []
+  for (let i = 0; i < trace.route.length - 1; i++) {
+    const start = trace.route[i]
+    const end = trace.route[i + 1]
+    if (start.route_type !== "wire" || end.route_type !== "wire") continue
+    if (start.layer !== end.layer) continue
+    segments.push({
+      layer: start.layer,
+      width: Math.max(start.width, end.width),
+      start,
+      end,
+    })
+  }
+  return segments
+}
+
+/**
+ * Convert pre-routed input traces into obstacles so the rest of the pipeline
+ * treats them as fixed copper. Each wire segment becomes a (rotated) rect on
+ * its layer, each via a circle on every layer.
+ */
+export const getObstaclesFromTraces = (
+  traces: SimplifiedPcbTraces,
+  layerCount: number,
+): Obstacle[] => {
+  const obstacles: Obstacle[] = []
+  const allLayerNames = Array.from({ length: layerCount }, (_, z) =>
+    mapZToLayerName(z, layerCount),
+  )
+  for (const trace of traces) {
+    for (const { layer, width, start, end } of getFixedWireSegments(trace)) {
+      const length = distance(start, end)
+      const angle = Math.atan2(end.y - start.y, end.x - start.x)
+      obstacles.push({
+        type: "rect",
+        layers: [layer],
+        zLayers: [mapLayerNameToZ(layer, layerCount)],
+        center: { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 },
+        // Cover the round ends of the trace
+        width: length + width,
+        height: width,
+        ccwRotationDegrees: angle === 0 ? undefined : (angle * 180) / Math.PI,
+        connectedTo: [trace.connection_name],
+      })
+    }
+    for (const point of trace.route) {
+      if (point.route_type !== "via") continue
+      const diameter = point.via_diameter ?? DEFAULT_VIA_DIAMETER
+      obstacles.push({
+        type: "circle",
+        layers: allLayerNames,
+        zLayers: allLayerNames.map((_, z) => z),
+        center: { x: point.x, y: point.y },
+        width: diameter,
+        height: diameter,
+        connectedTo: [trace.connection_name],
+      })
+    }
+  }
+  return obstacles
+}
+
+const isTraceOfConnection = (
+  trace: SimplifiedPcbTrace,
+  connection: SimpleRouteConnection,
+) =>
+  trace.connection_name === connection.name ||
+  (connection.netConnectionName !== undefined &&
+    trace.connection_name === connection.netConnectionName)
+
+/**
+ * Check if the trace reaches the point, either directly or by touching the
+ * pad the point is on
+ */
+const doesTraceReachPoint = (
+  trace: SimplifiedPcbTrace,
+  point: SimpleRouteConnection["pointsToConnect"][number],
+  obstacles: Obstacle[],
+) => {
+  const pads = obstacles.filter(
+    (o) =>
+      o.layers.includes(point.layer) &&
+      getPointObstacleClosestApproach(point, o).distance === 0,
+  )
+  return getFixedWireSegments(trace).some(
+    (seg) =>
+      seg.layer === point.layer &&
+      (getPointSegmentClosestApproach(point, seg.start, seg.end).distance <=
+        seg.width / 2 ||
+        pads.some(
+          (pad) =>
+            getSegmentObstacleClosestApproach(seg.start, seg.end, pad)
+              .distance <=
+            seg.width / 2,
+        )),
+  )
+}
+
+/** Check if an end of trace A touches a wire of trace B on the same layer */
+const doTracesTouch = (a: SimplifiedPcbTrace, b: SimplifiedPcbTrace) => {
+  const segmentsB = getFixedWireSegments(b)
+  for (const segA of getFixedWireSegments(a)) {
+    for (const end of [segA.start, segA.end]) {
+      for (const segB of segmentsB) {
+        if (segA.layer !== segB.layer) continue
+        if (
+          getPointSegmentClosestApproach(end, segB.start, segB.end).distance <=
+          (segA.width + segB.width) / 2
+        ) {
+          return true
+        }
+      }
+    }
+  }
+  return false
+}
+
+/**
+ * Names of the connections whose pointsToConnect are already connected by
+ * the input traces, these connections don't need to be routed
+ */
+export const getConnectionsRoutedByTraces = (
+  srj: SimpleRouteJson,
+): Set<string> => {
+  const routedConnectionNames = new Set<string>()
+  for (const connection of srj.connections) {
+    const traces = (srj.traces ?? []).filter((t) =>
+      isTraceOfConnection(t, connection),
+    )
+    if (traces.length === 0) continue
+
+    // Group traces that touch each other
+    const groupIndex = traces.map((_, i) => i)
+    const findGroup = (i: number): number => {
+      if (groupIndex[i] !== i) groupIndex[i] = findGroup(groupIndex[i])
+      return groupIndex[i]
+    }
+    for (let i = 0; i < traces.length; i++) {
+      for (let j = i + 1; j < traces.length; j++) {
+        if (doTracesTouch(traces[i], traces[j])) {
+          groupIndex[findGroup(i)] = findGroup(j)
+        }
+      }
+    }
+
+    // Every point must be reached by the same group of traces
+    const groupsReachingPoints = connection.pointsToConnect.map((point) => {
+      const groups = new Set<number>()
+      traces.forEach((trace, i) => {
+        if (doesTraceReachPoint(trace, point, srj.obstacles)) {
+          groups.add(findGroup(i))
+        }
+      })
+      return groups
+    })
+    const isConnected = [...(groupsReachingPoints[0] ?? [])].some((group) =>
+      groupsReachingPoints.every((groups) => groups.has(group)),
+    )
+    if (isConnected) routedConnectionNames.add(connection.name)
+  }
+  return routedConnectionNames
+}
@@ -0,0 +1,76 @@
+import type { SimpleRouteJson } from "lib/types"
+import { checkDesignRules } from "./checkDesignRules"
+
+/** Settings that change how every connection is routed */
+const GLOBAL_SETTING_KEYS = [
+  "layerCount",
+  "minTraceWidth",
+  "bounds",
+  "outline",
+  "edgeClearance",
+  "keepouts",
+  "netClasses",
+  "defaultNetClass",
+  "differentialPairs",
+] as const
+
+/**
+ * Find the connections of the edited srj that need to be rerouted given the
+ * output of a previous run.
+ *
+ * A connection is affected when it was added or changed, or when its previous
+ * traces are no longer valid for the edited board, e.g. a moved pad leaves a
+ * trace dangling or a new obstacle overlaps it. Changing a global setting
+ * such as the layer count or net classes affects every connection. Members of
+ * a length match group are rerouted together.
+ */
+export const getAffectedConnectionNames = (
+  previousOutputSrj: SimpleRouteJson,
+  srj: SimpleRouteJson,
+): Set<string> => {
+  const allConnectionNames = new Set(srj.connections.map((c) => c.name))
+  for (const key of GLOBAL_SETTING_KEYS) {
+    if (JSON.stringify(previousOutputSrj[key]) !== JSON.stringify(srj[key])) {
+      return allConnectionNames
+    }
+  }
+
+  const affected = new Set<string>()
+  for (const connection of srj.connections) {
+    const previousConnection = previousOutputSrj.connections.find(
+      (c) => c.name === connection.name,
+    )
+    if (JSON.stringify(previousConnection) !== JSON.stringify(connection)) {
+      affected.add(connection.name)
+    }
+  }
+
+  // Check the traces we'd keep against the edited board
+  const keptTraces = (previousOutputSrj.traces ?? []).filter(
+    (t) =>
+      allConnectionNames.has(t.connection_name) &&
+      !affected.has(t.connection_name),
+  )
+  const violations = checkDesignRules({ ...srj, traces: undefined }, [
+    ...(srj.traces ?? []),
+    ...keptTraces,
+  ])
+  for (const violation of violations) {
+    for (const connectionName of violation.connectionNames) {
+      if (allConnectionNames.has(connectionName)) affected.add(connectionName)
+    }
+  }
+
+  const affectedGroups = new Set(
+    srj.connections
+      .filter((c) => affected.has(c.name) && c.lengthMatchGroup !== undefined)
+      .map((c) => c.lengthMatchGroup),
+  )
+  for (const connection of srj.connections) {
+    if (affectedGroups.has(connection.lengthMatchGroup)) {
+      affected.add(connection.name)
+    }
+  }
+
+  return affected
+}
@@ -0,0 +1,19 @@
+import type { SimpleRouteJson } from "lib/types"
+
+/**
+ * The outline routes must stay inside of, the bounds are only used as the
+ * outline when an edge clearance is given
+ */
+export const getBoardOutline = (
+  srj: SimpleRouteJson,
+): Array<{ x: number; y: number }> | undefined => {
+  if (srj.outline) return srj.outline
+  if (!srj.edgeClearance) return undefined
+  const { minX, maxX, minY, maxY } = srj.bounds
+  return [
+    { x: minX, y: minY },
+    { x: maxX, y: minY },
+    { x: maxX, y: maxY },
+    { x: minX, y: maxY },
+  ]
+}
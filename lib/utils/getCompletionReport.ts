@@ -0,0 +1,120 @@
+import type { CompletionReport, SimpleRouteConnection } from "lib/types"
+import type {
+  HighDensityIntraNodeRoute,
+  NodeWithPortPoints,
+} from "lib/types/high-density-types"
+
+/**
+ * Get the original connection name from a point-pair connection name, e.g.
+ * "connection1_mst0" -> "connection1"
+ */
+export const getOriginalConnectionName = (connectionName: string): string => {
+  const match = connectionName.match(/^(.+?)_mst\d+$/)
+  return match ? match[1] : connectionName
+}
+
+/**
+ * Get the index of a point-pair connection in its net, e.g.
+ * "connection1_mst2" -> 2
+ */
+export const getPointPairIndex = (connectionName: string): number =>
+  Number(connectionName.match(/_mst(\d+)$/)?.[1] ?? 0)
+
+/**
+ * Summarize which connections were routed from the results of the pipeline
+ * stages.
+ *
+ * A point-pair connection is routed when the pathing solver found a path for
+ * it and none of the high density nodes it passes through failed. It failed
+ * when no high density route was found for it at all, otherwise it is
+ * partially routed. Connections split into multiple point-pairs are only
+ * routed when all of their point-pairs are routed.
+ */
+export const getCompletionReport = ({
+  pointPairConnections,
+  unpathedConnectionNames,
+  hdRoutes,
+  failedNodes,
+  highDensityRoutingComplete,
+  connectionNamesRoutedByInputTraces = [],
+}: {
+  pointPairConnections: SimpleRouteConnection[]
+  /** Connections the pathing solver couldn't find a path for */
+  unpathedConnectionNames: string[]
+  hdRoutes: HighDensityIntraNodeRoute[]
+  failedNodes: Array<{
+    nodeWithPortPoints: NodeWithPortPoints
+    error: string | null
+  }>
+  /** False if the pipeline stopped before high density routing finished */
+  highDensityRoutingComplete: boolean
+  /** Connections the input traces already connect, they count as routed */
+  connectionNamesRoutedByInputTraces?: string[]
+}): CompletionReport => {
+  const unpathed = new Set(unpathedConnectionNames)
+  const connectionsWithHdRoutes = new Set(hdRoutes.map((r) => r.connectionName))
+  const connectionsInFailedNodes = new Set(
+    failedNodes.flatMap((n) =>
+      n.nodeWithPortPoints.portPoints.map((p) => p.connectionName),
+    ),
+  )
+
+  const statusesByConnection = new Map<
+    string,
+    Array<"routed" | "partial" | "failed">
+  >()
+  let routedPointPairs = 0
+  for (const { name } of pointPairConnections) {
+    let status: "routed" | "partial" | "failed"
+    if (
+      highDensityRoutingComplete &&
+      !unpathed.has(name) &&
+      !connectionsInFailedNodes.has(name)
+    ) {
+      status = "routed"
+      routedPointPairs++
+    } else if (connectionsWithHdRoutes.has(name)) {
+      status = "partial"
+    } else {
+      status = "failed"
+    }
+    const originalName = getOriginalConnectionName(name)
+    statusesByConnection.set(originalName, [
+      ...(statusesByConnection.get(originalName) ?? []),
+      status,
+    ])
+  }
+
+  const report: CompletionReport = {
+    routedConnectionNames: [...connectionNamesRoutedByInputTraces],
+    partiallyRoutedConnectionNames: [],
+    failedConnectionNames: [],
+    failedNodes: failedNodes.map(({ nodeWithPortPoints, error }) => ({
+      capacityMeshNodeId: nodeWithPortPoints.capacityMeshNodeId,
+      connectionNames: Array.from(
+        new Set(
+          nodeWithPortPoints.portPoints.map((p) =>
+            getOriginalConnectionName(p.connectionName),
+          ),
+        ),
+      ),
+      error,
+    })),
+    completionPercentage:
+      pointPairConnections.length === 0
+        ? 100
+        : (routedPointPairs / pointPairConnections.length) * 100,
+  }
+
+  for (const [connectionName, statuses] of statusesByConnection) {
+    if (statuses.every((s) => s === "routed")) {
+      report.routedConnectionNames.push(connectionName)
+    } else if (statuses.every((s) => s === "failed")) {
+      report.failedConnectionNames.push(connectionName)
+    } else {
+      report.partiallyRoutedConnectionNames.push(connectionName)
+    }
+  }
+
+  return report
+}
@@ -4,6 +4,10 @@ import { ConnectivityMap } from "circuit-json-to-connectivity-map"
 export const getConnectivityMapFromSimpleRouteJson = (srj: SimpleRouteJson) => {
   const connMap = new ConnectivityMap({})
   for (const connection of srj.connections) {
+    // The point pairs of a net are connected even where they share no port
+    if (connection.netConnectionName) {
+      connMap.addConnections([[connection.name, connection.netConnectionName]])
+    }
     for (const point of connection.pointsToConnect) {
       if ("pcb_port_id" in point && point.pcb_port_id) {
         connMap.addConnections([[connection.name, point.pcb_port_id as string]])
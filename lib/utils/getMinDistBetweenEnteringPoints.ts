@@ -12,6 +12,13 @@ export const getMinDistBetweenEnteringPoints = (node: NodeWithPortPoints) => {
       }
       const p1 = points[i]
       const p2 = points[j]
+      // A connection that tees off another one ends on its port point
+      if (
+        p1.teesOffConnectionName === p2.connectionName ||
+        p2.teesOffConnectionName === p1.connectionName
+      ) {
+        continue
+      }
 
       // Calculate Euclidean distance between points
       const dist = Math.sqrt((p1.x - p2.x) ** 2 + (p1.y - p2.y) ** 2)
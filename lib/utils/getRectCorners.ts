@@ -0,0 +1,25 @@
+/**
+ * Get the corners of a rect in counter-clockwise order, taking its
+ * ccwRotationDegrees around the center into account
+ */
+export function getRectCorners(rect: {
+  center: { x: number; y: number }
+  width: number
+  height: number
+  ccwRotationDegrees?: number
+}): Array<{ x: number; y: number }> {
+  const angle = ((rect.ccwRotationDegrees ?? 0) * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const halfWidth = rect.width / 2
+  const halfHeight = rect.height / 2
+  return [
+    [-halfWidth, -halfHeight],
+    [halfWidth, -halfHeight],
+    [halfWidth, halfHeight],
+    [-halfWidth, halfHeight],
+  ].map(([x, y]) => ({
+    x: rect.center.x + x * cos - y * sin,
+    y: rect.center.y + x * sin + y * cos,
+  }))
+}
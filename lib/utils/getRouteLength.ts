@@ -0,0 +1,16 @@
+/**
+ * Length of a route along the board, layer changes (vias) don't add any
+ * length
+ */
+export const getRouteLength = (
+  route: Array<{ x: number; y: number; z: number }>,
+) => {
+  let length = 0
+  for (let i = 0; i < route.length - 1; i++) {
+    const a = route[i]
+    const b = route[i + 1]
+    if (a.z !== b.z) continue
+    length += Math.hypot(b.x - a.x, b.y - a.y)
+  }
+  return length
+}
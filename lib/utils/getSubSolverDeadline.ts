@@ -0,0 +1,15 @@
+/**
+ * Deadline of the next of `remainingCount` sub-solvers. Each gets up to
+ * `shareFactor` times an even share of the time left, so a hard sub-problem
+ * gives up early instead of using the time of the ones after it.
+ */
+export const getSubSolverDeadline = (
+  deadline: number | undefined,
+  remainingCount: number,
+  shareFactor: number,
+): number | undefined => {
+  if (deadline === undefined) return undefined
+  const now = performance.now()
+  const evenShare = (deadline - now) / Math.max(1, remainingCount)
+  return Math.min(deadline, now + evenShare * shareFactor)
+}
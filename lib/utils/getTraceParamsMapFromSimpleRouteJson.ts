@@ -0,0 +1,106 @@
+import {
+  DifferentialPair,
+  NetClass,
+  SimpleRouteConnection,
+  SimpleRouteJson,
+} from "lib/types"
+import { TraceParams } from "lib/types/high-density-types"
+import { mapLayerNameToZ } from "./mapLayerNameToZ"
+
+export const DEFAULT_TRACE_THICKNESS = 0.15
+export const DEFAULT_VIA_DIAMETER = 0.6
+
+/**
+ * Get the trace params for a SimpleRouteJson, connections that don't specify
+ * a traceWidth use the default net class or the board's minTraceWidth
+ */
+export const getDefaultTraceParams = (srj: SimpleRouteJson): TraceParams => ({
+  traceThickness:
+    srj.defaultNetClass?.traceWidth ??
+    srj.minTraceWidth ??
+    DEFAULT_TRACE_THICKNESS,
+  viaDiameter: srj.defaultNetClass?.viaDiameter ?? DEFAULT_VIA_DIAMETER,
+  viaHoleDiameter: srj.defaultNetClass?.viaHoleDiameter,
+  clearance: srj.defaultNetClass?.clearance,
+  maxVias: srj.defaultNetClass?.maxVias,
+  viaCostFactor: srj.viaCostFactor,
+})
+
+export const getNetClassForConnection = (
+  srj: SimpleRouteJson,
+  connection: SimpleRouteConnection,
+): NetClass | undefined =>
+  srj.netClasses?.find(
+    (netClass) =>
+      netClass.connections.includes(connection.name) ||
+      (connection.netConnectionName !== undefined &&
+        netClass.connections.includes(connection.netConnectionName)),
+  )
+
+export const getDifferentialPairForConnection = (
+  srj: SimpleRouteJson,
+  connection: SimpleRouteConnection,
+): DifferentialPair | undefined =>
+  srj.differentialPairs?.find((pair) =>
+    pair.connectionNames.includes(connection.name),
+  )
+
+/**
+ * Values set on a connection take precedence over its differential pair and
+ * net class, which take precedence over the default net class
+ */
+export const getTraceParamsMapFromSimpleRouteJson = (
+  srj: SimpleRouteJson,
+): Record<string, TraceParams> => {
+  const defaultTraceParams = getDefaultTraceParams(srj)
+  const traceParamsMap: Record<string, TraceParams> = {}
+  for (const connection of srj.connections) {
+    const netClass = getNetClassForConnection(srj, connection)
+    const differentialPair = getDifferentialPairForConnection(srj, connection)
+    traceParamsMap[connection.name] = {
+      traceThickness:
+        connection.traceWidth ??
+        differentialPair?.traceWidth ??
+        netClass?.traceWidth ??
+        defaultTraceParams.traceThickness,
+      viaDiameter:
+        connection.viaDiameter ??
+        netClass?.viaDiameter ??
+        defaultTraceParams.viaDiameter,
+      viaHoleDiameter:
+        connection.viaHoleDiameter ??
+        netClass?.viaHoleDiameter ??
+        defaultTraceParams.viaHoleDiameter,
+      clearance: netClass?.clearance ?? defaultTraceParams.clearance,
+      maxVias:
+        connection.maxVias ?? netClass?.maxVias ?? defaultTraceParams.maxVias,
+      viaCostFactor: defaultTraceParams.viaCostFactor,
+    }
+    const pointZs = new Set(
+      connection.pointsToConnect.map((p) =>
+        mapLayerNameToZ(p.layer, srj.layerCount),
+      ),
+    )
+    if (traceParamsMap[connection.name].maxVias === 0 && pointZs.size === 1) {
+      traceParamsMap[connection.name].requiredZ = Array.from(pointZs)[0]
+    }
+    if (differentialPair) {
+      traceParamsMap[connection.name].differentialPair = {
+        partnerConnectionName: differentialPair.connectionNames.find(
+          (name) => name !== connection.name,
+        )!,
+        gap: differentialPair.gap,
+      }
+    }
+  }
+  return traceParamsMap
+}
+
+/**
+ * The clearance required between two nets is the larger of their clearances
+ */
+export const getPairClearance = (
+  clearanceA: number | undefined,
+  clearanceB: number | undefined,
+  defaultClearance: number,
+) => Math.max(clearanceA ?? defaultClearance, clearanceB ?? defaultClearance)
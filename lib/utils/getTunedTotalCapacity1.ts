@@ -8,15 +8,16 @@ import { CapacityMeshNode } from "lib/types/capacity-mesh-types"
  *
  * @param nodeOrWidth The node or width to calculate capacity for
  * @param maxCapacityFactor Optional multiplier to adjust capacity
+ * @param opts Optional via diameter and obstacle margin to compute with
  * @returns The calculated capacity
  */
 export const getTunedTotalCapacity1 = (
   nodeOrWidth: CapacityMeshNode | { width: number },
   maxCapacityFactor = 1,
+  opts: { viaDiameter?: number; obstacleMargin?: number } = {},
 ) => {
-  const VIA_DIAMETER = 0.6
-  const TRACE_WIDTH = 0.15
-  const obstacleMargin = 0.2
+  const VIA_DIAMETER = opts.viaDiameter ?? 0.6
+  const obstacleMargin = opts.obstacleMargin ?? 0.2
 
   const width = "width" in nodeOrWidth ? nodeOrWidth.width : nodeOrWidth
   const viaLengthAcross = width / (VIA_DIAMETER / 2 + obstacleMargin)
@@ -57,3 +58,24 @@ export const calculateOptimalCapacityDepth = (
   // until the smallest nodes have capacity <= targetMinCapacity
   return Math.max(1, depth)
 }
+
+/**
+ * How much capacity a connection uses in each node it passes through,
+ * relative to a connection with the default trace width and via diameter.
+ *
+ * Wide traces (e.g. power nets), large vias and net classes with a large
+ * clearance take up more of a node than a default signal trace.
+ */
+export const getConnectionCapacityUsage = (
+  connection: { traceWidth?: number; viaDiameter?: number; clearance?: number },
+  defaults: { traceWidth: number; viaDiameter: number },
+  obstacleMargin = 0.2,
+) => {
+  const traceWidth = connection.traceWidth ?? defaults.traceWidth
+  const viaDiameter = connection.viaDiameter ?? defaults.viaDiameter
+  const clearance = connection.clearance ?? obstacleMargin
+  return Math.max(
+    (traceWidth + clearance) / (defaults.traceWidth + obstacleMargin),
+    (viaDiameter / 2 + clearance) / (defaults.viaDiameter / 2 + obstacleMargin),
+  )
+}
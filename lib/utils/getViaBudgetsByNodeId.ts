@@ -0,0 +1,106 @@
+import { distance } from "@tscircuit/math-utils"
+import type { CapacityMeshNodeId, SimpleRouteConnection } from "lib/types"
+import type {
+  NodeWithPortPoints,
+  PortPoint,
+  TraceParams,
+} from "lib/types/high-density-types"
+import { mapLayerNameToZ } from "./mapLayerNameToZ"
+
+/**
+ * Vias a connection needs inside a node to join its port points there, one
+ * per extra layer its port points are on
+ */
+export const getRequiredViaCount = (portPoints: Array<{ z: number }>) =>
+  new Set(portPoints.map((p) => p.z)).size - 1
+
+/**
+ * Split the maxVias of each via limited connection across the nodes it passes
+ * through. A node gets the via its port points need if they're on different
+ * layers, plus a share of what's left of the connection's budget after the
+ * vias the planned layers need, in the nodes and at the connection's points.
+ *
+ * Extra vias are only useful in pairs (changing layer and back), the pairs go
+ * to the busiest nodes first where crossing other traces is most likely.
+ * Connections that aren't in a node's budgets get no extra vias there.
+ */
+export const getViaBudgetsByNodeId = ({
+  nodesWithPortPoints,
+  connections,
+  traceParamsMap,
+  layerCount,
+}: {
+  nodesWithPortPoints: NodeWithPortPoints[]
+  connections: SimpleRouteConnection[]
+  traceParamsMap: Record<string, TraceParams>
+  layerCount: number
+}): Map<CapacityMeshNodeId, Record<string, number>> => {
+  const connectionMap = new Map(connections.map((c) => [c.name, c]))
+  const plannedVias = new Map<string, number>()
+  const budgetedNodes = new Map<
+    string,
+    Array<{ node: NodeWithPortPoints; budget: number }>
+  >()
+
+  for (const node of nodesWithPortPoints) {
+    const portPointsByConnection = new Map<string, PortPoint[]>()
+    for (const portPoint of node.portPoints) {
+      const { connectionName } = portPoint
+      if (traceParamsMap[connectionName]?.maxVias === undefined) continue
+      portPointsByConnection.set(connectionName, [
+        ...(portPointsByConnection.get(connectionName) ?? []),
+        portPoint,
+      ])
+    }
+
+    for (const [connectionName, portPoints] of portPointsByConnection) {
+      let requiredVias = 0
+      if (portPoints.length === 1) {
+        // The route is stitched to the connection's point inside the node
+        const terminal = connectionMap
+          .get(connectionName)
+          ?.pointsToConnect.reduce((best, p) =>
+            distance(p, node.center) < distance(best, node.center) ? p : best,
+          )
+        if (
+          terminal &&
+          mapLayerNameToZ(terminal.layer, layerCount) !== portPoints[0].z
+        ) {
+          requiredVias = 1
+        }
+      } else {
+        requiredVias = getRequiredViaCount(portPoints)
+        budgetedNodes.set(connectionName, [
+          ...(budgetedNodes.get(connectionName) ?? []),
+          { node, budget: requiredVias },
+        ])
+      }
+      plannedVias.set(
+        connectionName,
+        (plannedVias.get(connectionName) ?? 0) + requiredVias,
+      )
+    }
+  }
+
+  const viaBudgetsByNodeId = new Map<
+    CapacityMeshNodeId,
+    Record<string, number>
+  >()
+  for (const [connectionName, nodes] of budgetedNodes) {
+    const maxVias = traceParamsMap[connectionName].maxVias!
+    let extraPairs = Math.floor(
+      Math.max(0, maxVias - plannedVias.get(connectionName)!) / 2,
+    )
+    nodes.sort((a, b) => b.node.portPoints.length - a.node.portPoints.length)
+    for (let i = 0; extraPairs > 0; i = (i + 1) % nodes.length) {
+      nodes[i].budget += 2
+      extraPairs--
+    }
+    for (const { node, budget } of nodes) {
+      const nodeBudgets = viaBudgetsByNodeId.get(node.capacityMeshNodeId) ?? {}
+      nodeBudgets[connectionName] = budget
+      viaBudgetsByNodeId.set(node.capacityMeshNodeId, nodeBudgets)
+    }
+  }
+  return viaBudgetsByNodeId
+}
@@ -1,11 +1,25 @@
 export function isPointInRect(
   point: { x: number; y: number },
-  rect: { center: { x: number; y: number }; width: number; height: number },
+  rect: {
+    center: { x: number; y: number }
+    width: number
+    height: number
+    ccwRotationDegrees?: number
+  },
 ) {
+  let { x, y } = point
+  if (rect.ccwRotationDegrees) {
+    // Rotate the point into the rect's frame
+    const angle = (-rect.ccwRotationDegrees * Math.PI) / 180
+    const dx = x - rect.center.x
+    const dy = y - rect.center.y
+    x = rect.center.x + dx * Math.cos(angle) - dy * Math.sin(angle)
+    y = rect.center.y + dx * Math.sin(angle) + dy * Math.cos(angle)
+  }
   return (
-    point.x >= rect.center.x - rect.width / 2 &&
-    point.x <= rect.center.x + rect.width / 2 &&
-    point.y >= rect.center.y - rect.height / 2 &&
-    point.y <= rect.center.y + rect.height / 2
+    x >= rect.center.x - rect.width / 2 &&
+    x <= rect.center.x + rect.width / 2 &&
+    y >= rect.center.y - rect.height / 2 &&
+    y <= rect.center.y + rect.height / 2
   )
 }
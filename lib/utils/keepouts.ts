@@ -0,0 +1,13 @@
+import type { Keepout } from "lib/types"
+
+/** Check if the keepout forbids traces on layer z */
+export const doesKeepoutBlockTraces = (keepout: Keepout, z: number) =>
+  Boolean(keepout.noTraces || keepout.noCopper) &&
+  Boolean(keepout.zLayers?.includes(z))
+
+/**
+ * Check if the keepout forbids vias, a via goes through every layer so a via
+ * keepout on any layer blocks it
+ */
+export const doesKeepoutBlockVias = (keepout: Keepout) =>
+  Boolean(keepout.noVias || keepout.noCopper)
@@ -0,0 +1,210 @@
+import { distance } from "@tscircuit/math-utils"
+import type { ObstacleShape } from "lib/types"
+import {
+  type ClosestApproach,
+  getClosestPointOnSegment,
+  getPointRectClosestApproach,
+  getPointSegmentClosestApproach,
+  getSegmentRectClosestApproach,
+  getSegmentsClosestApproach,
+} from "./closest-approach"
+import { getRectCorners } from "./getRectCorners"
+
+interface Point {
+  x: number
+  y: number
+}
+
+interface Rect {
+  center: Point
+  width: number
+  height: number
+}
+
+export const getCircleObstacleRadius = (obstacle: ObstacleShape) =>
+  Math.min(obstacle.width, obstacle.height) / 2
+
+/**
+ * Outline of polygons and rotated rects, null for shapes that aren't
+ * polygons (axis-aligned rects and circles)
+ */
+export const getObstaclePolygon = (obstacle: ObstacleShape): Point[] | null => {
+  if (obstacle.type === "polygon" && obstacle.points) return obstacle.points
+  if (obstacle.type === "rect" && obstacle.ccwRotationDegrees) {
+    return getRectCorners(obstacle)
+  }
+  return null
+}
+
+export const getObstacleBounds = (obstacle: ObstacleShape) => {
+  const polygon = getObstaclePolygon(obstacle)
+  if (obstacle.type === "rect" && polygon) {
+    const xs = polygon.map((p) => p.x)
+    const ys = polygon.map((p) => p.y)
+    return {
+      minX: Math.min(...xs),
+      maxX: Math.max(...xs),
+      minY: Math.min(...ys),
+      maxY: Math.max(...ys),
+    }
+  }
+  return {
+    minX: obstacle.center.x - obstacle.width / 2,
+    maxX: obstacle.center.x + obstacle.width / 2,
+    minY: obstacle.center.y - obstacle.height / 2,
+    maxY: obstacle.center.y + obstacle.height / 2,
+  }
+}
+
+export const getPolygonEdges = (polygon: Point[]): Array<[Point, Point]> =>
+  polygon.map((p, i) => [p, polygon[(i + 1) % polygon.length]])
+
+export const isPointInPolygon = (p: Point, polygon: Point[]) => {
+  let inside = false
+  for (const [a, b] of getPolygonEdges(polygon)) {
+    if (
+      a.y > p.y !== b.y > p.y &&
+      p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+const doRectBoundsOverlap = (
+  a: Rect,
+  b: { minX: number; maxX: number; minY: number; maxY: number },
+) =>
+  a.center.x - a.width / 2 <= b.maxX &&
+  a.center.x + a.width / 2 >= b.minX &&
+  a.center.y - a.height / 2 <= b.maxY &&
+  a.center.y + a.height / 2 >= b.minY
+
+export const isPointInObstacle = (p: Point, obstacle: ObstacleShape) =>
+  getPointObstacleClosestApproach(p, obstacle).distance === 0
+
+/**
+ * Closest approach between a point and the obstacle's shape, the distance is
+ * 0 when the point is inside the obstacle
+ */
+export const getPointObstacleClosestApproach = (
+  p: Point,
+  obstacle: ObstacleShape,
+): ClosestApproach => getSegmentObstacleClosestApproach(p, p, obstacle)
+
+/**
+ * Closest approach between a segment and the obstacle's shape, the distance
+ * is 0 when the segment touches or is inside the obstacle
+ */
+export const getSegmentObstacleClosestApproach = (
+  a: Point,
+  b: Point,
+  obstacle: ObstacleShape,
+): ClosestApproach => {
+  if (obstacle.type === "circle") {
+    const radius = getCircleObstacleRadius(obstacle)
+    const closest = getClosestPointOnSegment(obstacle.center, a, b)
+    const centerDist = distance(obstacle.center, closest)
+    if (centerDist <= radius) return { distance: 0, location: closest }
+    const t = radius / centerDist
+    const pointOnCircle = {
+      x: obstacle.center.x + (closest.x - obstacle.center.x) * t,
+      y: obstacle.center.y + (closest.y - obstacle.center.y) * t,
+    }
+    return {
+      distance: centerDist - radius,
+      location: {
+        x: (closest.x + pointOnCircle.x) / 2,
+        y: (closest.y + pointOnCircle.y) / 2,
+      },
+    }
+  }
+
+  const polygon = getObstaclePolygon(obstacle)
+  if (polygon) {
+    for (const p of [a, b]) {
+      if (isPointInPolygon(p, polygon)) {
+        return { distance: 0, location: { x: p.x, y: p.y } }
+      }
+    }
+    let best: ClosestApproach = { distance: Infinity, location: a }
+    for (const [e1, e2] of getPolygonEdges(polygon)) {
+      const approach =
+        a === b
+          ? getPointSegmentClosestApproach(a, e1, e2)
+          : getSegmentsClosestApproach(a, b, e1, e2)
+      if (approach.distance < best.distance) best = approach
+    }
+    return best
+  }
+
+  return a === b
+    ? getPointRectClosestApproach(a, obstacle)
+    : getSegmentRectClosestApproach(a, b, obstacle)
+}
+
+/** Check if an axis-aligned rect (e.g. a mesh node) overlaps the obstacle */
+export const doesRectOverlapObstacle = (
+  rect: Rect,
+  obstacle: ObstacleShape,
+) => {
+  if (!doRectBoundsOverlap(rect, getObstacleBounds(obstacle))) return false
+
+  if (obstacle.type === "circle") {
+    return (
+      getPointRectClosestApproach(obstacle.center, rect).distance <=
+      getCircleObstacleRadius(obstacle)
+    )
+  }
+
+  const polygon = getObstaclePolygon(obstacle)
+  if (polygon) return doesRectOverlapPolygon(rect, polygon)
+
+  return true
+}
+
+/** Check if an axis-aligned rect overlaps the polygon */
+export const doesRectOverlapPolygon = (rect: Rect, polygon: Point[]) =>
+  isPointInPolygon(rect.center, polygon) ||
+  getPolygonEdges(polygon).some(
+    ([e1, e2]) => getSegmentRectClosestApproach(e1, e2, rect).distance === 0,
+  )
+
+/** Check if an axis-aligned rect is completely inside the polygon */
+export const isRectInsidePolygon = (rect: Rect, polygon: Point[]) => {
+  if (!getRectCorners(rect).every((c) => isPointInPolygon(c, polygon))) {
+    return false
+  }
+  // A concave polygon can cut into the rect between its corners
+  const interior = {
+    center: rect.center,
+    width: rect.width - 1e-9,
+    height: rect.height - 1e-9,
+  }
+  return !getPolygonEdges(polygon).some(
+    ([e1, e2]) =>
+      getSegmentRectClosestApproach(e1, e2, interior).distance === 0,
+  )
+}
+
+/** Check if an axis-aligned rect is completely inside the obstacle */
+export const isRectInsideObstacle = (rect: Rect, obstacle: ObstacleShape) => {
+  if (obstacle.type === "circle") {
+    const radius = getCircleObstacleRadius(obstacle)
+    return getRectCorners(rect).every(
+      (c) => distance(c, obstacle.center) <= radius,
+    )
+  }
+
+  const polygon = getObstaclePolygon(obstacle)
+  if (polygon) return isRectInsidePolygon(rect, polygon)
+
+  return (
+    rect.center.x - rect.width / 2 >= obstacle.center.x - obstacle.width / 2 &&
+    rect.center.x + rect.width / 2 <= obstacle.center.x + obstacle.width / 2 &&
+    rect.center.y - rect.height / 2 >=
+      obstacle.center.y - obstacle.height / 2 &&
+    rect.center.y + rect.height / 2 <= obstacle.center.y + obstacle.height / 2
+  )
+}
@@ -0,0 +1,124 @@
+import type {
+  AutoroutingWorkerResponse,
+  HighDensityNodeResult,
+  HighDensityNodeSolverPool,
+  HighDensityNodeTask,
+} from "lib/types"
+import {
+  type AutoroutingWorkerLike,
+  addWorkerErrorListener,
+  addWorkerMessageListener,
+} from "./addWorkerMessageListener"
+
+interface QueuedTask {
+  taskId: number
+  task: HighDensityNodeTask
+  resolve: (result: HighDensityNodeResult) => void
+}
+
+const resolveAsFailed = (task: QueuedTask, error: string) =>
+  task.resolve({ solvedRoutes: [], error, ranOutOfTime: false })
+
+/**
+ * Distributes high density nodes across workers running
+ * lib/worker/autorouting.worker.ts, each worker solves one node at a time.
+ * The pool doesn't own the workers, terminate them after dispose()
+ *
+ * A worker that crashes is removed from the pool and the node it was solving
+ * fails, once no workers are left every queued node fails.
+ */
+export class HighDensityWorkerPool implements HighDensityNodeSolverPool {
+  idleWorkers: AutoroutingWorkerLike[]
+  liveWorkers: Set<AutoroutingWorkerLike>
+  queuedTasks: QueuedTask[] = []
+  runningTasks = new Map<
+    number,
+    { worker: AutoroutingWorkerLike; task: QueuedTask }
+  >()
+  nextTaskId = 0
+  removeListeners: Array<() => void>
+
+  constructor(workers: AutoroutingWorkerLike[]) {
+    if (workers.length === 0) {
+      throw new Error("HighDensityWorkerPool needs at least one worker")
+    }
+    this.idleWorkers = workers.slice()
+    this.liveWorkers = new Set(workers)
+    this.removeListeners = workers.flatMap((worker) => [
+      addWorkerMessageListener(worker, (response) =>
+        this.handleResponse(response),
+      ),
+      addWorkerErrorListener(worker, (error) =>
+        this.handleWorkerError(worker, error),
+      ),
+    ])
+  }
+
+  solveNode(task: HighDensityNodeTask): Promise<HighDensityNodeResult> {
+    return new Promise((resolve) => {
+      const queuedTask = { taskId: this.nextTaskId++, task, resolve }
+      if (this.liveWorkers.size === 0) {
+        resolveAsFailed(queuedTask, "No workers left in the pool")
+        return
+      }
+      this.queuedTasks.push(queuedTask)
+      this.dispatchTasks()
+    })
+  }
+
+  dispatchTasks() {
+    while (this.idleWorkers.length > 0 && this.queuedTasks.length > 0) {
+      const worker = this.idleWorkers.pop()!
+      const task = this.queuedTasks.shift()!
+      this.runningTasks.set(task.taskId, { worker, task })
+      worker.postMessage({
+        type: "solveHighDensityNode",
+        taskId: task.taskId,
+        task: task.task,
+      })
+    }
+  }
+
+  handleResponse(response: AutoroutingWorkerResponse) {
+    if (response.type !== "highDensityNodeSolved") return
+    const runningTask = this.runningTasks.get(response.taskId)
+    if (!runningTask) return
+    this.runningTasks.delete(response.taskId)
+    this.idleWorkers.push(runningTask.worker)
+    runningTask.task.resolve(response.result)
+    this.dispatchTasks()
+  }
+
+  /** Stop using a worker that crashed, its task can't finish anymore */
+  handleWorkerError(worker: AutoroutingWorkerLike, error: Error) {
+    if (!this.liveWorkers.delete(worker)) return
+    this.idleWorkers = this.idleWorkers.filter((w) => w !== worker)
+    for (const [taskId, runningTask] of this.runningTasks) {
+      if (runningTask.worker !== worker) continue
+      this.runningTasks.delete(taskId)
+      resolveAsFailed(runningTask.task, error.message)
+    }
+    if (this.liveWorkers.size === 0) {
+      for (const task of this.queuedTasks) {
+        resolveAsFailed(task, "No workers left in the pool")
+      }
+      this.queuedTasks = []
+    }
+  }
+
+  /** Stop listening to the workers, unfinished tasks fail */
+  dispose() {
+    for (const removeListener of this.removeListeners) removeListener()
+    this.removeListeners = []
+    for (const { task } of this.runningTasks.values()) {
+      resolveAsFailed(task, "Worker pool was disposed")
+    }
+    for (const task of this.queuedTasks) {
+      resolveAsFailed(task, "Worker pool was disposed")
+    }
+    this.runningTasks.clear()
+    this.queuedTasks = []
+    this.liveWorkers.clear()
+    this.idleWorkers = []
+  }
+}
@@ -0,0 +1,106 @@
+import type {
+  AutoroutingWorkerRequest,
+  AutoroutingWorkerResponse,
+} from "lib/types"
+
+/**
+ * A browser/Bun `Worker` or a Node `worker_threads` Worker. Besides messages,
+ * the worker reports failing to load or throwing with "error", and exiting
+ * with "close" (Bun) or "exit" (Node)
+ */
+export type AutoroutingWorkerLike =
+  | {
+      postMessage: (message: AutoroutingWorkerRequest) => void
+      addEventListener(
+        type: "message",
+        listener: (event: { data: AutoroutingWorkerResponse }) => void,
+      ): void
+      addEventListener(
+        type: "error" | "messageerror" | "close",
+        listener: (event: { message?: string }) => void,
+      ): void
+      removeEventListener(
+        type: "message",
+        listener: (event: { data: AutoroutingWorkerResponse }) => void,
+      ): void
+      removeEventListener(
+        type: "error" | "messageerror" | "close",
+        listener: (event: { message?: string }) => void,
+      ): void
+    }
+  | {
+      postMessage: (message: AutoroutingWorkerRequest) => void
+      on(
+        event: "message",
+        listener: (message: AutoroutingWorkerResponse) => void,
+      ): void
+      on(
+        event: "error" | "messageerror",
+        listener: (error: Error) => void,
+      ): void
+      on(event: "exit", listener: (exitCode: number) => void): void
+      off(
+        event: "message",
+        listener: (message: AutoroutingWorkerResponse) => void,
+      ): void
+      off(
+        event: "error" | "messageerror",
+        listener: (error: Error) => void,
+      ): void
+      off(event: "exit", listener: (exitCode: number) => void): void
+    }
+
+/** Listen to the worker's responses, returns a function removing the listener */
+export const addWorkerMessageListener = (
+  worker: AutoroutingWorkerLike,
+  handleResponse: (response: AutoroutingWorkerResponse) => void,
+) => {
+  if ("addEventListener" in worker) {
+    const listener = (event: { data: AutoroutingWorkerResponse }) =>
+      handleResponse(event.data)
+    worker.addEventListener("message", listener)
+    return () => worker.removeEventListener("message", listener)
+  }
+  worker.on("message", handleResponse)
+  return () => worker.off("message", handleResponse)
+}
+
+/**
+ * Listen for the worker failing to load, throwing, sending a message that
+ * can't be deserialized or exiting. A worker can't respond after any of
+ * these, returns a function removing the listeners
+ */
+export const addWorkerErrorListener = (
+  worker: AutoroutingWorkerLike,
+  handleError: (error: Error) => void,
+) => {
+  const handleMessageError = () =>
+    handleError(new Error("Worker sent a message that couldn't be read"))
+
+  if ("addEventListener" in worker) {
+    const errorListener = (event: { message?: string }) =>
+      handleError(new Error(`Worker failed: ${event.message ?? "unknown"}`))
+    const closeListener = () => handleError(new Error("Worker exited"))
+    worker.addEventListener("error", errorListener)
+    worker.addEventListener("messageerror", handleMessageError)
+    worker.addEventListener("close", closeListener)
+    return () => {
+      worker.removeEventListener("error", errorListener)
+      worker.removeEventListener("messageerror", handleMessageError)
+      worker.removeEventListener("close", closeListener)
+    }
+  }
+
+  const errorListener = (error: Error) =>
+    handleError(new Error(`Worker failed: ${error.message}`))
+  const exitListener = (exitCode: number) =>
+    handleError(new Error(`Worker exited with code ${exitCode}`))
+  worker.on("error", errorListener)
+  worker.on("messageerror", handleMessageError)
+  worker.on("exit", exitListener)
+  return () => {
+    worker.off("error", errorListener)
+    worker.off("messageerror", handleMessageError)
+    worker.off("exit", exitListener)
+  }
+}
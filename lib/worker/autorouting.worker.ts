@@ -0,0 +1,39 @@
+import type { AutoroutingWorkerRequest } from "lib/types"
+import { createAutoroutingWorkerHandler } from "./createAutoroutingWorkerHandler"
+
+const getParentPort = async () => {
+  try {
+    const { parentPort } = await import("node:worker_threads")
+    return parentPort ?? null
+  } catch {
+    // Browsers don't have worker_threads
+    return null
+  }
+}
+
+/**
+ * Entry point of the autorouting worker, works as a Node/Bun worker thread
+ * and as a browser Web Worker
+ */
+const listenToParent = async () => {
+  const parentPort = await getParentPort()
+  if (parentPort) {
+    const handleRequest = createAutoroutingWorkerHandler((message) =>
+      parentPort.postMessage(message),
+    )
+    parentPort.on("message", handleRequest)
+    return
+  }
+
+  const workerScope = globalThis as any
+  const handleRequest = createAutoroutingWorkerHandler((message) =>
+    workerScope.postMessage(message),
+  )
+  workerScope.addEventListener(
+    "message",
+    (event: MessageEvent<AutoroutingWorkerRequest>) =>
+      handleRequest(event.data),
+  )
+}
+
+listenToParent()
@@ -0,0 +1,126 @@
+import { AutoroutingPipelineSolver } from "lib/solvers/AutoroutingPipelineSolver"
+import type {
+  AutoroutingWorkerRequest,
+  AutoroutingWorkerResponse,
+  HighDensityNodeResult,
+} from "lib/types"
+import { solveHighDensityNodeTask } from "./solveHighDensityNodeTask"
+
+/** How long the solver steps before yielding to receive messages */
+const CHUNK_DURATION_MS = 20
+const DEFAULT_PROGRESS_INTERVAL_MS = 100
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error)
+
+/**
+ * Create the message handler of an autorouting worker. The pipeline is
+ * stepped in short chunks so a "cancel" message can be received in between.
+ * The worker also solves high density nodes for a HighDensityWorkerPool.
+ */
+export const createAutoroutingWorkerHandler = (
+  postMessage: (message: AutoroutingWorkerResponse) => void,
+) => {
+  let activeRun: { cancelled: boolean } | null = null
+
+  return (request: AutoroutingWorkerRequest) => {
+    if (request.type === "solveHighDensityNode") {
+      let result: HighDensityNodeResult
+      try {
+        result = solveHighDensityNodeTask(request.task)
+      } catch (error) {
+        result = {
+          solvedRoutes: [],
+          error: getErrorMessage(error),
+          ranOutOfTime: false,
+        }
+      }
+      postMessage({
+        type: "highDensityNodeSolved",
+        taskId: request.taskId,
+        result,
+      })
+      return
+    }
+    if (request.type === "cancel") {
+      if (activeRun) activeRun.cancelled = true
+      return
+    }
+
+    // Starting a new run cancels the previous one
+    if (activeRun) activeRun.cancelled = true
+    const run = { cancelled: false }
+    activeRun = run
+
+    let solver: AutoroutingPipelineSolver
+    try {
+      solver = new AutoroutingPipelineSolver(request.srj, { ...request.opts })
+    } catch (error) {
+      activeRun = null
+      postMessage({ type: "error", error: getErrorMessage(error) })
+      return
+    }
+    const progressIntervalMs =
+      request.progressIntervalMs ?? DEFAULT_PROGRESS_INTERVAL_MS
+    let lastProgressTime = -Infinity
+
+    const runChunk = () => {
+      if (run.cancelled) {
+        postMessage({ type: "cancelled" })
+        return
+      }
+
+      const chunkEndTime = performance.now() + CHUNK_DURATION_MS
+      try {
+        while (
+          !solver.solved &&
+          !solver.failed &&
+          performance.now() < chunkEndTime
+        ) {
+          solver.step()
+        }
+      } catch {
+        // The solver records the error and marks itself as failed
+      }
+
+      try {
+        if (solver.failed) {
+          activeRun = null
+          postMessage({
+            type: "error",
+            error: solver.error ?? "Autorouting failed",
+            completionReport: solver.getCompletionReport(),
+          })
+          return
+        }
+        if (solver.solved) {
+          activeRun = null
+          postMessage({
+            type: "done",
+            outputSrj: solver.getOutputSimpleRouteJson(),
+            completionReport: solver.getCompletionReport(),
+          })
+          return
+        }
+      } catch (error) {
+        // Building the output failed, the caller still needs an answer
+        activeRun = null
+        postMessage({ type: "error", error: getErrorMessage(error) })
+        return
+      }
+
+      if (performance.now() - lastProgressTime >= progressIntervalMs) {
+        lastProgressTime = performance.now()
+        postMessage({
+          type: "progress",
+          phase: solver.getCurrentPhase(),
+          progress: solver.progress,
+          iterations: solver.iterations,
+          preview: request.includePreview ? solver.preview() : undefined,
+        })
+      }
+      setTimeout(runChunk, 0)
+    }
+    setTimeout(runChunk, 0)
+  }
+}
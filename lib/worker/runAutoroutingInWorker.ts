@@ -0,0 +1,91 @@
+import type {
+  AutoroutingWorkerProgress,
+  AutoroutingWorkerRequest,
+  AutoroutingWorkerResponse,
+  AutoroutingWorkerResult,
+  CapacityMeshSolverOptions,
+  SimpleRouteJson,
+} from "lib/types"
+import {
+  type AutoroutingWorkerLike,
+  addWorkerErrorListener,
+  addWorkerMessageListener,
+} from "./addWorkerMessageListener"
+
+export interface AutoroutingWorkerRun {
+  /**
+   * Resolves with the routed srj, rejects if routing fails or is cancelled or
+   * if the worker crashes
+   */
+  result: Promise<AutoroutingWorkerResult>
+  cancel: () => void
+}
+
+/**
+ * Route the srj in a worker running lib/worker/autorouting.worker.ts, so the
+ * calling thread stays responsive
+ */
+export const runAutoroutingInWorker = (
+  worker: AutoroutingWorkerLike,
+  srj: SimpleRouteJson,
+  {
+    opts,
+    onProgress,
+    progressIntervalMs,
+    includePreview = false,
+  }: {
+    opts?: CapacityMeshSolverOptions
+    onProgress?: (progress: AutoroutingWorkerProgress) => void
+    progressIntervalMs?: number
+    includePreview?: boolean
+  } = {},
+): AutoroutingWorkerRun => {
+  let removeListener = () => {}
+
+  const result = new Promise<AutoroutingWorkerResult>((resolve, reject) => {
+    const handleResponse = (response: AutoroutingWorkerResponse) => {
+      if (response.type === "progress") {
+        onProgress?.(response)
+        return
+      }
+      if (response.type === "highDensityNodeSolved") return
+      removeListener()
+      if (response.type === "done") {
+        resolve({
+          outputSrj: response.outputSrj,
+          completionReport: response.completionReport,
+        })
+      } else if (response.type === "error") {
+        reject(new Error(response.error))
+      } else {
+        reject(new Error("Autorouting was cancelled"))
+      }
+    }
+
+    const removeMessageListener = addWorkerMessageListener(
+      worker,
+      handleResponse,
+    )
+    const removeErrorListener = addWorkerErrorListener(worker, (error) => {
+      removeListener()
+      reject(error)
+    })
+    removeListener = () => {
+      removeMessageListener()
+      removeErrorListener()
+    }
+  })
+
+  worker.postMessage({
+    type: "start",
+    srj,
+    opts,
+    progressIntervalMs,
+    includePreview,
+  })
+
+  return {
+    result,
+    cancel: () => worker.postMessage({ type: "cancel" }),
+  }
+}
@@ -0,0 +1,28 @@
+import { ConnectivityMap } from "circuit-json-to-connectivity-map"
+import { HyperSingleIntraNodeSolver } from "lib/solvers/HyperHighDensitySolver/HyperSingleIntraNodeSolver"
+import type { HighDensityNodeResult, HighDensityNodeTask } from "lib/types"
+
+/** Solve a node sent to a worker by the HighDensityWorkerPool */
+export const solveHighDensityNodeTask = ({
+  connMapNetMap,
+  deadline,
+  ...params
+}: HighDensityNodeTask): HighDensityNodeResult => {
+  const solver = new HyperSingleIntraNodeSolver({
+    ...params,
+    connMap: connMapNetMap ? new ConnectivityMap(connMapNetMap) : undefined,
+  })
+  if (deadline !== undefined) {
+    solver.deadline = deadline - performance.timeOrigin
+  }
+  try {
+    solver.solve()
+  } catch {
+    // The solver records the error and marks itself as failed
+  }
+  return {
+    solvedRoutes: solver.solved ? solver.solvedRoutes : [],
+    error: solver.solved ? null : (solver.error ?? "Node wasn't solved"),
+    ranOutOfTime: solver.ranOutOfTime,
+  }
+}
@@ -0,0 +1,80 @@
+import { expect, test } from "bun:test"
+import { Worker as NodeWorker } from "node:worker_threads"
+import { runAutoroutingInWorker } from "../lib"
+import type { AutoroutingWorkerProgress, SimpleRouteJson } from "../lib/types"
+import e2e3 from "../examples/assets/e2e3.json"
+import keyboard3 from "../examples/assets/keyboard3.json"
+
+const workerUrl = new URL(
+  "../lib/worker/autorouting.worker.ts",
+  import.meta.url,
+)
+
+test("routes in a web worker and streams progress", async () => {
+  const worker = new Worker(workerUrl)
+  try {
+    const progressEvents: AutoroutingWorkerProgress[] = []
+    const run = runAutoroutingInWorker(
+      worker,
+      e2e3 as unknown as SimpleRouteJson,
+      {
+        progressIntervalMs: 0,
+        includePreview: true,
+        onProgress: (progress) => progressEvents.push(progress),
+      },
+    )
+    const { outputSrj, completionReport } = await run.result
+
+    expect(completionReport.completionPercentage).toBe(100)
+    expect(outputSrj.traces!.length).toBeGreaterThan(0)
+    expect(progressEvents.length).toBeGreaterThan(1)
+    expect(progressEvents.at(-1)!.progress).toBeGreaterThan(
+      progressEvents[0].progress,
+    )
+    expect(progressEvents.some((p) => p.preview)).toBe(true)
+  } finally {
+    worker.terminate()
+  }
+})
+
+test("routing in a worker thread can be cancelled", async () => {
+  const worker = new NodeWorker(workerUrl)
+  try {
+    const run = runAutoroutingInWorker(
+      worker,
+      keyboard3 as unknown as SimpleRouteJson,
+      { onProgress: () => run.cancel() },
+    )
+    await expect(run.result).rejects.toThrow("Autorouting was cancelled")
+  } finally {
+    await worker.terminate()
+  }
+})
+
+test("routing in a worker rejects when the input can't be routed", async () => {
+  const worker = new Worker(workerUrl)
+  try {
+    const run = runAutoroutingInWorker(worker, {
+      ...e2e3,
+      connections: undefined,
+    } as unknown as SimpleRouteJson)
+    await expect(run.result).rejects.toThrow()
+  } finally {
+    worker.terminate()
+  }
+})
+
+test("routing rejects when the worker crashes", async () => {
+  const worker = new NodeWorker("throw new Error('worker crashed')", {
+    eval: true,
+  })
+  try {
+    const run = runAutoroutingInWorker(
+      worker,
+      e2e3 as unknown as SimpleRouteJson,
+    )
+    await expect(run.result).rejects.toThrow("worker crashed")
+  } finally {
+    await worker.terminate()
+  }
+})
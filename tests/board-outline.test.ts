@@ -0,0 +1,59 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import { CapacityMeshNodeSolver2_NodeUnderObstacle } from "../lib/solvers/CapacityMeshSolver/CapacityMeshNodeSolver2_NodesUnderObstacles"
+import {
+  doesRectOverlapPolygon,
+  isPointInPolygon,
+} from "../lib/utils/obstacle-shapes"
+import { minimumDistanceBetweenSegments } from "../lib/utils/minimumDistanceBetweenSegments"
+import lShapedBoard from "../examples/assets/l-shaped-board.json"
+
+const srj = lShapedBoard as SimpleRouteJson
+const outline = srj.outline!
+
+test("no capacity nodes are created outside of the board outline", () => {
+  const nodeSolver = new CapacityMeshNodeSolver2_NodeUnderObstacle(
+    structuredClone(srj),
+  )
+  nodeSolver.solve()
+
+  expect(nodeSolver.finishedNodes.length).toBeGreaterThan(0)
+  for (const node of nodeSolver.finishedNodes) {
+    expect(doesRectOverlapPolygon(node, outline)).toBe(true)
+    // The notch is the top right quadrant
+    expect(
+      node.center.x - node.width / 2 >= 0 &&
+        node.center.y - node.height / 2 >= 0,
+    ).toBe(false)
+  }
+})
+
+test("simplified routes stay inside the outline with edge clearance", () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj))
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+
+  for (const trace of solver.getOutputSimplifiedPcbTraces()) {
+    const wires = trace.route.filter((p) => p.route_type === "wire")
+    for (const p of wires) {
+      expect(isPointInPolygon(p, outline)).toBe(true)
+    }
+  }
+
+  for (const route of solver.multiSimplifiedPathSolver!.simplifiedHdRoutes) {
+    for (let i = 0; i < route.route.length - 1; i++) {
+      for (let j = 0; j < outline.length; j++) {
+        expect(
+          minimumDistanceBetweenSegments(
+            route.route[i],
+            route.route[i + 1],
+            outline[j],
+            outline[(j + 1) % outline.length],
+          ),
+        ).toBeGreaterThanOrEqual(srj.edgeClearance! - 1e-6)
+      }
+    }
+  }
+})
@@ -0,0 +1,44 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import { CapacityPathingMultiSectionSolver } from "../lib/solvers/CapacityPathingSectionSolver/CapacityPathingMultiSectionSolver"
+import type { SimpleRouteJson } from "../lib/types"
+import e2e3 from "../examples/assets/e2e3.json"
+
+const srj = e2e3 as unknown as SimpleRouteJson
+
+const getTotalOverload = (solver: CapacityPathingMultiSectionSolver) =>
+  solver.nodes.reduce(
+    (sum, node) =>
+      sum + Math.max(0, solver.getNodeOverload(node.capacityMeshNodeId)),
+    0,
+  )
+
+test("re-solving sections reduces the overload of the greedy paths", () => {
+  const pipeline = new CapacityMeshSolver(structuredClone(srj))
+  pipeline.solveUntilPhase("pathingSolver")
+
+  const solver = new CapacityPathingMultiSectionSolver({
+    simpleRouteJson: pipeline.srjWithPointPairs!,
+    nodes: pipeline.capacityNodes!,
+    edges: pipeline.capacityEdges!,
+  })
+  while (solver.stage === "initialization") solver.step()
+  const greedyOverload = getTotalOverload(solver)
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  expect(getTotalOverload(solver)).toBeLessThan(greedyOverload)
+  expect(solver.getCapacityPaths()).toHaveLength(
+    pipeline.srjWithPointPairs!.connections.length,
+  )
+})
+
+test("multiSection can be selected as the pipeline's pathing step", () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj), {
+    pathingStrategy: "multiSection",
+  })
+  solver.solve()
+
+  expect(solver.pathingSolver).toBeInstanceOf(CapacityPathingMultiSectionSolver)
+  expect(solver.getCompletionReport().completionPercentage).toBe(100)
+})
@@ -0,0 +1,79 @@
+import { expect, test } from "bun:test"
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { runCli, type AutorouteStats, type CliIo } from "../cli/run-cli"
+import type { SimpleRouteJson } from "../lib/types"
+
+const e2e3Path = join(import.meta.dir, "../examples/assets/e2e3.json")
+
+const createIo = (stdin = "") => {
+  const io = {
+    stdout: "",
+    stderr: "",
+    readStdin: async () => stdin,
+    writeStdout: (text: string) => {
+      io.stdout += text
+    },
+    writeStderr: (text: string) => {
+      io.stderr += text
+    },
+  }
+  return io satisfies CliIo
+}
+
+test("cli routes a file and writes the svg and stats", async () => {
+  const dir = await mkdtemp(join(tmpdir(), "capacity-autorouter-cli-"))
+  try {
+    const io = createIo()
+    const exitCode = await runCli(
+      [
+        e2e3Path,
+        "--output",
+        join(dir, "out.json"),
+        "--svg",
+        join(dir, "out.svg"),
+        "--stats",
+        join(dir, "stats.json"),
+      ],
+      io,
+    )
+    expect(exitCode).toBe(0)
+    expect(io.stdout).toBe("")
+
+    const output: SimpleRouteJson = JSON.parse(
+      await readFile(join(dir, "out.json"), "utf-8"),
+    )
+    expect(output.traces!.length).toBeGreaterThan(0)
+    expect(await readFile(join(dir, "out.svg"), "utf-8")).toStartWith("<svg")
+
+    const stats: AutorouteStats = JSON.parse(
+      await readFile(join(dir, "stats.json"), "utf-8"),
+    )
+    expect(stats.solved).toBe(true)
+    expect(stats.completionReport.completionPercentage).toBe(100)
+    expect(Object.keys(stats.timeSpentOnPhase)).toContain("nodeSolver")
+    expect(stats.iterationsOfPhase.nodeSolver).toBeGreaterThan(0)
+  } finally {
+    await rm(dir, { recursive: true })
+  }
+})
+
+test("cli reads stdin and writes the routed srj to stdout", async () => {
+  const io = createIo(await readFile(e2e3Path, "utf-8"))
+  expect(await runCli(["--capacity-depth", "6"], io)).toBe(0)
+  const output: SimpleRouteJson = JSON.parse(io.stdout)
+  expect(output.traces!.length).toBeGreaterThan(0)
+})
+
+test("cli rejects invalid options", async () => {
+  const io = createIo()
+  expect(await runCli([e2e3Path, "--time-limit", "soon"], io)).toBe(2)
+  expect(io.stderr).toContain("--time-limit must be a positive number")
+
+  const depthIo = createIo()
+  expect(await runCli([e2e3Path, "--capacity-depth", "2.5"], depthIo)).toBe(2)
+  expect(depthIo.stderr).toContain(
+    "--capacity-depth must be a positive integer",
+  )
+})
@@ -0,0 +1,73 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import type { NodeWithPortPoints } from "../lib/types/high-density-types"
+import { getCompletionReport } from "../lib/utils/getCompletionReport"
+import fourLayer1 from "../examples/assets/fourlayer1.json"
+
+const pointsToConnect = [
+  { x: 0, y: 0, layer: "top" },
+  { x: 1, y: 1, layer: "top" },
+]
+
+test("getCompletionReport classifies routed, partial and failed connections", () => {
+  const failedNode: NodeWithPortPoints = {
+    capacityMeshNodeId: "cn1",
+    center: { x: 0, y: 0 },
+    width: 1,
+    height: 1,
+    portPoints: [
+      { x: 0, y: 0, z: 0, connectionName: "B_mst1" },
+      { x: 1, y: 1, z: 0, connectionName: "C" },
+    ],
+  }
+
+  const report = getCompletionReport({
+    pointPairConnections: [
+      { name: "A", pointsToConnect },
+      { name: "B_mst0", pointsToConnect },
+      { name: "B_mst1", pointsToConnect },
+      { name: "C", pointsToConnect },
+    ],
+    unpathedConnectionNames: [],
+    hdRoutes: [
+      {
+        connectionName: "B_mst0",
+        traceThickness: 0.15,
+        viaDiameter: 0.6,
+        route: [],
+        vias: [],
+      },
+    ],
+    failedNodes: [
+      { nodeWithPortPoints: failedNode, error: "All solvers failed" },
+    ],
+    highDensityRoutingComplete: true,
+  })
+
+  expect(report.routedConnectionNames).toEqual(["A"])
+  expect(report.partiallyRoutedConnectionNames).toEqual(["B"])
+  expect(report.failedConnectionNames).toEqual(["C"])
+  expect(report.failedNodes).toEqual([
+    {
+      capacityMeshNodeId: "cn1",
+      connectionNames: ["B", "C"],
+      error: "All solvers failed",
+    },
+  ])
+  expect(report.completionPercentage).toBe(50)
+})
+
+test("pipeline reports full completion when every connection is routed", () => {
+  const solver = new CapacityMeshSolver(
+    structuredClone(fourLayer1) as SimpleRouteJson,
+  )
+  solver.solve()
+
+  const report = solver.getCompletionReport()
+  expect(report.completionPercentage).toBe(100)
+  expect(report.failedNodes).toEqual([])
+  expect(report.routedConnectionNames.sort()).toEqual(
+    fourLayer1.connections.map((c) => c.name).sort(),
+  )
+})
@@ -0,0 +1,192 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver, checkDesignRules } from "../lib"
+import type { SimpleRouteJson, SimplifiedPcbTraces } from "../lib/types"
+
+const srj: SimpleRouteJson = {
+  layerCount: 2,
+  minTraceWidth: 0.15,
+  bounds: { minX: 0, maxX: 10, minY: 0, maxY: 10 },
+  obstacles: [
+    {
+      type: "rect",
+      layers: ["top"],
+      center: { x: 5, y: 8 },
+      width: 1,
+      height: 1,
+      connectedTo: [],
+    },
+  ],
+  connections: [
+    {
+      name: "A",
+      pointsToConnect: [
+        { x: 1, y: 1, layer: "top" },
+        { x: 9, y: 1, layer: "top" },
+      ],
+    },
+    {
+      name: "B",
+      pointsToConnect: [
+        { x: 1, y: 1.2, layer: "top" },
+        { x: 9, y: 1.2, layer: "top" },
+      ],
+    },
+    {
+      name: "C",
+      pointsToConnect: [
+        { x: 1, y: 8, layer: "top" },
+        { x: 9, y: 8, layer: "top" },
+      ],
+    },
+  ],
+}
+
+const wire = (x: number, y: number) => ({
+  route_type: "wire" as const,
+  x,
+  y,
+  width: 0.15,
+  layer: "top",
+})
+
+test("checkDesignRules reports clearance, dangling and unconnected violations", () => {
+  const traces: SimplifiedPcbTraces = [
+    {
+      type: "pcb_trace",
+      pcb_trace_id: "A_0",
+      connection_name: "A",
+      route: [wire(1, 1), wire(9, 1)],
+    },
+    {
+      type: "pcb_trace",
+      pcb_trace_id: "B_0",
+      connection_name: "B",
+      route: [wire(1, 1.2), wire(5, 1.2)],
+    },
+    {
+      type: "pcb_trace",
+      pcb_trace_id: "C_0",
+      connection_name: "C",
+      route: [wire(1, 8), wire(9, 8)],
+    },
+  ]
+
+  const violations = checkDesignRules(srj, traces)
+  const types = violations.map((v) => v.type).sort()
+
+  expect(types).toEqual([
+    "dangling_trace_end",
+    "trace_obstacle_clearance",
+    "trace_trace_clearance",
+    "unconnected_point",
+  ])
+
+  const traceTrace = violations.find((v) => v.type === "trace_trace_clearance")!
+  expect(traceTrace.connectionNames.sort()).toEqual(["A", "B"])
+  expect(traceTrace.actualClearance).toBeCloseTo(0.05)
+  expect(traceTrace.layer).toBe("top")
+
+  const dangling = violations.find((v) => v.type === "dangling_trace_end")!
+  expect(dangling.location).toEqual({ x: 5, y: 1.2 })
+
+  const unconnected = violations.find((v) => v.type === "unconnected_point")!
+  expect(unconnected.location).toEqual({ x: 9, y: 1.2 })
+})
+
+test("checkDesignRules finds clearance violations across index cell boundaries", () => {
+  // B starts 0.15 after A ends, the two ends fall in different cells of the
+  // segment index
+  const traces: SimplifiedPcbTraces = [
+    {
+      type: "pcb_trace",
+      pcb_trace_id: "A_0",
+      connection_name: "A",
+      route: [wire(1.3, 1), wire(2.3, 1)],
+    },
+    {
+      type: "pcb_trace",
+      pcb_trace_id: "B_0",
+      connection_name: "B",
+      route: [wire(2.45, 1), wire(3.45, 1)],
+    },
+  ]
+
+  const traceTrace = checkDesignRules(srj, traces).filter(
+    (v) => v.type === "trace_trace_clearance",
+  )
+  expect(traceTrace).toHaveLength(1)
+  expect(traceTrace[0].actualClearance).toBeCloseTo(0)
+})
+
+test("pipeline runs the design rule check as an optional final stage", () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj), {
+    checkDesignRules: true,
+  })
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  expect(solver.designRuleCheckSolver?.solved).toBe(true)
+  expect(Array.isArray(solver.designRuleCheckSolver!.violations)).toBe(true)
+  expect(solver.visualize()).toBeTruthy()
+
+  const solverWithoutDrc = new CapacityMeshSolver(structuredClone(srj))
+  solverWithoutDrc.solve()
+  expect(solverWithoutDrc.designRuleCheckSolver).toBeUndefined()
+})
+
+test("checkDesignRules reports copper in keepouts", () => {
+  const traces: SimplifiedPcbTraces = [
+    {
+      type: "pcb_trace",
+      pcb_trace_id: "C_0",
+      connection_name: "C",
+      route: [
+        wire(1, 8),
+        wire(3, 8),
+        {
+          route_type: "via",
+          x: 3,
+          y: 8,
+          from_layer: "top",
+          to_layer: "bottom",
+        },
+        { ...wire(3, 8), layer: "bottom" },
+        { ...wire(9, 8), layer: "bottom" },
+      ],
+    },
+  ]
+  const keepoutSrj: SimpleRouteJson = {
+    ...srj,
+    obstacles: [],
+    connections: [srj.connections[2]],
+    keepouts: [
+      // Blocks traces on top only, the trace passes underneath
+      {
+        type: "rect",
+        layers: ["top"],
+        center: { x: 6, y: 8 },
+        width: 1,
+        height: 1,
+        noTraces: true,
+      },
+      {
+        type: "circle",
+        layers: ["bottom"],
+        center: { x: 3, y: 8.2 },
+        width: 0.5,
+        height: 0.5,
+        noVias: true,
+      },
+    ],
+  }
+
+  const getKeepoutViolationTypes = () =>
+    checkDesignRules(keepoutSrj, traces)
+      .map((v) => v.type)
+      .filter((type) => type.endsWith("_keepout"))
+      .sort()
+  expect(getKeepoutViolationTypes()).toEqual(["via_keepout"])
+
+  keepoutSrj.keepouts![0].layers = ["top", "bottom"]
+  expect(getKeepoutViolationTypes()).toEqual(["trace_keepout", "via_keepout"])
+})
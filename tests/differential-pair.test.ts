@@ -0,0 +1,64 @@
+import { expect, test } from "bun:test"
+import { pointToSegmentDistance } from "@tscircuit/math-utils"
+import { CapacityMeshSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import differentialPair from "../examples/assets/differential-pair.json"
+
+const getWirePoints = (solver: CapacityMeshSolver, connectionName: string) =>
+  solver
+    .getOutputSimplifiedPcbTraces()
+    .find((t) => t.connection_name === connectionName)!
+    .route.filter((p) => p.route_type === "wire")
+
+/** Median distance from points sampled along trace A to trace B */
+const getMedianDistance = (
+  A: Array<{ x: number; y: number }>,
+  B: Array<{ x: number; y: number }>,
+) => {
+  const distances: number[] = []
+  for (let i = 0; i < A.length - 1; i++) {
+    for (let t = 0; t <= 1; t += 0.1) {
+      const p = {
+        x: A[i].x + (A[i + 1].x - A[i].x) * t,
+        y: A[i].y + (A[i + 1].y - A[i].y) * t,
+      }
+      let minDist = Infinity
+      for (let j = 0; j < B.length - 1; j++) {
+        minDist = Math.min(minDist, pointToSegmentDistance(p, B[j], B[j + 1]))
+      }
+      distances.push(minDist)
+    }
+  }
+  distances.sort((a, b) => a - b)
+  return distances[Math.floor(distances.length / 2)]
+}
+
+test("differential pairs are routed side by side", () => {
+  const srj = differentialPair as SimpleRouteJson
+
+  const coupledSolver = new CapacityMeshSolver(structuredClone(srj))
+  coupledSolver.solve()
+  expect(coupledSolver.getCompletionReport().completionPercentage).toBe(100)
+
+  const uncoupledSolver = new CapacityMeshSolver({
+    ...structuredClone(srj),
+    differentialPairs: undefined,
+  })
+  uncoupledSolver.solve()
+
+  const coupledDistance = getMedianDistance(
+    getWirePoints(coupledSolver, "usb_dm"),
+    getWirePoints(coupledSolver, "usb_dp"),
+  )
+  const uncoupledDistance = getMedianDistance(
+    getWirePoints(uncoupledSolver, "usb_dm"),
+    getWirePoints(uncoupledSolver, "usb_dp"),
+  )
+  // Without coupling the halves go around opposite sides of the obstacle
+  expect(uncoupledDistance).toBeGreaterThan(2)
+  expect(coupledDistance).toBeLessThan(1)
+
+  for (const wire of getWirePoints(coupledSolver, "usb_dp")) {
+    expect(wire.width).toBe(0.2)
+  }
+})
@@ -30,5 +30,5 @@ describe("Keyboard1 End-to-End Test", () => {
     expect(convertSrjToGraphicsObject(output)).toMatchGraphicsSvg(
       import.meta.path,
     )
-  })
+  }, 20_000)
 })
@@ -0,0 +1,36 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import { checkDesignRules } from "../lib/utils/checkDesignRules"
+import { getConnectionsRoutedByTraces } from "../lib/utils/fixed-traces"
+import fixedTraces from "../examples/assets/fixed-traces.json"
+
+test("input traces are kept as fixed copper and other nets avoid them", () => {
+  const srj = structuredClone(fixedTraces) as SimpleRouteJson
+  const solver = new CapacityMeshSolver(srj)
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  const report = solver.getCompletionReport()
+  expect(report.completionPercentage).toBe(100)
+  expect(report.routedConnectionNames.sort()).toEqual(["a", "b", "c", "hand"])
+
+  const traces = solver.getOutputSimplifiedPcbTraces()
+  // The hand-routed connection isn't routed again
+  expect(traces.filter((t) => t.connection_name === "hand")).toEqual(
+    (fixedTraces as SimpleRouteJson).traces!,
+  )
+  // The fixed trace is checked along with the new traces
+  expect(checkDesignRules(srj, traces)).toEqual([])
+})
+
+test("connections are only skipped when the traces connect every point", () => {
+  const srj = structuredClone(fixedTraces) as SimpleRouteJson
+  expect(getConnectionsRoutedByTraces(srj)).toEqual(new Set(["hand"]))
+
+  // Cut the trace short of the last pad
+  const route = srj.traces![0].route
+  const lastPoint = route[route.length - 1]
+  if (lastPoint.route_type === "wire") lastPoint.x = 5
+  expect(getConnectionsRoutedByTraces(srj).size).toBe(0)
+})
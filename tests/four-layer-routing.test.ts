@@ -0,0 +1,49 @@
+import { expect, test, describe } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import fourLayer1 from "../examples/assets/fourlayer1.json"
+
+describe("Four layer routing", () => {
+  test("should create capacity nodes that span all four layers", () => {
+    const solver = new CapacityMeshSolver(
+      structuredClone(fourLayer1) as SimpleRouteJson,
+    )
+    solver.solveUntilPhase("edgeSolver")
+
+    const availableZCombinations = new Set(
+      solver.capacityNodes!.map((n) => n.availableZ.join(",")),
+    )
+    expect(availableZCombinations.has("0,1,2,3")).toBe(true)
+    expect(availableZCombinations.has("1")).toBe(true)
+    expect(availableZCombinations.has("2")).toBe(true)
+  })
+
+  test("should route to inner layer targets and output inner layer names", () => {
+    const solver = new CapacityMeshSolver(
+      structuredClone(fourLayer1) as SimpleRouteJson,
+    )
+    solver.solve()
+
+    expect(solver.failed).toBe(false)
+    expect(solver.solved).toBe(true)
+
+    const traces = solver.getOutputSimplifiedPcbTraces()
+    const wireLayers = new Set<string>()
+    for (const trace of traces) {
+      for (const segment of trace.route) {
+        if (segment.route_type === "wire") {
+          wireLayers.add(segment.layer)
+        } else {
+          expect(segment.from_layer).not.toBe(segment.to_layer)
+        }
+      }
+    }
+
+    expect(Array.from(wireLayers).sort()).toEqual([
+      "bottom",
+      "inner1",
+      "inner2",
+      "top",
+    ])
+  })
+})
@@ -0,0 +1,87 @@
+import { expect, test } from "bun:test"
+import { Worker as NodeWorker } from "node:worker_threads"
+import { CapacityMeshSolver, HighDensityWorkerPool } from "../lib"
+import type { HighDensityNodeTask, SimpleRouteJson } from "../lib/types"
+import e2e3 from "../examples/assets/e2e3.json"
+
+const srj = e2e3 as unknown as SimpleRouteJson
+
+test("high density nodes solved on a worker pool match sequential solving", async () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj))
+  solver.solve()
+
+  const workers = [0, 1].map(
+    () =>
+      new Worker(
+        new URL("../lib/worker/autorouting.worker.ts", import.meta.url),
+      ),
+  )
+  const pool = new HighDensityWorkerPool(workers)
+  try {
+    const parallelSolver = new CapacityMeshSolver(structuredClone(srj), {
+      highDensityWorkerPool: pool,
+    })
+    await parallelSolver.solveAsync()
+
+    expect(parallelSolver.solved).toBe(true)
+    expect(parallelSolver.hdRoutes).toEqual(solver.hdRoutes!)
+    expect(parallelSolver.getOutputSimplifiedPcbTraces()).toEqual(
+      solver.getOutputSimplifiedPcbTraces(),
+    )
+    expect(parallelSolver.getCompletionReport()).toEqual(
+      solver.getCompletionReport(),
+    )
+  } finally {
+    pool.dispose()
+    for (const worker of workers) worker.terminate()
+  }
+})
+
+/** A worker thread running the given code on each message */
+const createWorkerHandlingMessages = (code: string) =>
+  new NodeWorker(
+    `require("node:worker_threads").parentPort.on("message", () => { ${code} })`,
+    { eval: true },
+  )
+
+test("nodes of a crashed worker fail instead of never resolving", async () => {
+  const worker = createWorkerHandlingMessages(
+    'throw new Error("worker crashed")',
+  )
+  const pool = new HighDensityWorkerPool([worker])
+  try {
+    const solver = new CapacityMeshSolver(structuredClone(srj), {
+      highDensityWorkerPool: pool,
+    })
+    await solver.solveAsync()
+
+    const { failedSolvers } = solver.highDensityRouteSolver!
+    expect(failedSolvers.length).toBe(solver.nodesWithPortPoints!.length)
+    expect(failedSolvers.some((s) => s.error?.includes("worker crashed"))).toBe(
+      true,
+    )
+  } finally {
+    pool.dispose()
+    await worker.terminate()
+  }
+})
+
+test("disposing the pool fails the unfinished nodes", async () => {
+  const worker = createWorkerHandlingMessages("")
+  const pool = new HighDensityWorkerPool([worker])
+  try {
+    const result = pool.solveNode({} as HighDensityNodeTask)
+    pool.dispose()
+    expect((await result).error).toBe("Worker pool was disposed")
+  } finally {
+    await worker.terminate()
+  }
+})
+
+test("solve() explains that a worker pool needs solveAsync()", () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj), {
+    highDensityWorkerPool: { solveNode: () => new Promise(() => {}) },
+  })
+  expect(() => solver.solve()).toThrow("solveAsync()")
+  expect(solver.failed).toBe(true)
+})
@@ -0,0 +1,66 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver, IncrementalRerouteSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import { checkDesignRules } from "../lib/utils/checkDesignRules"
+import incrementalReroute from "../examples/assets/incremental-reroute.json"
+
+const getPreviousOutput = () => {
+  const solver = new CapacityMeshSolver(
+    structuredClone(incrementalReroute) as SimpleRouteJson,
+  )
+  solver.solve()
+  return solver.getOutputSimpleRouteJson()
+}
+
+/** Move the last point of the connection and the pad under it */
+const movePad = (srj: SimpleRouteJson, connectionName: string, dx: number) => {
+  const connection = srj.connections.find((c) => c.name === connectionName)!
+  const point = connection.pointsToConnect[1]
+  const pad = srj.obstacles.find(
+    (o) => o.center.x === point.x && o.center.y === point.y,
+  )!
+  point.x += dx
+  pad.center.x += dx
+}
+
+test("only connections affected by an edit are rerouted", () => {
+  const previousOutputSrj = getPreviousOutput()
+  const srj = structuredClone(incrementalReroute) as SimpleRouteJson
+  movePad(srj, "conn2", 0.5)
+
+  const solver = new IncrementalRerouteSolver({ previousOutputSrj, srj })
+  expect(Array.from(solver.affectedConnectionNames)).toEqual(["conn2"])
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  // The reroute only meshes the region around the moved connection
+  expect(solver.isReroutingWholeBoard).toBe(false)
+  expect(solver.rerouteBounds.maxX - solver.rerouteBounds.minX).toBeLessThan(
+    srj.bounds.maxX - srj.bounds.minX,
+  )
+
+  const output = solver.getOutputSimpleRouteJson()
+  expect(output.bounds).toEqual(srj.bounds)
+  for (const trace of previousOutputSrj.traces!) {
+    if (trace.connection_name === "conn2") continue
+    expect(output.traces).toContainEqual(trace)
+  }
+  expect(
+    output.traces!.filter((t) => t.connection_name === "conn2").length,
+  ).toBeGreaterThan(0)
+  expect(checkDesignRules(srj, output.traces!)).toEqual([])
+})
+
+test("an unchanged board isn't rerouted", () => {
+  const previousOutputSrj = getPreviousOutput()
+  const srj = structuredClone(incrementalReroute) as SimpleRouteJson
+
+  const solver = new IncrementalRerouteSolver({ previousOutputSrj, srj })
+  solver.solve()
+
+  expect(solver.affectedConnectionNames.size).toBe(0)
+  expect(solver.pipelineSolver).toBeUndefined()
+  expect(solver.getOutputSimpleRouteJson().traces).toEqual(
+    previousOutputSrj.traces,
+  )
+})
@@ -0,0 +1,46 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import {
+  doesKeepoutBlockTraces,
+  doesKeepoutBlockVias,
+} from "../lib/utils/keepouts"
+import {
+  getPointObstacleClosestApproach,
+  getSegmentObstacleClosestApproach,
+} from "../lib/utils/obstacle-shapes"
+import { mapLayerNameToZ } from "../lib/utils/mapLayerNameToZ"
+import keepoutsSrj from "../examples/assets/keepouts.json"
+
+test("routes avoid trace and via keepouts on their layers", () => {
+  const srj = structuredClone(keepoutsSrj) as SimpleRouteJson
+  const solver = new CapacityMeshSolver(srj)
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  expect(solver.getCompletionReport().completionPercentage).toBe(100)
+
+  const keepouts = srj.keepouts!
+  for (const trace of solver.getOutputSimplifiedPcbTraces()) {
+    for (let i = 0; i < trace.route.length; i++) {
+      const point = trace.route[i]
+      if (point.route_type === "via") {
+        for (const keepout of keepouts.filter(doesKeepoutBlockVias)) {
+          expect(
+            getPointObstacleClosestApproach(point, keepout).distance,
+          ).toBeGreaterThan(0)
+        }
+        continue
+      }
+      const next = trace.route[i + 1]
+      if (next?.route_type !== "wire" || next.layer !== point.layer) continue
+      const z = mapLayerNameToZ(point.layer, srj.layerCount)
+      for (const keepout of keepouts) {
+        if (!doesKeepoutBlockTraces(keepout, z)) continue
+        expect(
+          getSegmentObstacleClosestApproach(point, next, keepout).distance,
+        ).toBeGreaterThan(0)
+      }
+    }
+  }
+})
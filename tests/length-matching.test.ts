@@ -0,0 +1,61 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import { checkDesignRules } from "../lib/utils/checkDesignRules"
+import lengthMatching from "../examples/assets/length-matching.json"
+
+const getTraceLength = (solver: CapacityMeshSolver, connectionName: string) => {
+  let length = 0
+  for (const trace of solver.getOutputSimplifiedPcbTraces()) {
+    if (trace.connection_name !== connectionName) continue
+    for (let i = 0; i < trace.route.length - 1; i++) {
+      const a = trace.route[i]
+      const b = trace.route[i + 1]
+      if (a.route_type !== "wire" || b.route_type !== "wire") continue
+      if (a.layer !== b.layer) continue
+      length += Math.hypot(b.x - a.x, b.y - a.y)
+    }
+  }
+  return length
+}
+
+test("meanders tune connections to their target length and match groups", () => {
+  const srj = structuredClone(lengthMatching) as SimpleRouteJson
+  const solver = new CapacityMeshSolver(srj)
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  const report = solver.getLengthMatchingReport()!
+  expect(report.tolerance).toBe(0.1)
+
+  const clk = report.connections.find((c) => c.connectionName === "clk")!
+  expect(clk.originalLength).toBeLessThan(13)
+  expect(clk.withinTolerance).toBe(true)
+  expect(Math.abs(getTraceLength(solver, "clk") - 14)).toBeLessThan(0.1)
+
+  const bus = report.groups.find((g) => g.name === "bus")!
+  expect(bus.connectionNames.sort()).toEqual(["bus0", "bus1", "bus2"])
+  expect(bus.withinTolerance).toBe(true)
+  expect(bus.maxLength - bus.minLength).toBeLessThan(0.1)
+  for (const name of bus.connectionNames) {
+    expect(
+      Math.abs(getTraceLength(solver, name) - bus.targetLength),
+    ).toBeLessThan(0.1)
+  }
+
+  expect(checkDesignRules(srj, solver.getOutputSimplifiedPcbTraces())).toEqual(
+    [],
+  )
+})
+
+test("length matching is skipped when no connection asks for it", () => {
+  const srj = structuredClone(lengthMatching) as SimpleRouteJson
+  srj.connections = srj.connections.map(
+    ({ targetLength, lengthMatchGroup, ...connection }) => connection,
+  )
+  const solver = new CapacityMeshSolver(srj)
+  solver.solve()
+
+  expect(solver.lengthMatchingSolver).toBeUndefined()
+  expect(solver.getLengthMatchingReport()).toBeNull()
+})
@@ -0,0 +1,48 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import { CapacityPathingSolver6_NegotiatedCongestion } from "../lib/solvers/CapacityPathingSolver/CapacityPathingSolver6_NegotiatedCongestion"
+import type { SimpleRouteJson } from "../lib/types"
+import e2e3 from "../examples/assets/e2e3.json"
+
+const srj = e2e3 as unknown as SimpleRouteJson
+
+test("negotiated congestion reduces the overflow of the first pass", () => {
+  const pipeline = new CapacityMeshSolver(structuredClone(srj))
+  pipeline.solveUntilPhase("pathingSolver")
+
+  const solver = new CapacityPathingSolver6_NegotiatedCongestion({
+    simpleRouteJson: pipeline.srjWithPointPairs!,
+    nodes: pipeline.capacityNodes!,
+    edges: pipeline.capacityEdges!,
+  })
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  const { iterationStats } = solver
+  expect(iterationStats.length).toBeGreaterThan(1)
+  expect(iterationStats.map((s) => s.iteration)).toEqual(
+    iterationStats.map((_, i) => i),
+  )
+  expect(solver.bestIteration!.stats.totalOverflow).toBeLessThan(
+    iterationStats[0].totalOverflow,
+  )
+  // The kept paths are the paths of the best pass
+  expect(solver.getIterationStats().totalOverflow).toBeCloseTo(
+    solver.bestIteration!.stats.totalOverflow,
+  )
+  expect(solver.getCapacityPaths()).toHaveLength(
+    pipeline.srjWithPointPairs!.connections.length,
+  )
+})
+
+test("negotiatedCongestion can be selected as the pipeline's pathing step", () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj), {
+    pathingStrategy: "negotiatedCongestion",
+  })
+  solver.solve()
+
+  expect(solver.pathingSolver).toBeInstanceOf(
+    CapacityPathingSolver6_NegotiatedCongestion,
+  )
+  expect(solver.getCompletionReport().completionPercentage).toBe(100)
+})
@@ -0,0 +1,181 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver, checkDesignRules } from "../lib"
+import type { SimpleRouteJson, SimplifiedPcbTrace } from "../lib/types"
+import { getTraceParamsMapFromSimpleRouteJson } from "../lib/utils/getTraceParamsMapFromSimpleRouteJson"
+import { minimumDistanceBetweenSegments } from "../lib/utils/minimumDistanceBetweenSegments"
+import { SingleHighDensityRouteSolver6_VertHorzLayer_FutureCost } from "../lib/solvers/HighDensitySolver/SingleHighDensityRouteSolver6_VertHorzLayer_FutureCost"
+import { pointToSegmentDistance } from "@tscircuit/math-utils"
+import type { HighDensityIntraNodeRoute } from "../lib/types/high-density-types"
+
+const srj: SimpleRouteJson = {
+  layerCount: 2,
+  minTraceWidth: 0.1,
+  bounds: { minX: 0, maxX: 10, minY: 0, maxY: 10 },
+  // Two obstacles leave a narrow channel the traces need to share
+  obstacles: [
+    {
+      type: "rect",
+      layers: ["top", "bottom"],
+      center: { x: 5, y: 2.1 },
+      width: 1,
+      height: 4.2,
+      connectedTo: [],
+    },
+    {
+      type: "rect",
+      layers: ["top", "bottom"],
+      center: { x: 5, y: 7.9 },
+      width: 1,
+      height: 4.2,
+      connectedTo: [],
+    },
+  ],
+  netClasses: [
+    {
+      name: "Power",
+      traceWidth: 0.3,
+      clearance: 0.4,
+      connections: ["VCC"],
+    },
+  ],
+  defaultNetClass: {
+    name: "Default",
+    clearance: 0.15,
+  },
+  connections: [
+    {
+      name: "VCC",
+      pointsToConnect: [
+        { x: 1, y: 2, layer: "top" },
+        { x: 9, y: 2, layer: "top" },
+      ],
+    },
+    {
+      name: "SIG",
+      pointsToConnect: [
+        { x: 1, y: 8, layer: "top" },
+        { x: 9, y: 8, layer: "top" },
+      ],
+    },
+  ],
+}
+
+const getWireSegments = (trace: SimplifiedPcbTrace) => {
+  const segments: Array<[{ x: number; y: number }, { x: number; y: number }]> =
+    []
+  for (let i = 0; i < trace.route.length - 1; i++) {
+    const a = trace.route[i]
+    const b = trace.route[i + 1]
+    if (a.route_type !== "wire" || b.route_type !== "wire") continue
+    if (a.layer !== b.layer) continue
+    segments.push([a, b])
+  }
+  return segments
+}
+
+test("net class trace params take precedence over the default net class", () => {
+  const traceParamsMap = getTraceParamsMapFromSimpleRouteJson(srj)
+  expect(traceParamsMap.VCC).toMatchObject({
+    traceThickness: 0.3,
+    clearance: 0.4,
+  })
+  expect(traceParamsMap.SIG).toMatchObject({
+    traceThickness: 0.1,
+    clearance: 0.15,
+  })
+})
+
+test("routes keep the net class clearance from each other", () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj))
+  solver.solve()
+  expect(solver.solved).toBe(true)
+
+  const traces = solver.getOutputSimplifiedPcbTraces()
+  const vccTraces = traces.filter((t) => t.connection_name === "VCC")
+  const sigTraces = traces.filter((t) => t.connection_name === "SIG")
+
+  for (const segment of vccTraces.flatMap((t) => t.route)) {
+    if (segment.route_type === "wire") expect(segment.width).toBe(0.3)
+  }
+
+  let minDist = Infinity
+  for (const [a1, a2] of vccTraces.flatMap(getWireSegments)) {
+    for (const [b1, b2] of sigTraces.flatMap(getWireSegments)) {
+      minDist = Math.min(
+        minDist,
+        minimumDistanceBetweenSegments(a1, a2, b1, b2),
+      )
+    }
+  }
+  expect(minDist).toBeGreaterThanOrEqual(0.4)
+})
+
+test("high density routes keep the clearance of the obstacle route's net class", () => {
+  const obstacleRoute: HighDensityIntraNodeRoute = {
+    connectionName: "VCC",
+    traceThickness: 0.15,
+    viaDiameter: 0.6,
+    clearance: 0.8,
+    route: [
+      { x: 1, y: 0, z: 0 },
+      { x: 1, y: 0.6, z: 0 },
+    ],
+    vias: [],
+  }
+  const solver = new SingleHighDensityRouteSolver6_VertHorzLayer_FutureCost({
+    connectionName: "SIG",
+    obstacleRoutes: [obstacleRoute],
+    minDistBetweenEnteringPoints: 1,
+    bounds: { minX: 0, maxX: 2, minY: 0, maxY: 2 },
+    A: { x: 0.2, y: 1.3, z: 0 },
+    B: { x: 1.8, y: 1.3, z: 0 },
+    layerCount: 1,
+  })
+  solver.solve()
+  expect(solver.solved).toBe(true)
+
+  const [segA, segB] = obstacleRoute.route
+  for (const point of solver.solvedPath!.route) {
+    // half of each trace thickness + the VCC clearance
+    expect(pointToSegmentDistance(point, segA, segB)).toBeGreaterThanOrEqual(
+      0.95,
+    )
+  }
+})
+
+test("simplified routes of a wide net keep clear of a default net", () => {
+  // Both nets pass through a 2 wide channel between the obstacles
+  const channelSrj: SimpleRouteJson = {
+    ...structuredClone(srj),
+    obstacles: [
+      { ...srj.obstacles[0], center: { x: 5, y: 2 }, height: 4 },
+      { ...srj.obstacles[1], center: { x: 5, y: 8 }, height: 4 },
+    ],
+    netClasses: [
+      { name: "Power", traceWidth: 0.5, clearance: 0.2, connections: ["VCC"] },
+    ],
+    defaultNetClass: undefined,
+    connections: [
+      {
+        ...srj.connections[0],
+        pointsToConnect: [
+          { x: 1, y: 3, layer: "top" },
+          { x: 9, y: 3, layer: "top" },
+        ],
+      },
+      {
+        ...srj.connections[1],
+        pointsToConnect: [
+          { x: 1, y: 7, layer: "top" },
+          { x: 9, y: 7, layer: "top" },
+        ],
+      },
+    ],
+  }
+  const solver = new CapacityMeshSolver(structuredClone(channelSrj))
+  solver.solve()
+  expect(solver.getCompletionReport().completionPercentage).toBe(100)
+
+  const output = solver.getOutputSimpleRouteJson()
+  expect(checkDesignRules(channelSrj, output.traces!)).toEqual([])
+})
@@ -0,0 +1,58 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import { NetToPointPairsSolver } from "../lib/solvers/NetToPointPairsSolver/NetToPointPairsSolver"
+import type { SimpleRouteJson } from "../lib/types"
+import e2e2 from "../examples/assets/e2e2.json"
+
+test("points separated by a wall of other nets' obstacles aren't paired", () => {
+  const srj: SimpleRouteJson = {
+    layerCount: 2,
+    minTraceWidth: 0.15,
+    bounds: { minX: -5, maxX: 10, minY: -15, maxY: 10 },
+    obstacles: [
+      {
+        type: "rect",
+        layers: ["top", "bottom"],
+        center: { x: 3, y: -4 },
+        width: 2,
+        height: 12,
+        connectedTo: ["other_net"],
+      },
+    ],
+    connections: [
+      {
+        name: "net1",
+        pointsToConnect: [
+          { x: 0, y: 0, layer: "top" },
+          { x: 6, y: 0, layer: "top" },
+          { x: 3, y: 6, layer: "top" },
+        ],
+      },
+    ],
+  }
+  const solver = new NetToPointPairsSolver(srj)
+  solver.solve()
+
+  const pairs = solver.newConnections.map((c) =>
+    c.pointsToConnect.map((p) => p.y),
+  )
+  expect(pairs).toHaveLength(2)
+  // Both pairs connect to the point above the wall
+  expect(pairs.every((ys) => ys.includes(6))).toBe(true)
+})
+
+test("the least congested alternative net decomposition is selected", () => {
+  const solver = new CapacityMeshSolver(
+    structuredClone(e2e2) as unknown as SimpleRouteJson,
+    { netTopology: "steinerTree", evaluateAlternativeNetTrees: true },
+  )
+  solver.solve()
+
+  const { candidateOverflows, selectedCandidateIndex } =
+    solver.netTreeSelectionSolver!
+  expect(candidateOverflows.length).toBeGreaterThan(1)
+  expect(candidateOverflows[selectedCandidateIndex]).toBe(
+    Math.min(...candidateOverflows),
+  )
+  expect(solver.getCompletionReport().completionPercentage).toBe(100)
+})
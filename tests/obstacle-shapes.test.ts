@@ -0,0 +1,88 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver, checkDesignRules } from "../lib"
+import type { Obstacle, SimpleRouteJson } from "../lib/types"
+import {
+  doesRectOverlapObstacle,
+  getSegmentObstacleClosestApproach,
+  isRectInsideObstacle,
+} from "../lib/utils/obstacle-shapes"
+import circleObstacles from "../examples/assets/circle-obstacles.json"
+
+const circle: Obstacle = {
+  type: "circle",
+  layers: ["top"],
+  center: { x: 0, y: 0 },
+  width: 2,
+  height: 2,
+  connectedTo: [],
+}
+
+// L-shaped polygon, the notch is the top right quadrant
+const lShape: Obstacle = {
+  type: "polygon",
+  layers: ["top"],
+  center: { x: 0, y: 0 },
+  width: 2,
+  height: 2,
+  points: [
+    { x: -1, y: -1 },
+    { x: 1, y: -1 },
+    { x: 1, y: 0 },
+    { x: 0, y: 0 },
+    { x: 0, y: 1 },
+    { x: -1, y: 1 },
+  ],
+  connectedTo: [],
+}
+
+const rect = (x: number, y: number, size: number) => ({
+  center: { x, y },
+  width: size,
+  height: size,
+})
+
+test("circle obstacles only cover the area inside the circle", () => {
+  // Inside the bounding box, outside of the circle
+  expect(doesRectOverlapObstacle(rect(0.9, 0.9, 0.2), circle)).toBe(false)
+  expect(doesRectOverlapObstacle(rect(0.6, 0.6, 0.2), circle)).toBe(true)
+  expect(isRectInsideObstacle(rect(0, 0, 1), circle)).toBe(true)
+  expect(isRectInsideObstacle(rect(0, 0, 1.6), circle)).toBe(false)
+  expect(
+    getSegmentObstacleClosestApproach({ x: -2, y: 2 }, { x: 2, y: 2 }, circle)
+      .distance,
+  ).toBeCloseTo(1)
+})
+
+test("polygon obstacles handle concave shapes", () => {
+  expect(doesRectOverlapObstacle(rect(0.5, 0.5, 0.5), lShape)).toBe(false)
+  expect(doesRectOverlapObstacle(rect(-0.5, 0.5, 0.5), lShape)).toBe(true)
+  expect(isRectInsideObstacle(rect(-0.5, -0.5, 0.5), lShape)).toBe(true)
+  // Corners are inside the polygon but the notch cuts into the rect
+  expect(isRectInsideObstacle(rect(0, 0, 1.9), lShape)).toBe(false)
+  expect(
+    getSegmentObstacleClosestApproach(
+      { x: 0.5, y: 0.5 },
+      { x: 0.5, y: 2 },
+      lShape,
+    ).distance,
+  ).toBeCloseTo(0.5)
+})
+
+test("routes around circular obstacles without obstacle clearance violations", () => {
+  const srj = circleObstacles as SimpleRouteJson
+  const solver = new CapacityMeshSolver(structuredClone(srj))
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  expect(solver.getCompletionReport().completionPercentage).toBe(100)
+
+  const violations = checkDesignRules(
+    srj,
+    solver.getOutputSimplifiedPcbTraces(),
+  ).filter(
+    (v) =>
+      v.type === "trace_obstacle_clearance" ||
+      v.type === "via_obstacle_clearance",
+  )
+  expect(violations).toEqual([])
+})
@@ -0,0 +1,90 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import { CapacityPathingSolver5 } from "../lib/solvers/CapacityPathingSolver/CapacityPathingSolver5"
+import type { SimpleRouteJson } from "../lib/types"
+
+const srj: SimpleRouteJson = {
+  layerCount: 2,
+  minTraceWidth: 0.1,
+  bounds: { minX: 0, maxX: 10, minY: 0, maxY: 10 },
+  obstacles: [],
+  connections: [
+    {
+      name: "VCC",
+      traceWidth: 0.4,
+      viaDiameter: 0.8,
+      viaHoleDiameter: 0.4,
+      pointsToConnect: [
+        { x: 1, y: 2, layer: "top" },
+        { x: 9, y: 8, layer: "bottom" },
+      ],
+    },
+    {
+      name: "SIG",
+      pointsToConnect: [
+        { x: 1, y: 8, layer: "top" },
+        { x: 9, y: 2, layer: "top" },
+      ],
+    },
+  ],
+}
+
+test("per-connection trace width and via size are used in the output", () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj))
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+
+  const traces = solver.getOutputSimplifiedPcbTraces()
+  const vccTraces = traces.filter((t) => t.connection_name === "VCC")
+  const sigTraces = traces.filter((t) => t.connection_name === "SIG")
+  expect(vccTraces.length).toBeGreaterThan(0)
+  expect(sigTraces.length).toBeGreaterThan(0)
+
+  const vccSegments = vccTraces.flatMap((t) => t.route)
+  for (const segment of vccSegments) {
+    if (segment.route_type === "wire") {
+      expect(segment.width).toBe(0.4)
+    } else {
+      expect(segment.via_diameter).toBe(0.8)
+      expect(segment.via_hole_diameter).toBe(0.4)
+    }
+  }
+  expect(vccSegments.some((s) => s.route_type === "via")).toBe(true)
+
+  for (const segment of sigTraces.flatMap((t) => t.route)) {
+    if (segment.route_type === "wire") {
+      expect(segment.width).toBe(0.1)
+    } else {
+      expect(segment.via_diameter).toBeUndefined()
+    }
+  }
+})
+
+test("capacity planning is sized for the board's default trace params", () => {
+  const node = {
+    capacityMeshNodeId: "cn0",
+    center: { x: 5, y: 5 },
+    width: 4,
+    height: 4,
+    layer: "top",
+    availableZ: [0, 1],
+  }
+  const getPathingSolver = (simpleRouteJson: SimpleRouteJson) =>
+    new CapacityPathingSolver5({ simpleRouteJson, nodes: [node], edges: [] })
+
+  const defaultSolver = getPathingSolver(srj)
+  const largeViaSolver = getPathingSolver({
+    ...srj,
+    defaultNetClass: { name: "default", viaDiameter: 1.2, clearance: 0.3 },
+  })
+  expect(largeViaSolver.getTotalCapacity(node)).toBeLessThan(
+    defaultSolver.getTotalCapacity(node),
+  )
+
+  // The default signal uses one unit, the power net more than one
+  expect(defaultSolver.getConnectionCapacityUsage(srj.connections[1])).toBe(1)
+  expect(
+    defaultSolver.getConnectionCapacityUsage(srj.connections[0]),
+  ).toBeGreaterThan(1)
+})
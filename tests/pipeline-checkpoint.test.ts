@@ -0,0 +1,43 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import e2e3 from "../examples/assets/e2e3.json"
+
+const srj = e2e3 as unknown as SimpleRouteJson
+
+test("pipeline resumed from a checkpoint produces the same output", () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj))
+  solver.solve()
+  const expectedTraces = solver.getOutputSimplifiedPcbTraces()
+
+  for (const phase of [
+    "edgeSolver",
+    "highDensityRouteSolver",
+    "multiSimplifiedPathSolver",
+  ]) {
+    const pausedSolver = new CapacityMeshSolver(structuredClone(srj))
+    pausedSolver.solveUntilPhase(phase)
+    const checkpoint = JSON.parse(JSON.stringify(pausedSolver.getCheckpoint()))
+    expect(checkpoint.phase).toBe(phase)
+
+    const resumedSolver = CapacityMeshSolver.fromCheckpoint(checkpoint)
+    expect(resumedSolver.getCurrentPhase()).toBe(phase)
+    resumedSolver.solve()
+
+    expect(resumedSolver.solved).toBe(true)
+    expect(resumedSolver.getOutputSimplifiedPcbTraces()).toEqual(expectedTraces)
+    expect(resumedSolver.getCompletionReport()).toEqual(
+      solver.getCompletionReport(),
+    )
+  }
+})
+
+test("fromCheckpoint throws for an unknown phase", () => {
+  expect(() =>
+    CapacityMeshSolver.fromCheckpoint({
+      phase: "notASolver",
+      srj,
+      opts: {},
+    }),
+  ).toThrow('Unknown pipeline phase "notASolver"')
+})
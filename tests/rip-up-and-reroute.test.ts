@@ -0,0 +1,95 @@
+import { expect, test } from "bun:test"
+import { HighDensitySolver } from "../lib/solvers/HighDensitySolver/HighDensitySolver"
+import { RipUpAndRerouteSolver } from "../lib/solvers/RipUpAndRerouteSolver/RipUpAndRerouteSolver"
+import type { NodeWithPortPoints } from "../lib/types/high-density-types"
+import nodesWithPortPoints from "../examples/assets/cn41329-with-neighbor-nodesWithPortPoints.json"
+
+test("RipUpAndRerouteSolver re-solves a failed node merged with its neighbor", () => {
+  const nodes = nodesWithPortPoints as NodeWithPortPoints[]
+  const highDensitySolver = new HighDensitySolver({
+    nodePortPoints: structuredClone(nodes),
+  })
+  highDensitySolver.solve()
+
+  expect(
+    highDensitySolver.failedSolvers.map(
+      (s) => s.nodeWithPortPoints.capacityMeshNodeId,
+    ),
+  ).toEqual(["cn41329"])
+
+  const solver = new RipUpAndRerouteSolver({
+    nodesWithPortPoints: structuredClone(nodes),
+    routesByNodeId: highDensitySolver.routesByNodeId,
+    failedNodes: highDensitySolver.failedSolvers,
+  })
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  expect(solver.failedNodes).toHaveLength(0)
+  expect(solver.solvedRegions).toHaveLength(1)
+  const region = solver.solvedRegions[0]
+  expect(region.width).toBeCloseTo(1.2890625)
+  expect(region.height).toBeCloseTo(1.2890625 * 2)
+
+  // The port point source_trace_41 crosses between the two nodes on was
+  // assigned again on the first layer, which lets both nodes be solved
+  const getSharedPortPoint = (nodeId: string) =>
+    solver.nodeMap
+      .get(nodeId)!
+      .portPoints.find(
+        (p) => p.connectionName === "source_trace_41" && p.y === -20.546875,
+      )
+  expect(getSharedPortPoint("cn41259")?.z).toBe(0)
+  expect(getSharedPortPoint("cn41329")?.z).toBe(0)
+  expect(
+    solver.routesByNodeId
+      .get("cn41329")!
+      .map((r) => r.connectionName)
+      .sort(),
+  ).toEqual(["source_trace_31", "source_trace_41"])
+})
+
+test("RipUpAndRerouteSolver retries nodes that failed in the previous pass", () => {
+  // A row of four nodes with a connection passing straight through
+  const node = (i: number): NodeWithPortPoints => ({
+    capacityMeshNodeId: `n${i}`,
+    center: { x: i + 0.5, y: 0.5 },
+    width: 1,
+    height: 1,
+    portPoints: [
+      { x: i, y: 0.5, z: 0, connectionName: "A" },
+      { x: i + 1, y: 0.5, z: 0, connectionName: "A" },
+    ],
+  })
+  const nodes = [0, 1, 2, 3].map(node)
+
+  // Rerouting n3 only works once the first pass is over
+  class FirstPassFailingSolver extends RipUpAndRerouteSolver {
+    startAttempt(
+      ...args: Parameters<RipUpAndRerouteSolver["startAttempt"]>
+    ): boolean {
+      const [failedNode] = args
+      if (
+        this.pass === 0 &&
+        failedNode.nodeWithPortPoints.capacityMeshNodeId === "n3"
+      ) {
+        return false
+      }
+      return super.startAttempt(...args)
+    }
+  }
+  const solver = new FirstPassFailingSolver({
+    nodesWithPortPoints: nodes,
+    routesByNodeId: new Map(),
+    failedNodes: [nodes[0], nodes[3]].map((nodeWithPortPoints) => ({
+      nodeWithPortPoints,
+      error: "failed",
+    })),
+  })
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  expect(solver.pass).toBe(2)
+  expect(solver.failedNodes).toHaveLength(0)
+  expect(solver.solvedRegions).toHaveLength(2)
+})
@@ -0,0 +1,70 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver, checkDesignRules } from "../lib"
+import { CapacityMeshNodeSolver2_NodeUnderObstacle } from "../lib/solvers/CapacityMeshSolver/CapacityMeshNodeSolver2_NodesUnderObstacles"
+import type { Obstacle, SimpleRouteJson } from "../lib/types"
+import { doRectsOverlap } from "../lib/utils/doRectsOverlap"
+import { isPointInRect } from "../lib/utils/isPointInRect"
+import rotatedObstacles from "../examples/assets/rotated-obstacles.json"
+
+// A 2x2 square rotated into a diamond reaching x/y = ±sqrt(2)
+const diamond: Obstacle = {
+  type: "rect",
+  layers: ["top", "bottom"],
+  center: { x: 0, y: 0 },
+  width: 2,
+  height: 2,
+  ccwRotationDegrees: 45,
+  connectedTo: [],
+}
+
+test("isPointInRect and doRectsOverlap handle rotated rects", () => {
+  expect(isPointInRect({ x: 1.3, y: 0 }, diamond)).toBe(true)
+  expect(isPointInRect({ x: 0.9, y: 0.9 }, diamond)).toBe(false)
+
+  const cornerRect = { center: { x: 1.2, y: 1.2 }, width: 0.4, height: 0.4 }
+  const edgeRect = { center: { x: 1.5, y: 0 }, width: 0.4, height: 0.4 }
+  expect(doRectsOverlap(cornerRect, diamond)).toBe(false)
+  expect(doRectsOverlap(diamond, cornerRect)).toBe(false)
+  expect(doRectsOverlap(edgeRect, diamond)).toBe(true)
+})
+
+test("mesh nodes in the corners of a rotated rect's bounds are free", () => {
+  const nodeSolver = new CapacityMeshNodeSolver2_NodeUnderObstacle(
+    {
+      layerCount: 2,
+      minTraceWidth: 0.15,
+      bounds: { minX: -2, maxX: 2, minY: -2, maxY: 2 },
+      obstacles: [structuredClone(diamond)],
+      connections: [],
+    },
+    { capacityDepth: 4 },
+  )
+  nodeSolver.solve()
+
+  const nodeAt = (x: number, y: number) =>
+    nodeSolver.finishedNodes.find(
+      (n) =>
+        Math.abs(n.center.x - x) <= n.width / 2 &&
+        Math.abs(n.center.y - y) <= n.height / 2,
+    )
+  // Inside the bounding box of the diamond but outside of the diamond
+  expect(nodeAt(1.2, 1.2)?._containsObstacle).toBe(false)
+  // Center of the diamond
+  expect(nodeAt(0.1, 0.1)).toBeUndefined()
+})
+
+test("routes around rotated obstacles without obstacle clearance violations", () => {
+  const srj = rotatedObstacles as SimpleRouteJson
+  const solver = new CapacityMeshSolver(structuredClone(srj))
+  solver.solve()
+
+  expect(solver.solved).toBe(true)
+  expect(solver.getCompletionReport().completionPercentage).toBe(100)
+  expect(
+    checkDesignRules(srj, solver.getOutputSimplifiedPcbTraces()).filter(
+      (v) =>
+        v.type === "trace_obstacle_clearance" ||
+        v.type === "via_obstacle_clearance",
+    ),
+  ).toEqual([])
+})
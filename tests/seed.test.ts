@@ -0,0 +1,28 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import e2e3 from "../examples/assets/e2e3.json"
+
+const solveWithSeed = (seed?: number) => {
+  const solver = new CapacityMeshSolver(
+    structuredClone(e2e3) as unknown as SimpleRouteJson,
+    { seed },
+  )
+  solver.solve()
+  expect(solver.solved).toBe(true)
+  return JSON.stringify(solver.getOutputSimpleRouteJson())
+}
+
+test("the same input and seed produce identical output", () => {
+  expect(solveWithSeed(1)).toBe(solveWithSeed(1))
+  expect(solveWithSeed()).toBe(solveWithSeed(0))
+})
+
+test("different seeds produce different candidate solutions", () => {
+  const outputs = new Set([
+    solveWithSeed(0),
+    solveWithSeed(1),
+    solveWithSeed(2),
+  ])
+  expect(outputs.size).toBe(3)
+})
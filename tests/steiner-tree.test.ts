@@ -0,0 +1,132 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import { buildRectilinearSteinerTree } from "../lib/solvers/NetToPointPairsSolver/buildRectilinearSteinerTree"
+import { addTeeJunctions } from "../lib/solvers/RouteStitchingSolver/addTeeJunctions"
+import type { SimpleRouteJson } from "../lib/types"
+import type { HighDensityRoute } from "../lib/types/high-density-types"
+
+const pad = (x: number, y: number, portId: string) => ({
+  type: "rect" as const,
+  layers: ["top"],
+  center: { x, y },
+  width: 1,
+  height: 1,
+  connectedTo: [portId],
+})
+
+const pin = (x: number, y: number, portId: string) => ({
+  x,
+  y,
+  layer: "top",
+  pcb_port_id: portId,
+})
+
+const srj: SimpleRouteJson = {
+  layerCount: 2,
+  minTraceWidth: 0.15,
+  bounds: { minX: -10, maxX: 10, minY: -10, maxY: 10 },
+  obstacles: [
+    pad(-6, 0, "p1"),
+    pad(6, 0, "p2"),
+    pad(0, 6, "p3"),
+    pad(0, -6, "p4"),
+  ],
+  connections: [
+    {
+      name: "net1",
+      pointsToConnect: [
+        pin(-6, 0, "p1"),
+        pin(6, 0, "p2"),
+        pin(0, 6, "p3"),
+        pin(0, -6, "p4"),
+      ],
+    },
+  ],
+}
+
+test("the Steiner tree of a cross of points meets at its center", () => {
+  const { steinerPoints, edges } = buildRectilinearSteinerTree(
+    srj.connections[0].pointsToConnect,
+  )
+  expect(steinerPoints).toEqual([{ x: 0, y: 0 }])
+  expect(edges).toHaveLength(4)
+})
+
+test("a branch tees off the net's copper where it first touches it", () => {
+  const route = (
+    connectionName: string,
+    points: Array<[number, number]>,
+  ): HighDensityRoute => ({
+    connectionName,
+    traceThickness: 0.15,
+    viaDiameter: 0.6,
+    route: points.map(([x, y]) => ({ x, y, z: 0 })),
+    vias: [],
+  })
+  const routes = addTeeJunctions([
+    route("net1_mst1", [
+      [5, 5],
+      [5, 0],
+      [10, 0],
+    ]),
+    route("net1_mst0", [
+      [0, 0],
+      [10, 0],
+    ]),
+  ])
+
+  expect(routes.map((r) => r.route.map((p) => [p.x, p.y]))).toEqual([
+    [
+      [0, 0],
+      [5, 0],
+    ],
+    [
+      [5, 0],
+      [10, 0],
+    ],
+    [
+      [5, 5],
+      [5, 0],
+    ],
+  ])
+})
+
+test("steinerTree routes multi-pin nets through Steiner points", () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj), {
+    netTopology: "steinerTree",
+  })
+  solver.solve()
+
+  expect(
+    solver.srjWithPointPairs!.connections.every((c) =>
+      c.pointsToConnect.some((p) => p.x === 0 && p.y === 0),
+    ),
+  ).toBe(true)
+  expect(solver.getCompletionReport().completionPercentage).toBe(100)
+})
+
+test("steinerTree branches are routed to the net's existing copper", () => {
+  const solver = new CapacityMeshSolver(structuredClone(srj), {
+    netTopology: "steinerTree",
+  })
+  solver.solve()
+
+  const teedPaths = solver.capacityPaths!.filter((p) => p.teesOffConnectionName)
+  expect(teedPaths.length).toBeGreaterThan(0)
+  const routes = solver.highDensityStitchSolver!.mergedHdRoutes
+  for (const { connectionName, teesOffConnectionName } of teedPaths) {
+    const branchEnd = routes
+      .find((r) => r.connectionName === connectionName)!
+      .route.at(-1)!
+    // The host is split at the junction, one of its halves starts there
+    expect(
+      routes.some(
+        (r) =>
+          r.connectionName === teesOffConnectionName &&
+          r.route[0].x === branchEnd.x &&
+          r.route[0].y === branchEnd.y,
+      ),
+    ).toBe(true)
+  }
+  expect(solver.getCompletionReport().completionPercentage).toBe(100)
+})
@@ -0,0 +1,59 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import type { NodeWithPortPoints } from "../lib/types/high-density-types"
+import { BaseSolver } from "../lib/solvers/BaseSolver"
+import { HighDensitySolver } from "../lib/solvers/HighDensitySolver/HighDensitySolver"
+import keyboard3 from "../examples/assets/keyboard3.json"
+
+test("a time budget returns the best partial routing", () => {
+  const solver = new CapacityMeshSolver(
+    structuredClone(keyboard3) as unknown as SimpleRouteJson,
+    { timeBudgetMs: 1000 },
+  )
+  const startTime = performance.now()
+  solver.solve()
+  // Without a budget this board takes several seconds
+  expect(performance.now() - startTime).toBeLessThan(3000)
+
+  expect(solver.solved).toBe(true)
+  expect(solver.stagesThatRanOutOfTime.length).toBeGreaterThan(0)
+
+  const report = solver.getCompletionReport()
+  expect(report.completionPercentage).toBeLessThan(100)
+
+  // Connections that weren't routed at all don't get traces
+  const traces = solver.getOutputSimplifiedPcbTraces()
+  for (const connectionName of report.failedConnectionNames) {
+    expect(traces.some((t) => t.connection_name === connectionName)).toBe(false)
+  }
+})
+
+test("nodes that weren't started before the deadline are only recorded as failed", () => {
+  const node = (id: string): NodeWithPortPoints => ({
+    capacityMeshNodeId: id,
+    center: { x: 0, y: 0 },
+    width: 1,
+    height: 1,
+    portPoints: [
+      { connectionName: "a", x: -0.5, y: 0, z: 0 },
+      { connectionName: "a", x: 0.5, y: 0, z: 0 },
+    ],
+  })
+  const solver = new HighDensitySolver({
+    nodePortPoints: [node("cn1"), node("cn2")],
+  })
+  solver.handleDeadline()
+
+  expect(solver.solved).toBe(true)
+  expect(
+    solver.failedSolvers.map((s) => [
+      s.nodeWithPortPoints.capacityMeshNodeId,
+      s.error,
+      s instanceof BaseSolver,
+    ]),
+  ).toEqual([
+    ["cn1", "Ran out of time", false],
+    ["cn2", "Ran out of time", false],
+  ])
+})
@@ -0,0 +1,198 @@
+import { expect, test } from "bun:test"
+import { CapacityMeshSolver, checkDesignRules } from "../lib"
+import type { SimpleRouteJson } from "../lib/types"
+import type { NodeWithPortPoints } from "../lib/types/high-density-types"
+import { getViaBudgetsByNodeId } from "../lib/utils/getViaBudgetsByNodeId"
+import { IntraNodeRouteSolver } from "../lib/solvers/HighDensitySolver/IntraNodeSolver"
+
+const crossingSrj = (maxVias: { A?: number; B?: number }): SimpleRouteJson => ({
+  layerCount: 2,
+  minTraceWidth: 0.15,
+  bounds: { minX: -10, maxX: 10, minY: -10, maxY: 10 },
+  obstacles: [],
+  connections: [
+    {
+      name: "A",
+      maxVias: maxVias.A,
+      pointsToConnect: [
+        { x: -6, y: 0, layer: "top" },
+        { x: 6, y: 0, layer: "top" },
+      ],
+    },
+    {
+      name: "B",
+      maxVias: maxVias.B,
+      pointsToConnect: [
+        { x: 0, y: -6, layer: "top" },
+        { x: 0, y: 6, layer: "top" },
+      ],
+    },
+  ],
+})
+
+const countVias = (srj: SimpleRouteJson, connectionName: string) =>
+  (srj.traces ?? [])
+    .filter((t) => t.connection_name === connectionName)
+    .flatMap((t) => t.route)
+    .filter((p) => p.route_type === "via").length
+
+test.each([
+  { limited: "A", other: "B" },
+  { limited: "B", other: "A" },
+])(
+  "the other net changes layer to cross a connection without vias ($limited)",
+  ({ limited, other }) => {
+    const solver = new CapacityMeshSolver(crossingSrj({ [limited]: 0 }))
+    solver.solve()
+
+    expect(solver.solved).toBe(true)
+    const output = solver.getOutputSimpleRouteJson()
+    expect(countVias(output, limited)).toBe(0)
+    expect(countVias(output, other)).toBeGreaterThan(0)
+    expect(
+      checkDesignRules(output, output.traces!).filter(
+        (v) => v.type === "via_limit",
+      ),
+    ).toEqual([])
+  },
+)
+
+test("checkDesignRules reports via limits that can't be met", () => {
+  const srj = crossingSrj({ A: 0 })
+  srj.connections[0].pointsToConnect[1].layer = "bottom"
+  const solver = new CapacityMeshSolver(structuredClone(srj))
+  solver.solve()
+
+  const output = solver.getOutputSimpleRouteJson()
+  expect(solver.getCompletionReport().completionPercentage).toBe(100)
+  const violations = checkDesignRules(srj, output.traces!).filter(
+    (v) => v.type === "via_limit",
+  )
+  expect(violations.map((v) => v.connectionNames)).toEqual([["A"]])
+})
+
+test("getViaBudgetsByNodeId gives the vias left after the planned layers to the busiest nodes", () => {
+  const portPoint = (x: number, z: number, connectionName = "A") => ({
+    x,
+    y: 0,
+    z,
+    connectionName,
+  })
+  const node = (
+    id: string,
+    x: number,
+    portPoints: NodeWithPortPoints["portPoints"],
+  ) => ({
+    capacityMeshNodeId: id,
+    center: { x, y: 0 },
+    width: 1,
+    height: 1,
+    portPoints,
+  })
+  const nodesWithPortPoints = [
+    // Target nodes, A starts on the bottom layer
+    node("start", 0, [portPoint(0.5, 0)]),
+    node("end", 3, [portPoint(2.5, 1)]),
+    node("n1", 1, [portPoint(0.5, 0), portPoint(1.5, 0)]),
+    node("n2", 2, [
+      portPoint(1.5, 0),
+      portPoint(2.5, 1),
+      portPoint(2, 0, "B"),
+      portPoint(2, 1, "B"),
+    ]),
+  ]
+  const connections = [
+    {
+      name: "A",
+      pointsToConnect: [
+        { x: 0, y: 0, layer: "bottom" },
+        { x: 3, y: 0, layer: "bottom" },
+      ],
+    },
+  ]
+  const getBudgets = (maxVias: number) =>
+    getViaBudgetsByNodeId({
+      nodesWithPortPoints,
+      connections,
+      traceParamsMap: {
+        A: { traceThickness: 0.15, viaDiameter: 0.6, maxVias },
+      },
+      layerCount: 2,
+    })
+
+  // The start and n2 each need a via
+  expect(getBudgets(2).get("n1")).toEqual({ A: 0 })
+  expect(getBudgets(2).get("n2")).toEqual({ A: 1 })
+  expect(getBudgets(4).get("n1")).toEqual({ A: 0 })
+  expect(getBudgets(4).get("n2")).toEqual({ A: 3 })
+  expect(getBudgets(6).get("n1")).toEqual({ A: 2 })
+  expect(getBudgets(6).has("start")).toBe(false)
+})
+
+test("getViaBudgetsByNodeId counts the layers of every port point of a connection in a node", () => {
+  const portPoint = (x: number, y: number, z: number) => ({
+    x,
+    y,
+    z,
+    connectionName: "A",
+  })
+  // A passes through the node twice, once changing layer
+  const nodesWithPortPoints = [
+    {
+      capacityMeshNodeId: "n1",
+      center: { x: 0, y: 0 },
+      width: 2,
+      height: 2,
+      portPoints: [
+        portPoint(-1, -0.5, 0),
+        portPoint(1, -0.5, 0),
+        portPoint(-1, 0.5, 0),
+        portPoint(1, 0.5, 1),
+      ],
+    },
+  ]
+  const budgets = getViaBudgetsByNodeId({
+    nodesWithPortPoints,
+    connections: [
+      {
+        name: "A",
+        pointsToConnect: [
+          { x: -5, y: 0, layer: "top" },
+          { x: 5, y: 0, layer: "top" },
+        ],
+      },
+    ],
+    traceParamsMap: {
+      A: { traceThickness: 0.15, viaDiameter: 0.6, maxVias: 1 },
+    },
+    layerCount: 2,
+  })
+
+  expect(budgets.get("n1")).toEqual({ A: 1 })
+})
+
+test("nodes without a via budget give via limited connections no extra vias", () => {
+  const nodeSolver = (viaBudgets?: Record<string, number>) =>
+    new IntraNodeRouteSolver({
+      nodeWithPortPoints: {
+        capacityMeshNodeId: "n1",
+        center: { x: 0, y: 0 },
+        width: 2,
+        height: 2,
+        portPoints: [],
+      },
+      traceParamsMap: {
+        A: { traceThickness: 0.15, viaDiameter: 0.6, maxVias: 4 },
+      },
+      viaBudgets,
+    })
+  const sameLayer = [{ z: 0 }, { z: 0 }]
+  const layerChange = [{ z: 0 }, { z: 1 }]
+
+  expect(nodeSolver({}).getMaxVias("A", sameLayer)).toBe(0)
+  expect(nodeSolver({}).getMaxVias("A", layerChange)).toBe(1)
+  expect(nodeSolver({ A: 2 }).getMaxVias("A", sameLayer)).toBe(2)
+  // Without budgets the node may use all of the connection's vias
+  expect(nodeSolver().getMaxVias("A", sameLayer)).toBe(4)
+  expect(nodeSolver({}).getMaxVias("B", sameLayer)).toBeUndefined()
+})